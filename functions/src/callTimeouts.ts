@@ -0,0 +1,145 @@
+import { getDatabase } from 'firebase-admin/database';
+import { FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import type { DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+
+// How long a call rings before it counts as missed
+export const RING_TIMEOUT_MS = 60 * 1000;
+
+// How long every participant of a connected call must have been offline
+// before the call is treated as abandoned (e.g. all tabs crashed)
+export const STALE_CALL_GRACE_MS = 2 * 60 * 1000;
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+/**
+ * Delete a call's WebRTC signals
+ */
+const deleteSignals = async (callRef: DocumentReference): Promise<void> => {
+  const signals = await callRef.collection('signals').get();
+
+  for (let i = 0; i < signals.docs.length; i += BATCH_SIZE) {
+    const batch = getFirestore().batch();
+    signals.docs.slice(i, i + BATCH_SIZE).forEach((signal) => batch.delete(signal.ref));
+    await batch.commit();
+  }
+};
+
+/**
+ * The call log fields shared with the client's createCallLog()
+ */
+const toMissedCallLog = (callSnap: DocumentSnapshot) => {
+  const call = callSnap.data() || {};
+  const log: Record<string, unknown> = {
+    callId: callSnap.id,
+    roomId: call.roomId,
+    callerId: call.callerId,
+    callerName: call.callerName,
+    calleeId: call.calleeId,
+    calleeName: call.calleeName,
+    mediaType: call.mediaType || 'video',
+    outcome: 'missed',
+    timestamp: Timestamp.now(),
+    createdAt: Timestamp.now(),
+  };
+
+  if (call.callerAvatar != null) log.callerAvatar = call.callerAvatar;
+  if (call.calleeAvatar != null) log.calleeAvatar = call.calleeAvatar;
+  return log;
+};
+
+/**
+ * Mark calls that have rung for longer than RING_TIMEOUT_MS as missed and log
+ * them. Runs in a transaction per call, so a call answered at the last moment
+ * is left alone. Returns the number of calls expired.
+ */
+export const expireRingingCalls = async (now = Date.now()): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection('calls')
+    .where('status', '==', 'ringing')
+    .where('createdAt', '<=', Timestamp.fromMillis(now - RING_TIMEOUT_MS))
+    .get();
+
+  let expired = 0;
+
+  for (const callDoc of snapshot.docs) {
+    try {
+      const wasExpired = await db.runTransaction(async (transaction) => {
+        const callSnap = await transaction.get(callDoc.ref);
+        if (callSnap.data()?.status !== 'ringing') return false;
+
+        transaction.update(callDoc.ref, {
+          status: 'missed',
+          endedAt: FieldValue.serverTimestamp(),
+        });
+        transaction.create(db.collection('callLogs').doc(), toMissedCallLog(callSnap));
+        return true;
+      });
+
+      if (wasExpired) {
+        expired++;
+        await deleteSignals(callDoc.ref);
+      }
+    } catch (error) {
+      console.error('Error expiring call:', callDoc.id, error);
+    }
+  }
+
+  return expired;
+};
+
+/**
+ * Whether a user has been offline (per RTDB presence) since before the cutoff
+ */
+const isOfflineSince = async (userId: string, cutoff: number): Promise<boolean> => {
+  const status = (await getDatabase().ref(`status/${userId}`).get()).val();
+  if (!status) return true;
+  return status.state !== 'online' && (status.lastChanged || 0) <= cutoff;
+};
+
+/**
+ * End connected calls whose participants have all gone offline, e.g. because
+ * every tab was closed without leaving the call. Returns the number of calls
+ * ended.
+ */
+export const endStaleCalls = async (now = Date.now()): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db.collection('calls').where('status', '==', 'connected').get();
+  const cutoff = now - STALE_CALL_GRACE_MS;
+
+  let ended = 0;
+
+  for (const callDoc of snapshot.docs) {
+    try {
+      const participants: string[] = callDoc.data().participants || [];
+      const offline = await Promise.all(participants.map((id) => isOfflineSince(id, cutoff)));
+      if (!offline.every(Boolean)) continue;
+
+      const wasEnded = await db.runTransaction(async (transaction) => {
+        const callSnap = await transaction.get(callDoc.ref);
+        const call = callSnap.data();
+        // Someone (re)joined in the meantime
+        if (call?.status !== 'connected' || call.participants?.length !== participants.length) {
+          return false;
+        }
+
+        transaction.update(callDoc.ref, {
+          status: 'ended',
+          participants: [],
+          endedAt: FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+
+      if (wasEnded) {
+        ended++;
+        await deleteSignals(callDoc.ref);
+      }
+    } catch (error) {
+      console.error('Error ending stale call:', callDoc.id, error);
+    }
+  }
+
+  return ended;
+};
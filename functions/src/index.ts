@@ -0,0 +1,125 @@
+import { initializeApp } from 'firebase-admin/app';
+import { onRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import {
+  onDocumentCreated,
+  onDocumentUpdated,
+  onDocumentWritten,
+} from 'firebase-functions/v2/firestore';
+import { endStaleCalls, expireRingingCalls } from './callTimeouts.js';
+import { notifyMissedCall, notifyRoomMessage, notifyThreadReply } from './notifications.js';
+import { deliverDueScheduledMessages } from './scheduledMessages.js';
+import { pruneRoomMentions } from './mentions.js';
+import { syncRoomMembers } from './roomMembers.js';
+
+initializeApp();
+
+/**
+ * Expire unanswered calls and clean up abandoned ones
+ */
+const runCallTimeouts = async () => {
+  const [missed, ended] = await Promise.all([expireRingingCalls(), endStaleCalls()]);
+  console.log(`Call timeouts: ${missed} missed, ${ended} stale calls ended`);
+  return { missed, ended };
+};
+
+/**
+ * Ring timeouts are enforced here rather than in the caller's browser, so a
+ * call still stops ringing when the caller closes the tab
+ */
+export const callTimeouts = onSchedule('every 1 minutes', async () => {
+  await runCallTimeouts();
+});
+
+/**
+ * The emulator doesn't fire scheduled functions; POST here to run the job by
+ * hand. Disabled outside the emulator.
+ */
+export const runCallTimeoutsNow = onRequest(async (_request, response) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    response.status(404).send('Not found');
+    return;
+  }
+
+  response.json(await runCallTimeouts());
+});
+
+/**
+ * Send scheduled messages that have come due
+ */
+const runScheduledMessages = async () => {
+  const delivered = await deliverDueScheduledMessages();
+  console.log(`Scheduled messages: ${delivered} sent`);
+  return { delivered };
+};
+
+/**
+ * Scheduled messages are sent here rather than by the sender's browser, so
+ * they go out on time whether or not the sender has the app open
+ */
+export const scheduledMessages = onSchedule('every 1 minutes', async () => {
+  await runScheduledMessages();
+});
+
+/**
+ * The emulator doesn't fire scheduled functions; POST here to run the job by
+ * hand. Disabled outside the emulator.
+ */
+export const runScheduledMessagesNow = onRequest(async (_request, response) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    response.status(404).send('Not found');
+    return;
+  }
+
+  response.json(await runScheduledMessages());
+});
+
+/**
+ * Notifications are fanned out here so every member is notified (in-app and
+ * by push) whether or not they have the app open
+ */
+export const notifyOnMessage = onDocumentCreated(
+  'rooms/{roomId}/messages/{messageId}',
+  async (event) => {
+    if (!event.data) return;
+    await notifyRoomMessage(event.params.roomId, event.params.messageId, event.data.data());
+  }
+);
+
+export const notifyOnThreadReply = onDocumentCreated(
+  'rooms/{roomId}/messages/{messageId}/replies/{replyId}',
+  async (event) => {
+    if (!event.data) return;
+    await notifyThreadReply(
+      event.params.roomId,
+      event.params.messageId,
+      event.params.replyId,
+      event.data.data()
+    );
+  }
+);
+
+export const notifyOnMissedCall = onDocumentUpdated('calls/{callId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after) return;
+  await notifyMissedCall(event.params.callId, before, after);
+});
+
+/**
+ * Mentions grant read access to a message, so they go when a member leaves the room
+ */
+export const pruneMentionsOnLeave = onDocumentUpdated('rooms/{roomId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after) return;
+  await pruneRoomMentions(event.params.roomId, before, after);
+});
+
+/**
+ * The Realtime Database rules can't read Firestore, so the voice channel
+ * checks membership against a copy of each room's members
+ */
+export const syncRoomMembersToVoice = onDocumentWritten('rooms/{roomId}', async (event) => {
+  await syncRoomMembers(event.params.roomId, event.data?.before.data(), event.data?.after.data());
+});
@@ -0,0 +1,66 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+/**
+ * Remove a user from the mentions of the given messages or replies
+ */
+const removeMention = async (
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  userId: string
+): Promise<void> => {
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = getFirestore().batch();
+    docs
+      .slice(i, i + BATCH_SIZE)
+      .forEach((doc) => batch.update(doc.ref, { mentions: FieldValue.arrayRemove(userId) }));
+    await batch.commit();
+  }
+};
+
+/**
+ * Take the members who left a room (or were removed) out of the mentions of
+ * its messages and thread replies. Being mentioned grants read access to a
+ * message (the mentions inbox), so this ends it along with their membership.
+ * Returns the number of messages and replies updated.
+ */
+export const pruneRoomMentions = async (
+  roomId: string,
+  before: DocumentData,
+  after: DocumentData
+): Promise<number> => {
+  const remaining: string[] = after.members || [];
+  const removed = ((before.members || []) as string[]).filter((id) => !remaining.includes(id));
+  if (removed.length === 0) return 0;
+
+  const db = getFirestore();
+  let pruned = 0;
+
+  for (const userId of removed) {
+    try {
+      const [messages, replies] = await Promise.all([
+        db
+          .collection('rooms')
+          .doc(roomId)
+          .collection('messages')
+          .where('mentions', 'array-contains', userId)
+          .get(),
+        db
+          .collectionGroup('replies')
+          .where('roomId', '==', roomId)
+          .where('mentions', 'array-contains', userId)
+          .get(),
+      ]);
+
+      const docs = [...messages.docs, ...replies.docs];
+      await removeMention(docs, userId);
+      pruned += docs.length;
+    } catch (error) {
+      console.error('Error pruning mentions:', roomId, userId, error);
+    }
+  }
+
+  return pruned;
+};
@@ -0,0 +1,295 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { getMessaging } from 'firebase-admin/messaging';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+type NotificationType = 'message' | 'mention' | 'missedCall';
+type NotificationLevel = 'all' | 'mentions' | 'muted';
+
+/**
+ * The notification fields shared with the client's AppNotification
+ */
+interface NotificationData {
+  type: NotificationType;
+  roomId: string;
+  messageId?: string;
+  threadId?: string;
+  callId?: string;
+  actorId: string;
+  actorName: string;
+  actorAvatar?: string;
+  title: string;
+  body: string;
+}
+
+// Longest message excerpt shown in a notification
+const BODY_MAX_LENGTH = 140;
+
+// FCM errors that mean a token will never work again
+const STALE_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
+// Firestore's ALREADY_EXISTS status code
+const ALREADY_EXISTS = 6;
+
+/**
+ * The user's notification level for a room ('all' unless they changed it)
+ */
+const getNotificationLevel = async (userId: string, roomId: string): Promise<NotificationLevel> => {
+  const preference = await getFirestore()
+    .doc(`users/${userId}/notificationPreferences/${roomId}`)
+    .get();
+  return (preference.data()?.level as NotificationLevel) || 'all';
+};
+
+/**
+ * A one-line preview of a message for the notification body
+ */
+const toMessageBody = (message: DocumentData): string => {
+  // End-to-end encrypted content can't be read here
+  if (message.encryption) return 'Sent an encrypted message';
+  if (message.type === 'image') return 'Sent an image';
+  if (message.type === 'file') return 'Sent a file';
+
+  const content = String(message.content || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return content.length > BODY_MAX_LENGTH ? `${content.slice(0, BODY_MAX_LENGTH - 1)}…` : content;
+};
+
+/**
+ * Where a notification leads in the app (mirrors the client's getNotificationPath)
+ */
+const toPath = (notification: NotificationData): string => {
+  if (notification.type === 'missedCall') return '/calls';
+
+  const messageId = notification.threadId || notification.messageId;
+  return messageId
+    ? `/chat/${notification.roomId}?highlight=${messageId}`
+    : `/chat/${notification.roomId}`;
+};
+
+/**
+ * Push a notification to every device the user enabled push on, and forget
+ * tokens that no longer work
+ */
+const sendPush = async (
+  userId: string,
+  notificationId: string,
+  notification: NotificationData
+): Promise<void> => {
+  const tokensSnap = await getFirestore().collection(`users/${userId}/pushTokens`).get();
+  if (tokensSnap.empty) return;
+
+  const tokens = tokensSnap.docs.map((tokenDoc) => tokenDoc.id);
+  const response = await getMessaging().sendEachForMulticast({
+    tokens,
+    // Data only: the service worker decides whether to show it
+    data: {
+      notificationId,
+      title: notification.title,
+      body: notification.body,
+      url: toPath(notification),
+      ...(notification.actorAvatar && { icon: notification.actorAvatar }),
+    },
+    webpush: { headers: { Urgency: 'high' } },
+  });
+
+  await Promise.all(
+    response.responses.map((result, index) =>
+      !result.success && STALE_TOKEN_ERRORS.includes(result.error?.code || '')
+        ? tokensSnap.docs[index].ref.delete()
+        : Promise.resolve()
+    )
+  );
+};
+
+/**
+ * Add a notification to a user's notification centre and push it. The ID is
+ * derived from the source document, so a retried trigger doesn't notify twice.
+ */
+const deliverNotification = async (
+  userId: string,
+  notificationId: string,
+  notification: NotificationData
+): Promise<void> => {
+  try {
+    const data: Record<string, unknown> = {
+      ...notification,
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+    // Firestore rejects undefined fields
+    for (const key of Object.keys(data)) {
+      if (data[key] === undefined) delete data[key];
+    }
+
+    await getFirestore().doc(`users/${userId}/notifications/${notificationId}`).create(data);
+  } catch (error) {
+    if ((error as { code?: number }).code === ALREADY_EXISTS) return;
+    throw error;
+  }
+
+  try {
+    await sendPush(userId, notificationId, notification);
+  } catch (error) {
+    console.error('Error sending push notification:', userId, error);
+  }
+};
+
+/**
+ * Notify room members of a new message, according to each member's level for
+ * the room. Mentioned members get a mention notification even at 'mentions'.
+ */
+export const notifyRoomMessage = async (
+  roomId: string,
+  messageId: string,
+  message: DocumentData
+): Promise<number> => {
+  if (message.type === 'system') return 0;
+
+  const room = (await getFirestore().doc(`rooms/${roomId}`).get()).data();
+  if (!room) return 0;
+
+  const mentions: string[] = message.mentions || [];
+  const recipients: string[] = (room.members || []).filter(
+    (memberId: string) => memberId !== message.senderId
+  );
+  const roomName = room.type === 'direct' ? null : room.name;
+
+  let notified = 0;
+
+  await Promise.all(
+    recipients.map(async (userId) => {
+      const level = await getNotificationLevel(userId, roomId);
+      const isMentioned = mentions.includes(userId);
+      if (level === 'muted' || (level === 'mentions' && !isMentioned)) return;
+
+      await deliverNotification(userId, messageId, {
+        type: isMentioned ? 'mention' : 'message',
+        roomId,
+        messageId,
+        actorId: message.senderId,
+        actorName: message.senderName,
+        actorAvatar: message.senderAvatar || undefined,
+        title: isMentioned
+          ? `${message.senderName} mentioned you${roomName ? ` in ${roomName}` : ''}`
+          : roomName
+            ? `${message.senderName} in ${roomName}`
+            : message.senderName,
+        body: toMessageBody(message),
+      });
+      notified++;
+    })
+  );
+
+  return notified;
+};
+
+/**
+ * Notify the members mentioned in a thread reply, and the thread's author at
+ * level 'all'
+ */
+export const notifyThreadReply = async (
+  roomId: string,
+  threadId: string,
+  replyId: string,
+  reply: DocumentData
+): Promise<number> => {
+  const db = getFirestore();
+  const [roomSnap, rootSnap] = await Promise.all([
+    db.doc(`rooms/${roomId}`).get(),
+    db.doc(`rooms/${roomId}/messages/${threadId}`).get(),
+  ]);
+  const room = roomSnap.data();
+  if (!room) return 0;
+
+  const members: string[] = room.members || [];
+  const mentions: string[] = (reply.mentions || []).filter((id: string) => members.includes(id));
+  const threadAuthorId: string | undefined = rootSnap.data()?.senderId;
+  const recipients = new Set(mentions);
+  if (threadAuthorId && members.includes(threadAuthorId)) recipients.add(threadAuthorId);
+  recipients.delete(reply.senderId);
+
+  const roomName = room.type === 'direct' ? null : room.name;
+  let notified = 0;
+
+  await Promise.all(
+    [...recipients].map(async (userId) => {
+      const level = await getNotificationLevel(userId, roomId);
+      const isMentioned = mentions.includes(userId);
+      if (level === 'muted' || (level === 'mentions' && !isMentioned)) return;
+
+      await deliverNotification(userId, replyId, {
+        type: isMentioned ? 'mention' : 'message',
+        roomId,
+        messageId: replyId,
+        threadId,
+        actorId: reply.senderId,
+        actorName: reply.senderName,
+        actorAvatar: reply.senderAvatar || undefined,
+        title: isMentioned
+          ? `${reply.senderName} mentioned you in a thread${roomName ? ` in ${roomName}` : ''}`
+          : `${reply.senderName} replied to your thread${roomName ? ` in ${roomName}` : ''}`,
+        body: toMessageBody(reply),
+      });
+      notified++;
+    })
+  );
+
+  return notified;
+};
+
+/**
+ * Notify the people a call rang for when it stopped ringing unanswered (timed
+ * out, or the caller hung up). Declined calls aren't missed. Only members of
+ * the call's room are notified; group calls only those whose level for the
+ * room is 'all'.
+ */
+export const notifyMissedCall = async (
+  callId: string,
+  before: DocumentData,
+  after: DocumentData
+): Promise<number> => {
+  if (before.status !== 'ringing' || !['missed', 'ended'].includes(after.status)) return 0;
+
+  const roomSnap = await getFirestore().doc(`rooms/${after.roomId}`).get();
+  const room = roomSnap.data();
+  if (!room) return 0;
+
+  // The call document is written by the caller, so only the room's members are notified
+  const members: string[] = room.members || [];
+  if (!members.includes(after.callerId)) return 0;
+
+  const isGroup = after.type === 'group';
+  const recipients: string[] = (isGroup ? after.invitedIds || [] : [after.calleeId]).filter(
+    (id: string) => id && id !== after.callerId && members.includes(id)
+  );
+  const kind = after.mediaType === 'audio' ? 'voice' : 'video';
+
+  let notified = 0;
+
+  await Promise.all(
+    recipients.map(async (userId) => {
+      const level = await getNotificationLevel(userId, after.roomId);
+      if (level === 'muted' || (isGroup && level === 'mentions')) return;
+
+      await deliverNotification(userId, `call_${callId}`, {
+        type: 'missedCall',
+        roomId: after.roomId,
+        callId,
+        actorId: after.callerId,
+        actorName: after.callerName,
+        actorAvatar: after.callerAvatar || undefined,
+        title: `Missed ${kind} call`,
+        body: isGroup
+          ? `${after.callerName} started a call in ${room.name}`
+          : `${after.callerName} called you`,
+      });
+      notified++;
+    })
+  );
+
+  return notified;
+};
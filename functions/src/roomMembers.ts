@@ -0,0 +1,42 @@
+import { getDatabase } from 'firebase-admin/database';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+/**
+ * Mirror a room's members into the Realtime Database (`rooms/{roomId}/members`),
+ * where the voice channel rules can check them, and take members who left off
+ * the voice roster. A deleted room loses both. Rooms created before this
+ * function was deployed get their copy the next time their document changes.
+ */
+export const syncRoomMembers = async (
+  roomId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<void> => {
+  const roomRef = getDatabase().ref(`rooms/${roomId}`);
+
+  if (!after) {
+    await roomRef.update({ members: null, voice: null });
+    return;
+  }
+
+  const members: string[] = after.members || [];
+  const previous: string[] = before?.members || [];
+  if (
+    before &&
+    members.length === previous.length &&
+    members.every((id) => previous.includes(id))
+  ) {
+    return;
+  }
+
+  const updates: Record<string, unknown> = {
+    members: Object.fromEntries(members.map((id) => [id, true])),
+  };
+  previous
+    .filter((id) => !members.includes(id))
+    .forEach((id) => {
+      updates[`voice/${id}`] = null;
+    });
+
+  await roomRef.update(updates);
+};
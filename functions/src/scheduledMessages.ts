@@ -0,0 +1,110 @@
+import { FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// Due messages handled per run; the rest wait for the next run
+const DELIVERY_BATCH_LIMIT = 200;
+
+/**
+ * Why a scheduled message can't be delivered to its room, if it can't
+ */
+const getDeliveryError = (room: DocumentData | undefined, senderId: string): string | null => {
+  if (!room) return 'The room no longer exists';
+  if (!(room.members || []).includes(senderId)) return 'You are no longer a member of this room';
+  // Scheduled content is stored in plain text, so it can't go to an encrypted room
+  if (room.encrypted) return "Scheduled messages can't be sent to encrypted rooms";
+  return null;
+};
+
+/**
+ * Send every scheduled message that has come due, then remove it from the
+ * queue. Each message is delivered in one transaction that writes the room
+ * message (under the scheduled message's ID), updates the room's lastMessage
+ * and message count, and deletes the scheduled doc, so a retried or
+ * overlapping run never sends it twice. Messages that can't be delivered are
+ * marked `failed` for the sender to edit or cancel. Link previews are unfurled
+ * in the browser, so scheduled messages go out without one. Returns the number
+ * of messages sent.
+ */
+export const deliverDueScheduledMessages = async (now = Date.now()): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection('scheduledMessages')
+    .where('status', '==', 'pending')
+    .where('sendAt', '<=', Timestamp.fromMillis(now))
+    .orderBy('sendAt', 'asc')
+    .limit(DELIVERY_BATCH_LIMIT)
+    .get();
+
+  let delivered = 0;
+
+  for (const scheduledDoc of snapshot.docs) {
+    try {
+      const wasDelivered = await db.runTransaction(async (transaction) => {
+        const scheduledSnap = await transaction.get(scheduledDoc.ref);
+        const scheduled = scheduledSnap.data();
+        // Cancelled, edited to a later time or failed in the meantime
+        if (
+          !scheduled ||
+          scheduled.status !== 'pending' ||
+          (scheduled.sendAt as Timestamp).toMillis() > now
+        ) {
+          return false;
+        }
+
+        const roomRef = db.collection('rooms').doc(scheduled.roomId);
+        const messageRef = roomRef.collection('messages').doc(scheduledDoc.id);
+        const [roomSnap, messageSnap] = await Promise.all([
+          transaction.get(roomRef),
+          transaction.get(messageRef),
+        ]);
+
+        // Already sent by an earlier run that didn't get to remove it
+        if (messageSnap.exists) {
+          transaction.delete(scheduledDoc.ref);
+          return false;
+        }
+
+        const room = roomSnap.data();
+        const error = getDeliveryError(room, scheduled.senderId);
+        if (error) {
+          transaction.update(scheduledDoc.ref, { status: 'failed', error });
+          return false;
+        }
+
+        const members: string[] = room?.members || [];
+        const content: string = scheduled.content;
+
+        // The same fields as the client's sendMessage()
+        transaction.create(messageRef, {
+          roomId: scheduled.roomId,
+          senderId: scheduled.senderId,
+          senderName: scheduled.senderName,
+          senderAvatar: scheduled.senderAvatar || null,
+          content,
+          type: scheduled.type || 'text',
+          createdAt: FieldValue.serverTimestamp(),
+          replyTo: null,
+          // Only people still in the room can be mentioned
+          mentions: ((scheduled.mentions || []) as string[]).filter((id) => members.includes(id)),
+          encryption: null,
+          isEdited: false,
+          isDeleted: false,
+        });
+        transaction.update(roomRef, {
+          lastMessage: content.substring(0, 100),
+          lastMessageAt: FieldValue.serverTimestamp(),
+          lastMessageId: messageRef.id,
+          messageCount: FieldValue.increment(1),
+        });
+        transaction.delete(scheduledDoc.ref);
+        return true;
+      });
+
+      if (wasDelivered) delivered++;
+    } catch (error) {
+      console.error('Error delivering scheduled message:', scheduledDoc.id, error);
+    }
+  }
+
+  return delivered;
+};
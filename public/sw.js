@@ -0,0 +1,202 @@
+/* global self, clients, caches, importScripts */
+
+/**
+ * Service worker: makes the app installable and usable offline, and shows push
+ * notifications sent by the `notifications` Cloud Functions (Firebase Cloud
+ * Messaging data messages).
+ *
+ * - The app shell (every file of the build, listed in sw-precache.js by the
+ *   Vite build) is cached on install, per build version.
+ * - Page loads go to the network first, falling back to the cached shell and
+ *   then to offline.html.
+ * - Images from Firebase Storage (avatars, image attachments) are cached as
+ *   they load; other downloads, call recordings included, are left alone.
+ * - A new build waits until the page asks it to take over (SKIP_WAITING), so
+ *   the user decides when to reload.
+ */
+
+importScripts('/sw-precache.js');
+
+const { version, urls } = self.__PRECACHE__;
+
+const SHELL_CACHE_PREFIX = 'app-shell-';
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${version}`;
+const STORAGE_CACHE = 'storage-images';
+// Earlier caches of every Storage download, opaque responses and recordings included
+const RETIRED_CACHES = ['storage-media'];
+const STORAGE_CACHE_MAX_ENTRIES = 100;
+// Storage object paths are URL-encoded in download URLs (rooms%2F{roomId}%2Frecordings%2F...)
+const RECORDINGS_PATH = /\/o\/rooms\/[^/]+\/recordings\//;
+const OFFLINE_URL = '/offline.html';
+
+// Files from public/ the app needs offline (the build list covers the rest)
+const STATIC_URLS = [
+  '/',
+  OFFLINE_URL,
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/vite.svg',
+];
+
+const PRECACHE_URLS = new Set([...STATIC_URLS, ...urls]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll([...PRECACHE_URLS])));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      // Drop the shells of earlier builds and retired caches
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) =>
+              (name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE) ||
+              RETIRED_CACHES.includes(name)
+          )
+          .map((name) => caches.delete(name))
+      );
+      await clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+/**
+ * Page loads: the network when online, so a deploy shows up straight away
+ */
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match('/')) || (await cache.match(OFFLINE_URL)) || Response.error();
+  }
+};
+
+/**
+ * Build files never change under the same name, so the cached copy wins
+ */
+const handleShellAsset = async (request) => {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached || fetch(request);
+};
+
+/**
+ * Only images are worth keeping offline; recordings can be hundreds of MB
+ */
+const isCacheableStorageMedia = (request, url) =>
+  request.destination === 'image' && !RECORDINGS_PATH.test(decodeURIComponent(url.pathname));
+
+/**
+ * Storage download URLs carry a token, so a URL always points at the same
+ * file. Images are fetched with CORS so the cache never holds opaque
+ * responses (their size is unknown and counts heavily against the quota);
+ * without CORS the image loads uncached.
+ */
+const handleStorageMedia = async (request) => {
+  const cache = await caches.open(STORAGE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  let response;
+  try {
+    response = await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+  } catch {
+    return fetch(request);
+  }
+
+  if (response.ok) {
+    await cache.put(request.url, response.clone());
+
+    // Keep the cache bounded, dropping the oldest entries first
+    const keys = await cache.keys();
+    for (const key of keys.slice(0, Math.max(0, keys.length - STORAGE_CACHE_MAX_ENTRIES))) {
+      await cache.delete(key);
+    }
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && PRECACHE_URLS.has(url.pathname)) {
+    event.respondWith(handleShellAsset(request));
+  } else if (
+    url.hostname === 'firebasestorage.googleapis.com' &&
+    isCacheableStorageMedia(request, url)
+  ) {
+    event.respondWith(handleStorageMedia(request));
+  }
+});
+
+/**
+ * Whether the app is open and visible; the in-app notification centre covers it then
+ */
+const isAppVisible = async () => {
+  const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  return windows.some((client) => client.visibilityState === 'visible');
+};
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  // FCM wraps data messages as { data: {...}, from, fcmMessageId }
+  const data = payload.data || payload;
+  if (!data.title) return;
+
+  event.waitUntil(
+    (async () => {
+      if (await isAppVisible()) return;
+
+      await self.registration.showNotification(data.title, {
+        body: data.body || '',
+        icon: data.icon || '/icons/icon-192.png',
+        // Same tag as the page uses, so a notification is never shown twice
+        tag: data.notificationId,
+        data: { url: data.url || '/' },
+      });
+    })()
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+
+      if (existing) {
+        await existing.focus();
+        await existing.navigate(url);
+      } else {
+        await clients.openWindow(url);
+      }
+    })()
+  );
+});
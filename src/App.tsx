@@ -11,8 +11,12 @@ import ChatWelcome from './pages/ChatWelcome';
 import ChatRoom from './pages/ChatRoom';
 import Profile from './pages/Profile';
 import CallHistory from './pages/CallHistory';
+import Search from './pages/Search';
+import Mentions from './pages/Mentions';
 import IncomingCallModal from './components/video/IncomingCallModal';
 import VideoCallModal from './components/video/VideoCallModal';
+import RecordingSavePrompt from './components/video/RecordingSavePrompt';
+import UpdatePrompt from './components/layouts/UpdatePrompt';
 import { useAuth } from './hooks/useAuth';
 
 /**
@@ -20,26 +24,30 @@ import { useAuth } from './hooks/useAuth';
  * route changes (e.g. navigating to /profile during an active call).
  */
 function GlobalCallModals() {
-  const { currentCall } = useCall();
+  const { currentCall, heldCall } = useCall();
   const { currentUser } = useAuth();
 
-  const showVideoCall =
-    !!currentCall &&
-    !!currentUser &&
-    (currentCall.status === 'ringing' || currentCall.status === 'connected');
+  // A held call keeps its modal (and peer connections) mounted, minimised
+  const calls = [currentCall, heldCall].filter(
+    (call): call is NonNullable<typeof call> =>
+      !!call && (call.status === 'ringing' || call.status === 'connected')
+  );
 
   return (
     <>
       <IncomingCallModal />
-      {showVideoCall && currentCall && currentUser && (
-        <VideoCallModal
-          callId={currentCall.id}
-          isInitiator={currentCall.callerId === currentUser.uid}
-          onClose={() => {
-            /* Modal auto-closes via currentCall status change */
-          }}
-        />
-      )}
+      <RecordingSavePrompt />
+      {currentUser &&
+        calls.map((call) => (
+          <VideoCallModal
+            key={call.id}
+            callId={call.id}
+            isInitiator={call.callerId === currentUser.uid}
+            onClose={() => {
+              /* Modal auto-closes via currentCall status change */
+            }}
+          />
+        ))}
     </>
   );
 }
@@ -51,6 +59,7 @@ function App() {
         <AuthProvider>
           <CallProvider>
             <GlobalCallModals />
+            <UpdatePrompt />
             <Routes>
               {/* Public Routes */}
               <Route path="/login" element={<Login />} />
@@ -69,6 +78,8 @@ function App() {
                 <Route path="chat/:roomId" element={<ChatRoom />} />
                 <Route path="dashboard" element={<Dashboard />} />
                 <Route path="calls" element={<CallHistory />} />
+                <Route path="search" element={<Search />} />
+                <Route path="mentions" element={<Mentions />} />
               </Route>
 
               {/* Profile Route (separate from MainLayout for full-page experience) */}
@@ -48,7 +48,8 @@ export function CallLogItem({ log, currentUserId }: CallLogItemProps) {
         statusText = formatDuration(log.duration);
         break;
       case 'missed':
-        statusText = 'Missed call';
+        // Logged once by the call timeouts function for both sides
+        statusText = isOutgoing ? 'No answer' : 'Missed call';
         break;
       case 'no-answer':
         statusText = 'No answer';
@@ -195,9 +195,14 @@ const CreateRoomModal = ({ isOpen, onClose, onCreateRoom }: CreateRoomModalProps
             >
               <option value="public">Public</option>
               <option value="private">Private</option>
+              <option value="voice">Voice</option>
             </select>
             <p className="mt-1 text-xs text-gray-500">
-              {type === 'public' ? 'Anyone can join this room' : 'Only invited members can join'}
+              {type === 'public'
+                ? 'Anyone can join this room'
+                : type === 'voice'
+                  ? 'Anyone can join and drop into the voice channel'
+                  : 'Only invited members can join'}
             </p>
           </div>
 
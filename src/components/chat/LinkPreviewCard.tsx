@@ -0,0 +1,71 @@
+import type { LinkPreview } from '../../types/message';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  onDismiss?: () => void; // Only provided for the message sender
+}
+
+const LinkPreviewCard = ({ preview, onDismiss }: LinkPreviewCardProps) => {
+  const hostname = (() => {
+    try {
+      return new URL(preview.url).hostname;
+    } catch {
+      return preview.url;
+    }
+  })();
+
+  return (
+    <div className="relative mt-2 flex max-w-sm overflow-hidden rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-left">
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex flex-1 min-w-0 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+      >
+        {preview.image && (
+          <img
+            src={preview.image}
+            alt=""
+            className="h-auto w-24 flex-shrink-0 object-cover"
+            loading="lazy"
+          />
+        )}
+        <div className="min-w-0 flex-1 p-3 pr-8">
+          <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+            {preview.siteName || hostname}
+          </p>
+          {preview.title && (
+            <p className="line-clamp-2 text-sm font-semibold text-gray-800 dark:text-gray-100">
+              {preview.title}
+            </p>
+          )}
+          {preview.description && (
+            <p className="mt-0.5 line-clamp-2 text-xs text-gray-600 dark:text-gray-300">
+              {preview.description}
+            </p>
+          )}
+        </div>
+      </a>
+
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="absolute right-1 top-1 rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-600 dark:hover:text-gray-200"
+          title="Remove preview"
+          aria-label="Remove link preview"
+        >
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LinkPreviewCard;
@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import 'highlight.js/styles/github-dark.css';
+import MentionText from './MentionText';
+import { parseMarkdown, highlightCode } from '../../lib/markdown';
+import type { MarkdownBlock, MarkdownInline } from '../../lib/markdown';
+import type { UserDoc } from '../../types/user';
+
+interface MarkdownContentProps {
+  content: string;
+  mentions?: string[];
+  users?: Pick<UserDoc, 'uid' | 'displayName' | 'email'>[];
+  currentUserId: string;
+  isOwnMessage?: boolean;
+}
+
+/**
+ * Message text rendered as Markdown (bold/italic, inline code, fenced code
+ * blocks, lists, blockquotes and links), with @mentions highlighted
+ */
+const MarkdownContent = ({
+  content,
+  mentions,
+  users = [],
+  currentUserId,
+  isOwnMessage = false,
+}: MarkdownContentProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (nodes: MarkdownInline[]) =>
+    nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text':
+          return (
+            <MentionText
+              key={i}
+              content={node.text}
+              mentions={mentions}
+              users={users}
+              currentUserId={currentUserId}
+              isOwnMessage={isOwnMessage}
+            />
+          );
+        case 'bold':
+          return <strong key={i}>{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={i}>{renderInline(node.children)}</em>;
+        case 'code':
+          return (
+            <code
+              key={i}
+              className={`rounded px-1 py-0.5 font-mono text-[0.85em] ${
+                isOwnMessage
+                  ? 'bg-blue-700 text-blue-50'
+                  : 'bg-gray-200 dark:bg-gray-800 text-pink-600 dark:text-pink-400'
+              }`}
+            >
+              {node.text}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={i}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`underline break-all ${
+                isOwnMessage ? 'text-white' : 'text-blue-600 dark:text-blue-400'
+              }`}
+            >
+              {node.href}
+            </a>
+          );
+      }
+    });
+
+  const renderBlocks = (nodes: MarkdownBlock[]) =>
+    nodes.map((block, i) => {
+      switch (block.type) {
+        case 'paragraph':
+          return (
+            <p key={i} className="whitespace-pre-wrap break-words">
+              {renderInline(block.children)}
+            </p>
+          );
+        case 'codeBlock':
+          return (
+            <pre key={i} className="overflow-x-auto rounded-md bg-gray-900 p-3 text-xs leading-5">
+              {/* highlight.js escapes the code, so its output is safe to inject */}
+              <code
+                className="hljs bg-transparent p-0 font-mono"
+                dangerouslySetInnerHTML={{ __html: highlightCode(block.code, block.language) }}
+              />
+            </pre>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag
+              key={i}
+              className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+            >
+              {block.items.map((item, j) => (
+                <li key={j} className="break-words">
+                  {renderInline(item)}
+                </li>
+              ))}
+            </ListTag>
+          );
+        }
+        case 'blockquote':
+          return (
+            <blockquote
+              key={i}
+              className={`border-l-4 pl-3 space-y-2 ${
+                isOwnMessage
+                  ? 'border-blue-300 text-blue-50'
+                  : 'border-gray-300 dark:border-gray-500 text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              {renderBlocks(block.children)}
+            </blockquote>
+          );
+      }
+    });
+
+  return <div className="text-sm space-y-2">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
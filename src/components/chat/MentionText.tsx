@@ -0,0 +1,58 @@
+import { createMentionPattern } from '../../lib/messageService';
+import type { UserDoc } from '../../types/user';
+
+interface MentionTextProps {
+  content: string;
+  mentions?: string[];
+  users: Pick<UserDoc, 'uid' | 'displayName' | 'email'>[];
+  currentUserId: string;
+  isOwnMessage?: boolean;
+}
+
+/**
+ * Message text with `@displayName` mentions highlighted
+ */
+const MentionText = ({
+  content,
+  mentions = [],
+  users,
+  currentUserId,
+  isOwnMessage = false,
+}: MentionTextProps) => {
+  const mentionedUsers = users.filter((user) => mentions.includes(user.uid) && user.displayName);
+  if (mentionedUsers.length === 0) {
+    return <>{content}</>;
+  }
+
+  // Splitting on the pattern puts each matched name (its capture group) at odd indexes
+  const pattern = createMentionPattern(mentionedUsers.map((user) => user.displayName));
+
+  return (
+    <>
+      {content.split(pattern).map((part, i) => {
+        if (i % 2 === 0) return part;
+
+        const user = mentionedUsers.find((u) => u.displayName.toLowerCase() === part.toLowerCase());
+        const isMe = user?.uid === currentUserId;
+
+        return (
+          <span
+            key={i}
+            className={`rounded px-0.5 font-semibold ${
+              isOwnMessage
+                ? 'bg-blue-500 text-white'
+                : isMe
+                  ? 'bg-yellow-200 dark:bg-yellow-700/60 text-gray-900 dark:text-white'
+                  : 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+            }`}
+            title={user?.email}
+          >
+            @{part}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+export default MentionText;
@@ -1,6 +1,10 @@
 import { formatDistanceToNow } from 'date-fns';
 import { useState } from 'react';
+import { AlertCircle, Check, Clock } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+import LinkPreviewCard from './LinkPreviewCard';
 import type { Message as MessageType } from '../../types/message';
+import type { UserDoc } from '../../types/user';
 
 interface MessageProps {
   message: MessageType;
@@ -11,7 +15,18 @@ interface MessageProps {
   onEdit?: (messageId: string) => void;
   onDelete?: (messageId: string) => void;
   onReply?: (messageId: string) => void;
+  onOpenThread?: (messageId: string) => void;
+  onDismissLinkPreview?: (messageId: string) => void;
+  onShowHistory?: (messageId: string) => void;
+  canViewDeleted?: boolean; // Room moderators can open the content of deleted messages
+  canDeleteAny?: boolean; // Room moderators can delete other members' messages
+  isPinned?: boolean;
+  onTogglePin?: (messageId: string) => void; // Only provided when the user may pin in this room
   replyToMessage?: MessageType | null;
+  isHighlighted?: boolean;
+  members?: UserDoc[];
+  onRetry?: (messageId: string) => void; // Send a failed message again
+  onDiscard?: (messageId: string) => void;
 }
 
 const Message = ({
@@ -22,11 +37,26 @@ const Message = ({
   onEdit,
   onDelete,
   onReply,
+  onOpenThread,
+  onDismissLinkPreview,
+  onShowHistory,
+  canViewDeleted = false,
+  canDeleteAny = false,
+  isPinned = false,
+  onTogglePin,
   replyToMessage,
+  isHighlighted = false,
+  members = [],
+  onRetry,
+  onDiscard,
 }: MessageProps) => {
   const [showReactionPicker, setShowReactionPicker] = useState(false);
   const [showContextMenu, setShowContextMenu] = useState(false);
   const formattedTime = formatDistanceToNow(message.createdAt, { addSuffix: true });
+  const isMentioned = !isOwnMessage && !!message.mentions?.includes(currentUserId);
+  // Unsent messages can't be reacted to, edited or replied to yet
+  const isUnsent = !!message.deliveryStatus;
+  const canModerate = canDeleteAny && !isOwnMessage;
 
   const commonEmojis = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
 
@@ -70,7 +100,10 @@ const Message = ({
   }
 
   return (
-    <div className={`flex gap-3 group ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'}`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex gap-3 group rounded-lg transition-colors duration-700 ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'} ${isHighlighted ? 'bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-400' : ''}`}
+    >
       {/* Avatar */}
       {!isOwnMessage && (
         <div className="h-8 w-8 flex-shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white text-sm font-semibold">
@@ -97,6 +130,20 @@ const Message = ({
           </div>
         )}
 
+        {isPinned && (
+          <div className="mb-1 flex items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-400">
+            <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 17v5M9 10.76a2 2 0 01-1.11 1.79l-1.78.9A2 2 0 005 15.24V16a1 1 0 001 1h12a1 1 0 001-1v-.76a2 2 0 00-1.11-1.79l-1.78-.9A2 2 0 0115 10.76V7a1 1 0 011-1 2 2 0 000-4H8a2 2 0 000 4 1 1 0 011 1z"
+              />
+            </svg>
+            Pinned
+          </div>
+        )}
+
         <div className="relative">
           {/* Replied message preview */}
           {message.replyTo && replyToMessage && (
@@ -113,10 +160,18 @@ const Message = ({
           <div
             className={`rounded-lg px-4 py-2 ${
               isOwnMessage
-                ? 'bg-blue-600 text-white'
+                ? `bg-blue-600 text-white ${
+                    message.deliveryStatus === 'sending'
+                      ? 'opacity-70'
+                      : message.deliveryStatus === 'failed'
+                        ? 'opacity-70 ring-2 ring-red-500'
+                        : ''
+                  }`
                 : message.isDeleted
                   ? 'bg-gray-100 dark:bg-gray-700 text-gray-400 dark:text-gray-500 italic'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
+                  : isMentioned
+                    ? 'bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-400 text-gray-800 dark:text-gray-100'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
             }`}
           >
             {message.type === 'image' ? (
@@ -129,35 +184,89 @@ const Message = ({
                 />
               </div>
             ) : (
-              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              <MarkdownContent
+                content={message.content}
+                mentions={message.mentions}
+                users={members}
+                currentUserId={currentUserId}
+                isOwnMessage={isOwnMessage}
+              />
             )}
-            {message.isEdited && !message.isDeleted && (
-              <span className="text-xs opacity-70 ml-2">(edited)</span>
+            {message.isEdited &&
+              !message.isDeleted &&
+              (onShowHistory ? (
+                <button
+                  onClick={() => onShowHistory(message.id)}
+                  className="text-xs opacity-70 hover:opacity-100 hover:underline"
+                  title="View edit history"
+                >
+                  (edited)
+                </button>
+              ) : (
+                <span className="text-xs opacity-70 ml-2">(edited)</span>
+              ))}
+            {message.isDeleted && canViewDeleted && onShowHistory && (
+              <button
+                onClick={() => onShowHistory(message.id)}
+                className="text-xs not-italic text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                View deleted content
+              </button>
             )}
           </div>
 
+          {/* Link preview (the sender can remove it) */}
+          {message.linkPreview && !message.isDeleted && (
+            <LinkPreviewCard
+              preview={message.linkPreview}
+              onDismiss={
+                isOwnMessage && onDismissLinkPreview
+                  ? () => onDismissLinkPreview(message.id)
+                  : undefined
+              }
+            />
+          )}
+
           {/* Action buttons on hover */}
-          {!message.isDeleted && (
+          {!message.isDeleted && !isUnsent && (
             <div
               className={`absolute top-0 ${isOwnMessage ? 'left-0 -translate-x-full' : 'right-0 translate-x-full'} flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}
             >
               {/* Reply button (for all messages) */}
-              <button
-                onClick={() => {
-                  if (onReply) onReply(message.id);
-                }}
-                className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300"
-                title="Reply"
-              >
-                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
-                  />
-                </svg>
-              </button>
+              {onReply && (
+                <button
+                  onClick={() => onReply(message.id)}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300"
+                  title="Reply"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                    />
+                  </svg>
+                </button>
+              )}
+
+              {/* Reply in thread button */}
+              {onOpenThread && (
+                <button
+                  onClick={() => onOpenThread(message.id)}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300"
+                  title="Reply in thread"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                    />
+                  </svg>
+                </button>
+              )}
 
               {/* Reaction button */}
               <button
@@ -175,8 +284,8 @@ const Message = ({
                 </svg>
               </button>
 
-              {/* Context menu button (for own messages) */}
-              {isOwnMessage && (
+              {/* Context menu button (own messages, pinning or moderation) */}
+              {(isOwnMessage || onTogglePin || canModerate) && (
                 <button
                   onClick={() => setShowContextMenu(!showContextMenu)}
                   className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300"
@@ -208,59 +317,105 @@ const Message = ({
           )}
 
           {/* Context menu */}
-          {showContextMenu && isOwnMessage && (
-            <div className="absolute top-full mt-1 right-0 bg-white dark:bg-gray-800 border dark:border-gray-600 rounded-lg shadow-lg py-1 z-10 min-w-[120px]">
-              <button
-                onClick={() => {
-                  if (onReply) onReply(message.id);
-                  setShowContextMenu(false);
-                }}
-                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
-              >
-                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
-                  />
-                </svg>
-                Reply
-              </button>
-              <button
-                onClick={() => {
-                  if (onEdit) onEdit(message.id);
-                  setShowContextMenu(false);
-                }}
-                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
-              >
-                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                  />
-                </svg>
-                Edit
-              </button>
-              <button
-                onClick={() => {
-                  if (onDelete) onDelete(message.id);
-                  setShowContextMenu(false);
-                }}
-                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400 flex items-center gap-2"
-              >
-                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                  />
-                </svg>
-                Delete
-              </button>
+          {showContextMenu && (isOwnMessage || onTogglePin || canModerate) && (
+            <div
+              className={`absolute top-full mt-1 ${isOwnMessage ? 'right-0' : 'left-0'} bg-white dark:bg-gray-800 border dark:border-gray-600 rounded-lg shadow-lg py-1 z-10 min-w-[120px]`}
+            >
+              {onReply && (
+                <button
+                  onClick={() => {
+                    onReply(message.id);
+                    setShowContextMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                    />
+                  </svg>
+                  Reply
+                </button>
+              )}
+              {onTogglePin && (
+                <button
+                  onClick={() => {
+                    onTogglePin(message.id);
+                    setShowContextMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 17v5M9 10.76a2 2 0 01-1.11 1.79l-1.78.9A2 2 0 005 15.24V16a1 1 0 001 1h12a1 1 0 001-1v-.76a2 2 0 00-1.11-1.79l-1.78-.9A2 2 0 0115 10.76V7a1 1 0 011-1 2 2 0 000-4H8a2 2 0 000 4 1 1 0 011 1z"
+                    />
+                  </svg>
+                  {isPinned ? 'Unpin' : 'Pin'}
+                </button>
+              )}
+              {isOwnMessage && (
+                <>
+                  <button
+                    onClick={() => {
+                      if (onEdit) onEdit(message.id);
+                      setShowContextMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
+                  >
+                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                      />
+                    </svg>
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (onDelete) onDelete(message.id);
+                      setShowContextMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400 flex items-center gap-2"
+                  >
+                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      />
+                    </svg>
+                    Delete
+                  </button>
+                </>
+              )}
+              {canModerate && onDelete && (
+                <button
+                  onClick={() => {
+                    onDelete(message.id);
+                    setShowContextMenu(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400 flex items-center gap-2"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                  Delete
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -286,9 +441,61 @@ const Message = ({
           </div>
         )}
 
-        {isOwnMessage && (
-          <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{formattedTime}</span>
+        {/* Thread summary */}
+        {onOpenThread && !!message.threadReplyCount && (
+          <button
+            onClick={() => onOpenThread(message.id)}
+            className="mt-1 flex flex-col items-start rounded-md px-2 py-1 text-left text-xs hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <span className="font-semibold text-blue-600 dark:text-blue-400">
+              {message.threadReplyCount} {message.threadReplyCount === 1 ? 'reply' : 'replies'}
+              {message.lastThreadReplyAt && (
+                <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                  • Last reply {formatDistanceToNow(message.lastThreadReplyAt, { addSuffix: true })}
+                </span>
+              )}
+            </span>
+            {message.lastThreadReply && (
+              <span className="max-w-xs truncate text-gray-600 dark:text-gray-300">
+                <span className="font-medium">{message.lastThreadReply.senderName}:</span>{' '}
+                {message.lastThreadReply.type === 'image'
+                  ? '📷 Image'
+                  : message.lastThreadReply.content}
+              </span>
+            )}
+          </button>
         )}
+
+        {isOwnMessage &&
+          (message.deliveryStatus === 'failed' ? (
+            <div className="mt-1 flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3.5 w-3.5" />
+              <span>Not sent</span>
+              {onRetry && (
+                <button onClick={() => onRetry(message.id)} className="font-medium hover:underline">
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  onClick={() => onDiscard(message.id)}
+                  className="font-medium hover:underline"
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          ) : message.deliveryStatus === 'sending' ? (
+            <span className="mt-1 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              <Clock className="h-3 w-3" />
+              Sending...
+            </span>
+          ) : (
+            <span className="mt-1 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              {formattedTime}
+              <Check className="h-3 w-3" aria-label="Sent" />
+            </span>
+          ))}
       </div>
     </div>
   );
@@ -0,0 +1,112 @@
+import { format } from 'date-fns';
+import { useMessageHistory } from '../../hooks/useMessageHistory';
+import { diffWords } from '../../lib/diff';
+import type { Message } from '../../types/message';
+
+interface MessageHistoryModalProps {
+  roomId: string;
+  message: Message;
+  canViewDeleted?: boolean; // Room moderators can see deleted content
+  onClose: () => void;
+}
+
+const MessageHistoryModal = ({
+  roomId,
+  message,
+  canViewDeleted = false,
+  onClose,
+}: MessageHistoryModalProps) => {
+  const { revisions, loading, error } = useMessageHistory(
+    roomId,
+    message.id,
+    canViewDeleted,
+    message.threadId
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-800 bg-opacity-30 backdrop-blur-sm">
+      <div className="w-full max-w-lg rounded-lg bg-white dark:bg-gray-800 shadow-xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b dark:border-gray-700 p-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+              {message.isDeleted ? 'Deleted message' : 'Edit history'}
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Sent by {message.senderName} on {format(message.createdAt, 'PPp')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Revisions */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No history recorded.</p>
+          ) : (
+            revisions.map((revision, index) => {
+              // Each revision holds the content as it was before the change
+              const nextContent = revisions[index + 1]?.content ?? message.content;
+
+              return (
+                <div key={revision.id}>
+                  <p className="mb-1 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-semibold text-gray-700 dark:text-gray-200">
+                      {revision.editedByName}
+                    </span>{' '}
+                    {revision.action === 'delete' ? 'deleted' : 'edited'} this message on{' '}
+                    {format(revision.editedAt, 'PPp')}
+                  </p>
+                  <div className="rounded-lg bg-gray-50 dark:bg-gray-700 p-3 text-sm text-gray-800 dark:text-gray-100 whitespace-pre-wrap break-words">
+                    {revision.action === 'delete'
+                      ? revision.content
+                      : diffWords(revision.content, nextContent).map((part, i) =>
+                          part.type === 'added' ? (
+                            <ins
+                              key={i}
+                              className="bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 no-underline"
+                            >
+                              {part.text}
+                            </ins>
+                          ) : part.type === 'removed' ? (
+                            <del
+                              key={i}
+                              className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300"
+                            >
+                              {part.text}
+                            </del>
+                          ) : (
+                            <span key={i}>{part.text}</span>
+                          )
+                        )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageHistoryModal;
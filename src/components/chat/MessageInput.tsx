@@ -1,17 +1,55 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import type { KeyboardEvent } from 'react';
+import {
+  Bold,
+  Italic,
+  Code,
+  SquareCode,
+  List,
+  ListOrdered,
+  Quote,
+  Eye,
+  EyeOff,
+  Clock,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { addHours, format } from 'date-fns';
+import MarkdownContent from './MarkdownContent';
 import type { Message } from '../../types/message';
+import type { UserDoc } from '../../types/user';
 import type { UploadProgress } from '../../lib/uploadService';
+import { getMentionedUserIds } from '../../lib/messageService';
 
 interface MessageInputProps {
-  onSendMessage: (content: string) => Promise<boolean>;
+  onSendMessage: (content: string, mentions?: string[]) => Promise<boolean>;
   onSendFile?: (file: File, onProgress: (progress: UploadProgress) => void) => Promise<boolean>;
   disabled?: boolean;
   onTyping?: (isTyping: boolean) => void;
   replyingTo?: Message | null;
   onCancelReply?: () => void;
+  mentionCandidates?: UserDoc[]; // Users that can be @mentioned (the room's members)
+  onScheduleMessage?: (content: string, sendAt: Date, mentions?: string[]) => Promise<boolean>;
 }
 
+type FormattingAction = 'bold' | 'italic' | 'code' | 'codeBlock' | 'bullets' | 'numbers' | 'quote';
+
+// Markdown formatting toolbar buttons
+const FORMATTING_ACTIONS: { action: FormattingAction; label: string; Icon: LucideIcon }[] = [
+  { action: 'bold', label: 'Bold', Icon: Bold },
+  { action: 'italic', label: 'Italic', Icon: Italic },
+  { action: 'code', label: 'Inline code', Icon: Code },
+  { action: 'codeBlock', label: 'Code block', Icon: SquareCode },
+  { action: 'bullets', label: 'Bulleted list', Icon: List },
+  { action: 'numbers', label: 'Numbered list', Icon: ListOrdered },
+  { action: 'quote', label: 'Quote', Icon: Quote },
+];
+
+// Value format of <input type="datetime-local">
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// Maximum number of suggestions shown in the @mention dropdown
+const MAX_MENTION_SUGGESTIONS = 6;
+
 // Common emojis for the picker
 const EMOJI_LIST = [
   '😀',
@@ -103,6 +141,8 @@ const MessageInput = ({
   onTyping,
   replyingTo,
   onCancelReply,
+  mentionCandidates = [],
+  onScheduleMessage,
 }: MessageInputProps) => {
   const [message, setMessage] = useState('');
   const [sending, setSending] = useState(false);
@@ -110,10 +150,17 @@ const MessageInput = ({
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  // Active "@query" being typed: where the "@" is and the text after it
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; text: string } | null>(null);
+  const [activeMentionIndex, setActiveMentionIndex] = useState(0);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showSchedulePicker, setShowSchedulePicker] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<number | null>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
+  const schedulePickerRef = useRef<HTMLDivElement>(null);
 
   // Clear typing timeout on unmount
   useEffect(() => {
@@ -142,6 +189,20 @@ const MessageInput = ({
     }
   }, [showEmojiPicker]);
 
+  // Close schedule picker when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (schedulePickerRef.current && !schedulePickerRef.current.contains(event.target as Node)) {
+        setShowSchedulePicker(false);
+      }
+    };
+
+    if (showSchedulePicker) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showSchedulePicker]);
+
   const handleTyping = useCallback(() => {
     if (!onTyping) return;
 
@@ -159,6 +220,43 @@ const MessageInput = ({
     }, 2000);
   }, [onTyping]);
 
+  const mentionSuggestions = mentionQuery
+    ? mentionCandidates
+        .filter((user) => user.displayName?.toLowerCase().includes(mentionQuery.text.toLowerCase()))
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  // Detect an "@query" right before the caret
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(value.substring(0, caret));
+    if (match && mentionCandidates.length > 0) {
+      setMentionQuery({ start: caret - match[2].length - 1, text: match[2] });
+      setActiveMentionIndex(0);
+    } else {
+      setMentionQuery(null);
+    }
+  };
+
+  const handleSelectMention = (user: UserDoc) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) return;
+
+    const caret = textarea.selectionStart;
+    const insertion = `@${user.displayName} `;
+    const newMessage =
+      message.substring(0, mentionQuery.start) + insertion + message.substring(caret);
+
+    setMessage(newMessage);
+    setMentionQuery(null);
+
+    // Set cursor position after the mention
+    setTimeout(() => {
+      textarea.focus();
+      const newCursorPos = mentionQuery.start + insertion.length;
+      textarea.setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  };
+
   const handleSend = async () => {
     const trimmedMessage = message.trim();
     if (!trimmedMessage || sending || disabled) return;
@@ -172,10 +270,12 @@ const MessageInput = ({
     }
 
     setSending(true);
-    const success = await onSendMessage(trimmedMessage);
+    const mentions = getMentionedUserIds(trimmedMessage, mentionCandidates);
+    const success = await onSendMessage(trimmedMessage, mentions);
 
     if (success) {
       setMessage('');
+      setMentionQuery(null);
       // Reset textarea height
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
@@ -184,10 +284,66 @@ const MessageInput = ({
     setSending(false);
   };
 
+  const handleToggleSchedulePicker = () => {
+    if (!showSchedulePicker) {
+      // Default to an hour from now
+      setScheduledFor(format(addHours(new Date(), 1), DATETIME_LOCAL_FORMAT));
+    }
+    setShowSchedulePicker(!showSchedulePicker);
+  };
+
+  const handleSchedule = async () => {
+    const trimmedMessage = message.trim();
+    if (!trimmedMessage || !scheduledFor || !onScheduleMessage || sending || disabled) return;
+
+    if (onTyping) {
+      onTyping(false);
+    }
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+
+    setSending(true);
+    const mentions = getMentionedUserIds(trimmedMessage, mentionCandidates);
+    const success = await onScheduleMessage(trimmedMessage, new Date(scheduledFor), mentions);
+
+    if (success) {
+      setMessage('');
+      setMentionQuery(null);
+      setShowSchedulePicker(false);
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto';
+      }
+    }
+    setSending(false);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     // Trigger typing indicator
     handleTyping();
 
+    // Navigate the @mention suggestions
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveMentionIndex(
+          (index) => (index + step + mentionSuggestions.length) % mentionSuggestions.length
+        );
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handleSelectMention(mentionSuggestions[activeMentionIndex] || mentionSuggestions[0]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     // Send message on Enter (without Shift)
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -197,6 +353,7 @@ const MessageInput = ({
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
 
     // Auto-resize textarea
     if (textareaRef.current) {
@@ -248,6 +405,71 @@ const MessageInput = ({
     setSending(false);
   };
 
+  // Replace the selected text, then re-select the given range
+  const replaceSelection = (
+    build: (selected: string) => string,
+    selectRange: (start: number, inserted: string) => [number, number]
+  ) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    const inserted = build(message.substring(start, end));
+    setMessage(message.substring(0, start) + inserted + message.substring(end));
+
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(...selectRange(start, inserted));
+    }, 0);
+  };
+
+  // Wrap the selection in Markdown markers (e.g. ** for bold)
+  const handleWrapSelection = (marker: string, placeholder: string) => {
+    replaceSelection(
+      (selected) => `${marker}${selected || placeholder}${marker}`,
+      (start, inserted) => [start + marker.length, start + inserted.length - marker.length]
+    );
+  };
+
+  // Prefix every selected line (lists and quotes)
+  const handlePrefixLines = (prefix: (index: number) => string, placeholder: string) => {
+    replaceSelection(
+      (selected) =>
+        (selected || placeholder)
+          .split('\n')
+          .map((line, index) => `${prefix(index)}${line}`)
+          .join('\n'),
+      (start, inserted) => [start + inserted.length, start + inserted.length]
+    );
+  };
+
+  const handleCodeBlock = () => {
+    replaceSelection(
+      (selected) => `\n\`\`\`\n${selected || 'code'}\n\`\`\`\n`,
+      (start, inserted) => [start + 5, start + inserted.length - 5]
+    );
+  };
+
+  const handleFormat = (action: FormattingAction) => {
+    switch (action) {
+      case 'bold':
+        return handleWrapSelection('**', 'bold text');
+      case 'italic':
+        return handleWrapSelection('_', 'italic text');
+      case 'code':
+        return handleWrapSelection('`', 'code');
+      case 'codeBlock':
+        return handleCodeBlock();
+      case 'bullets':
+        return handlePrefixLines(() => '- ', '');
+      case 'numbers':
+        return handlePrefixLines((index) => `${index + 1}. `, '');
+      case 'quote':
+        return handlePrefixLines(() => '> ', '');
+    }
+  };
+
   const handleEmojiClick = (emoji: string) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -370,6 +592,53 @@ const MessageInput = ({
         </div>
       )}
 
+      {/* Formatting Toolbar */}
+      <div className="mb-2 flex items-center gap-1">
+        {FORMATTING_ACTIONS.map(({ action, label, Icon }) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => handleFormat(action)}
+            disabled={disabled || sending || showPreview || !!selectedFile}
+            className="rounded p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            title={label}
+            aria-label={label}
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          disabled={disabled || !!selectedFile}
+          className={`ml-auto flex items-center gap-1 rounded px-2 py-1 text-xs font-medium disabled:opacity-50 ${
+            showPreview
+              ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+              : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+          aria-pressed={showPreview}
+        >
+          {showPreview ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          Preview
+        </button>
+      </div>
+
+      {/* Markdown Preview */}
+      {showPreview && (
+        <div className="mb-3 max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 p-3 text-gray-800 dark:text-gray-100">
+          {message.trim() ? (
+            <MarkdownContent
+              content={message}
+              mentions={getMentionedUserIds(message, mentionCandidates)}
+              users={mentionCandidates}
+              currentUserId=""
+            />
+          ) : (
+            <p className="text-sm text-gray-400 dark:text-gray-500">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
       <div className="flex items-end gap-2">
         {/* File Attachment Button */}
         <input
@@ -439,17 +708,99 @@ const MessageInput = ({
         </div>
 
         {/* Message Input */}
-        <textarea
-          ref={textareaRef}
-          value={message}
-          onChange={handleChange}
-          onKeyDown={handleKeyDown}
-          disabled={disabled || sending}
-          placeholder="Type a message... (Enter to send, Shift+Enter for new line)"
-          rows={1}
-          className="flex-1 resize-none rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 px-4 py-3 focus:border-blue-500 dark:focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:focus:ring-blue-500 disabled:bg-gray-100 dark:disabled:bg-gray-800 disabled:cursor-not-allowed"
-          style={{ maxHeight: '150px' }}
-        />
+        <div className="relative flex-1 flex">
+          {/* @mention suggestions */}
+          {mentionSuggestions.length > 0 && (
+            <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg py-1 z-10">
+              {mentionSuggestions.map((user, index) => (
+                <li key={user.uid}>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => {
+                      // Keep focus (and the caret) in the textarea
+                      e.preventDefault();
+                      handleSelectMention(user);
+                    }}
+                    className={`flex w-full items-center gap-2 px-3 py-2 text-left text-sm ${
+                      index === activeMentionIndex
+                        ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="h-6 w-6 flex-shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white text-xs font-semibold">
+                      {user.photoURL ? (
+                        <img
+                          src={user.photoURL}
+                          alt={user.displayName}
+                          className="h-6 w-6 rounded-full object-cover"
+                        />
+                      ) : (
+                        user.displayName[0]?.toUpperCase()
+                      )}
+                    </div>
+                    <span className="truncate">{user.displayName}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={message}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setMentionQuery(null)}
+            disabled={disabled || sending}
+            placeholder="Type a message... (Enter to send, Shift+Enter for new line)"
+            rows={1}
+            className="flex-1 resize-none rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 px-4 py-3 focus:border-blue-500 dark:focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:focus:ring-blue-500 disabled:bg-gray-100 dark:disabled:bg-gray-800 disabled:cursor-not-allowed"
+            style={{ maxHeight: '150px' }}
+          />
+        </div>
+
+        {/* Schedule Send */}
+        {onScheduleMessage && (
+          <div className="relative flex-shrink-0" ref={schedulePickerRef}>
+            <button
+              type="button"
+              onClick={handleToggleSchedulePicker}
+              disabled={!message.trim() || disabled || sending || !!selectedFile}
+              className="rounded-lg p-3 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              title="Schedule send"
+              aria-label="Schedule send"
+              aria-expanded={showSchedulePicker}
+            >
+              <Clock className="h-5 w-5" />
+            </button>
+
+            {showSchedulePicker && (
+              <div className="absolute bottom-full right-0 mb-2 w-72 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg p-3 z-10">
+                <label
+                  htmlFor="schedule-send-at"
+                  className="block text-xs font-medium text-gray-700 dark:text-gray-200 mb-2"
+                >
+                  Send this message at
+                </label>
+                <input
+                  id="schedule-send-at"
+                  type="datetime-local"
+                  value={scheduledFor}
+                  min={format(new Date(), DATETIME_LOCAL_FORMAT)}
+                  onChange={(e) => setScheduledFor(e.target.value)}
+                  className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={handleSchedule}
+                  disabled={!scheduledFor || sending}
+                  className="mt-3 w-full rounded-lg bg-blue-600 px-4 py-2 text-white text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Schedule
+                </button>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Send Button */}
         <button
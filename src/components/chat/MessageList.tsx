@@ -1,10 +1,11 @@
-import { useEffect, useRef, useMemo } from 'react';
+import { Fragment, useLayoutEffect, useRef, useMemo } from 'react';
 import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '../../hooks/useAuth';
 import Message from './Message';
 import { CallLogItem } from './CallLogItem';
 import type { Message as MessageType } from '../../types/message';
 import type { CallLog } from '../../types/call';
+import type { UserDoc } from '../../types/user';
 
 type TimelineItem = { type: 'message'; data: MessageType } | { type: 'callLog'; data: CallLog };
 
@@ -12,23 +13,59 @@ interface MessageListProps {
   messages: MessageType[];
   callLogs?: CallLog[];
   loading: boolean;
+  loadingOlder?: boolean;
+  hasMore?: boolean;
+  onLoadOlder?: () => Promise<boolean>;
   onReaction?: (messageId: string, emoji: string) => void;
   onEdit?: (messageId: string) => void;
   onDelete?: (messageId: string) => void;
   onReply?: (messageId: string) => void;
+  onOpenThread?: (messageId: string) => void;
+  onDismissLinkPreview?: (messageId: string) => void;
+  onShowHistory?: (messageId: string) => void;
+  canViewDeleted?: boolean;
+  canDeleteAny?: boolean; // Room moderators can delete other members' messages
+  pinnedMessageIds?: string[];
+  onTogglePin?: (messageId: string) => void;
+  lastReadAt?: Date | null; // Where the "new messages" divider goes
+  seenBy?: UserDoc[]; // Members who have read the latest message
+  highlightMessageId?: string | null; // Message to scroll to and highlight (e.g. a search hit)
+  members?: UserDoc[]; // Room members, for rendering @mentions
+  onRetryMessage?: (messageId: string) => void; // Failed outbox messages
+  onDiscardMessage?: (messageId: string) => void;
 }
 
 const MessageList = ({
   messages,
   callLogs = [],
   loading,
+  loadingOlder = false,
+  hasMore = false,
+  onLoadOlder,
   onReaction,
   onEdit,
   onDelete,
   onReply,
+  onOpenThread,
+  onDismissLinkPreview,
+  onShowHistory,
+  canViewDeleted = false,
+  canDeleteAny = false,
+  pinnedMessageIds = [],
+  onTogglePin,
+  lastReadAt,
+  seenBy = [],
+  highlightMessageId,
+  members = [],
+  onRetryMessage,
+  onDiscardMessage,
 }: MessageListProps) => {
   const { currentUser } = useAuth();
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const lastItemKeyRef = useRef<string | null>(null);
+  // Scroll metrics captured before an older page is prepended
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
 
   // Merge and sort messages and call logs by timestamp
   const timeline = useMemo(() => {
@@ -46,10 +83,65 @@ const MessageList = ({
     });
   }, [messages, callLogs]);
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [timeline]);
+  // First message from someone else that arrived after the user last read the room
+  const firstUnreadId = useMemo(() => {
+    if (!lastReadAt) return null;
+    const firstUnread = messages.find(
+      (m) => m.createdAt > lastReadAt && m.senderId !== currentUser?.uid
+    );
+    return firstUnread?.id || null;
+  }, [messages, lastReadAt, currentUser?.uid]);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+
+    // Older page was prepended: keep the same messages in view
+    if (scrollRestoreRef.current && container) {
+      const { height, top } = scrollRestoreRef.current;
+      container.scrollTop = container.scrollHeight - height + top;
+      scrollRestoreRef.current = null;
+      return;
+    }
+
+    // Auto-scroll to bottom only when new messages arrive at the tail
+    // (unless we are jumping to a highlighted message)
+    const lastItem = timeline[timeline.length - 1];
+    const lastItemKey = lastItem ? `${lastItem.type}-${lastItem.data.id}` : null;
+    if (lastItemKey !== lastItemKeyRef.current) {
+      lastItemKeyRef.current = lastItemKey;
+      if (!highlightMessageId) {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }
+    }
+  }, [timeline, highlightMessageId]);
+
+  // Jump to the highlighted message once it is loaded
+  const isHighlightLoaded =
+    !!highlightMessageId && messages.some((m) => m.id === highlightMessageId);
+  useLayoutEffect(() => {
+    if (!isHighlightLoaded || !highlightMessageId) return;
+    containerRef.current
+      ?.querySelector(`#message-${CSS.escape(highlightMessageId)}`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [isHighlightLoaded, highlightMessageId]);
+
+  // Load the previous page when the user scrolls near the top
+  const handleScroll = async () => {
+    const container = containerRef.current;
+    if (!container || !onLoadOlder || !hasMore || loadingOlder || scrollRestoreRef.current) {
+      return;
+    }
+
+    if (container.scrollTop < 100) {
+      scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      const loaded = await onLoadOlder();
+      if (!loaded) {
+        scrollRestoreRef.current = null;
+      }
+    }
+  };
 
   if (loading) {
     return (
@@ -86,8 +178,22 @@ const MessageList = ({
   }
 
   return (
-    <div className="flex-1 overflow-y-auto p-6 bg-white dark:bg-gray-800 transition-colors">
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="flex-1 overflow-y-auto p-6 bg-white dark:bg-gray-800 transition-colors"
+    >
       <div className="flex flex-col space-y-4">
+        {loadingOlder && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+        {!hasMore && messages.length > 0 && (
+          <p className="text-center text-xs text-gray-400 dark:text-gray-500">
+            This is the beginning of the conversation
+          </p>
+        )}
         {timeline.map((item) => {
           if (item.type === 'message') {
             const message = item.data;
@@ -97,18 +203,61 @@ const MessageList = ({
               : undefined;
 
             return (
-              <Message
-                key={`msg-${message.id}`}
-                message={message}
-                isOwnMessage={message.senderId === currentUser?.uid}
-                currentUserId={currentUser?.uid || ''}
-                currentUserName={currentUser?.displayName || currentUser?.email || 'Unknown'}
-                onReaction={onReaction}
-                onEdit={onEdit}
-                onDelete={onDelete}
-                onReply={onReply}
-                replyToMessage={replyToMessage}
-              />
+              <Fragment key={`msg-${message.id}`}>
+                {message.id === firstUnreadId && (
+                  <div className="flex items-center gap-3">
+                    <div className="h-px flex-1 bg-red-300 dark:bg-red-700" />
+                    <span className="text-xs font-semibold uppercase text-red-500 dark:text-red-400">
+                      New messages
+                    </span>
+                    <div className="h-px flex-1 bg-red-300 dark:bg-red-700" />
+                  </div>
+                )}
+                <Message
+                  message={message}
+                  isOwnMessage={message.senderId === currentUser?.uid}
+                  currentUserId={currentUser?.uid || ''}
+                  currentUserName={currentUser?.displayName || currentUser?.email || 'Unknown'}
+                  onReaction={onReaction}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onReply={onReply}
+                  onOpenThread={onOpenThread}
+                  onDismissLinkPreview={onDismissLinkPreview}
+                  onShowHistory={onShowHistory}
+                  canViewDeleted={canViewDeleted}
+                  canDeleteAny={canDeleteAny}
+                  isPinned={pinnedMessageIds.includes(message.id)}
+                  onTogglePin={onTogglePin}
+                  replyToMessage={replyToMessage}
+                  isHighlighted={message.id === highlightMessageId}
+                  members={members}
+                  onRetry={onRetryMessage}
+                  onDiscard={onDiscardMessage}
+                />
+                {message.id === lastMessageId && seenBy.length > 0 && (
+                  <div className="flex items-center justify-end gap-1 -mt-2">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Seen by</span>
+                    {seenBy.map((user) => (
+                      <div
+                        key={user.uid}
+                        className="h-4 w-4 rounded-full bg-blue-500 flex items-center justify-center text-white text-[10px] font-semibold"
+                        title={user.displayName}
+                      >
+                        {user.photoURL ? (
+                          <img
+                            src={user.photoURL}
+                            alt={user.displayName}
+                            className="h-4 w-4 rounded-full object-cover"
+                          />
+                        ) : (
+                          user.displayName[0]?.toUpperCase()
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Fragment>
             );
           } else {
             // Render call log
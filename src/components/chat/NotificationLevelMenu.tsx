@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { AtSign, Bell, BellOff } from 'lucide-react';
+import type { NotificationLevel } from '../../types/notification';
+
+interface NotificationLevelMenuProps {
+  level: NotificationLevel;
+  onChange: (level: NotificationLevel) => void;
+}
+
+const OPTIONS: { level: NotificationLevel; label: string; description: string }[] = [
+  { level: 'all', label: 'All messages', description: 'Notify me about every new message' },
+  { level: 'mentions', label: 'Mentions only', description: 'Only when someone @mentions me' },
+  { level: 'muted', label: 'Muted', description: 'No notifications from this room' },
+];
+
+const LEVEL_ICONS: Record<NotificationLevel, typeof Bell> = {
+  all: Bell,
+  mentions: AtSign,
+  muted: BellOff,
+};
+
+/**
+ * Room header button for choosing how much the room notifies the user
+ */
+const NotificationLevelMenu = ({ level, onChange }: NotificationLevelMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const Icon = LEVEL_ICONS[level];
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const select = (next: NotificationLevel) => {
+    setIsOpen(false);
+    if (next !== level) onChange(next);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`rounded-md p-2 transition-colors ${
+          isOpen
+            ? 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
+            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+        title="Notification settings"
+        aria-label="Notification settings"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Icon className="h-5 w-5" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full z-20 mt-2 w-64 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-1 shadow-xl"
+        >
+          {OPTIONS.map((option) => (
+            <button
+              key={option.level}
+              role="menuitemradio"
+              aria-checked={option.level === level}
+              onClick={() => select(option.level)}
+              className={`w-full rounded-md px-3 py-2 text-left transition-colors ${
+                option.level === level
+                  ? 'bg-blue-50 dark:bg-blue-900/30'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              <p
+                className={`text-sm font-medium ${
+                  option.level === level
+                    ? 'text-blue-600 dark:text-blue-400'
+                    : 'text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                {option.label}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationLevelMenu;
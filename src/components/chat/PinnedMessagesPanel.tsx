@@ -0,0 +1,119 @@
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '../../hooks/useAuth';
+import { usePinnedMessages } from '../../hooks/usePinnedMessages';
+import MarkdownContent from './MarkdownContent';
+import type { UserDoc } from '../../types/user';
+
+interface PinnedMessagesPanelProps {
+  roomId: string;
+  pinnedMessageIds: string[];
+  members?: UserDoc[];
+  onJumpToMessage: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void; // Only provided when the user may pin in this room
+  onClose: () => void;
+}
+
+const PinnedMessagesPanel = ({
+  roomId,
+  pinnedMessageIds,
+  members = [],
+  onJumpToMessage,
+  onUnpin,
+  onClose,
+}: PinnedMessagesPanelProps) => {
+  const { currentUser } = useAuth();
+  const { pinnedMessages, loading, error } = usePinnedMessages(roomId, pinnedMessageIds);
+
+  return (
+    <aside className="flex h-full w-80 lg:w-96 flex-shrink-0 flex-col border-l dark:border-gray-700 bg-white dark:bg-gray-800 transition-colors">
+      {/* Header */}
+      <div className="flex h-16 items-center justify-between border-b dark:border-gray-700 px-4">
+        <div>
+          <h3 className="text-base font-semibold text-gray-800 dark:text-gray-100">
+            Pinned messages
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {pinnedMessageIds.length} pinned
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-md p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Close pinned messages"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Pinned Messages */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : pinnedMessages.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            No pinned messages yet. Pin important messages from their menu.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {pinnedMessages.map((message) => (
+              <div
+                key={message.id}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                    {message.senderName}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDistanceToNow(message.createdAt, { addSuffix: true })}
+                  </span>
+                </div>
+                {message.type === 'image' ? (
+                  <img src={message.content} alt="Shared image" className="max-h-32 rounded-lg" />
+                ) : (
+                  <div className="text-gray-800 dark:text-gray-100">
+                    <MarkdownContent
+                      content={message.content}
+                      mentions={message.mentions}
+                      users={members}
+                      currentUserId={currentUser?.uid || ''}
+                    />
+                  </div>
+                )}
+                <div className="mt-2 flex gap-3 text-xs">
+                  <button
+                    onClick={() => onJumpToMessage(message.id)}
+                    className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Jump to message
+                  </button>
+                  {onUnpin && (
+                    <button
+                      onClick={() => onUnpin(message.id)}
+                      className="font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    >
+                      Unpin
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default PinnedMessagesPanel;
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Lock, LockOpen } from 'lucide-react';
+import { enableRoomEncryption } from '../../lib/roomService';
+import type { EncryptionStatus } from '../../types/encryption';
+import type { Room } from '../../types/room';
+import type { UserDoc } from '../../types/user';
+
+interface RoomEncryptionButtonProps {
+  room: Room;
+  otherUser: UserDoc;
+  status: EncryptionStatus; // The current user's key on this device
+}
+
+/**
+ * Direct room header button: shows that the room is end-to-end encrypted
+ * (opening the safety numbers in Profile), or turns encryption on once both
+ * members have a key
+ */
+const RoomEncryptionButton = ({ room, otherUser, status }: RoomEncryptionButtonProps) => {
+  const navigate = useNavigate();
+  const [isEnabling, setIsEnabling] = useState(false);
+
+  if (room.encrypted) {
+    return (
+      <button
+        onClick={() => navigate('/profile')}
+        className="rounded-md p-2 text-green-600 dark:text-green-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        title="End-to-end encrypted. Compare safety numbers in your profile."
+        aria-label="End-to-end encrypted"
+      >
+        <Lock className="h-5 w-5" />
+      </button>
+    );
+  }
+
+  const unavailableReason =
+    status !== 'ready'
+      ? 'Set up encryption in your profile first'
+      : !otherUser.publicKey
+        ? `${otherUser.displayName} hasn't set up encryption yet`
+        : null;
+
+  const handleEnable = async () => {
+    if (
+      !window.confirm(
+        `Encrypt new messages with ${otherUser.displayName} end to end? This can't be turned off, and earlier messages stay as they are.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsEnabling(true);
+      await enableRoomEncryption(room.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to turn on encryption');
+    } finally {
+      setIsEnabling(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleEnable}
+      disabled={isEnabling || !!unavailableReason}
+      className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      title={unavailableReason || 'Turn on end-to-end encryption'}
+      aria-label="Turn on end-to-end encryption"
+    >
+      <LockOpen className="h-5 w-5" />
+    </button>
+  );
+};
+
+export default RoomEncryptionButton;
@@ -1,17 +1,21 @@
 import { useState, useEffect } from 'react';
 import { Link, useParams } from 'react-router-dom';
+import { Volume2 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { getUser } from '../../lib/userService';
-import type { Room } from '../../types/room';
+import { getUnreadCount } from '../../lib/roomService';
+import VoiceChannelRoster from '../video/VoiceChannelRoster';
+import type { Room, RoomReadState } from '../../types/room';
 
 interface RoomListProps {
   rooms: Room[];
+  readStates: Record<string, RoomReadState>; // The user's read markers, by room ID
   loading: boolean;
   onJoinRoom?: (roomId: string) => void;
   onRequestJoin?: (roomId: string) => void;
 }
 
-const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps) => {
+const RoomList = ({ rooms, readStates, loading, onJoinRoom, onRequestJoin }: RoomListProps) => {
   const { roomId } = useParams();
   const { currentUser } = useAuth();
   const [dmUserNames, setDmUserNames] = useState<Record<string, string>>({});
@@ -83,7 +87,10 @@ const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps)
         const roomInitial = displayName[0]?.toUpperCase() || '?';
         const isMember = currentUser && room.members.includes(currentUser.uid);
         const isPublic = room.type === 'public';
+        const isVoice = room.type === 'voice';
         const isPrivate = room.type === 'private';
+        const unreadCount =
+          currentUser && !isActive ? getUnreadCount(room, currentUser.uid, readStates[room.id]) : 0;
 
         return (
           <div key={room.id} className="relative group">
@@ -114,7 +121,17 @@ const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps)
               </div>
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
-                  <p className="text-sm font-medium truncate">{displayName}</p>
+                  <p
+                    className={`text-sm truncate ${unreadCount > 0 ? 'font-bold' : 'font-medium'}`}
+                  >
+                    {displayName}
+                  </p>
+                  {isVoice && (
+                    <Volume2
+                      className="h-3.5 w-3.5 flex-shrink-0 text-green-600 dark:text-green-400"
+                      aria-label="Voice room"
+                    />
+                  )}
                   {isPublic && !isMember && (
                     <span className="text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 px-1.5 py-0.5 rounded">
                       Public
@@ -132,6 +149,11 @@ const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps)
                   </p>
                 )}
               </div>
+              {unreadCount > 0 && (
+                <span className="flex-shrink-0 min-w-[1.25rem] rounded-full bg-blue-600 px-1.5 py-0.5 text-center text-xs font-semibold text-white">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
               {room.type === 'private' && (
                 <svg
                   className="h-4 w-4 text-gray-400 dark:text-gray-500"
@@ -148,8 +170,8 @@ const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps)
                 </svg>
               )}
             </Link>
-            {/* Join button for public rooms user is not a member of */}
-            {isPublic && !isMember && onJoinRoom && (
+            {/* Join button for public and voice rooms user is not a member of */}
+            {(isPublic || isVoice) && !isMember && onJoinRoom && (
               <button
                 onClick={(e) => {
                   e.preventDefault();
@@ -172,6 +194,8 @@ const RoomList = ({ rooms, loading, onJoinRoom, onRequestJoin }: RoomListProps)
                 Request
               </button>
             )}
+            {/* Who is connected to the voice channel */}
+            {isVoice && <VoiceChannelRoster roomId={room.id} />}
           </div>
         );
       })}
@@ -7,10 +7,22 @@ import {
   getRoomJoinRequests,
   approveJoinRequest,
   rejectJoinRequest,
+  updateRoom,
+  getRoomRole,
+  hasRoomRole,
+  setRoomMemberRole,
+  transferRoomOwnership,
 } from '../../lib/roomService';
-import type { Room } from '../../types/room';
+import type { Room, PinPermission, RoomRole } from '../../types/room';
 import type { UserDoc } from '../../types/user';
 
+const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
 interface RoomSettingsProps {
   room: Room;
   isOpen: boolean;
@@ -34,13 +46,16 @@ const RoomSettings = ({ room, isOpen, onClose }: RoomSettingsProps) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const isAdmin = currentUser && room.createdBy === currentUser.uid;
+  const isOwner = !!currentUser && getRoomRole(room, currentUser.uid) === 'owner';
+  const isAdmin = !!currentUser && hasRoomRole(room, currentUser.uid, 'admin');
   const canManageMembers = isAdmin && room.type === 'private';
+  // Both members of a direct room are equals
+  const canManageRoles = isOwner && room.type !== 'direct';
 
   useEffect(() => {
-    if (isOpen && canManageMembers) {
+    if (isOpen) {
       loadUsers();
-      loadJoinRequests();
+      if (canManageMembers) loadJoinRequests();
     }
   }, [isOpen, canManageMembers]);
 
@@ -84,7 +99,7 @@ const RoomSettings = ({ room, isOpen, onClose }: RoomSettingsProps) => {
   };
 
   const handleRemoveMember = async (userId: string) => {
-    if (!room.id || userId === room.createdBy) return;
+    if (!room.id || getRoomRole(room, userId) === 'owner') return;
 
     if (!confirm('Are you sure you want to remove this member?')) return;
 
@@ -97,6 +112,43 @@ const RoomSettings = ({ room, isOpen, onClose }: RoomSettingsProps) => {
     }
   };
 
+  const handleRoleChange = async (userId: string, role: Exclude<RoomRole, 'owner'>) => {
+    try {
+      await setRoomMemberRole(room, userId, role);
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      alert('Failed to update member role');
+    }
+  };
+
+  const handleTransferOwnership = async (member: UserDoc) => {
+    if (
+      !confirm(
+        `Make ${member.displayName} the owner of this room? You will stay on as an admin, and only they can give ownership back.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await transferRoomOwnership(room, member.uid);
+    } catch (error) {
+      console.error('Error transferring ownership:', error);
+      alert('Failed to transfer ownership');
+    }
+  };
+
+  const handlePinPermissionChange = async (pinPermission: PinPermission) => {
+    if (!room.id) return;
+
+    try {
+      await updateRoom(room.id, { pinPermission });
+    } catch (error) {
+      console.error('Error updating pin permission:', error);
+      alert('Failed to update pin permission');
+    }
+  };
+
   const handleApproveRequest = async (requestId: string, userId: string) => {
     if (!room.id) return;
 
@@ -216,6 +268,28 @@ const RoomSettings = ({ room, isOpen, onClose }: RoomSettingsProps) => {
                   {room.createdAt ? new Date(room.createdAt).toLocaleString() : 'Unknown'}
                 </p>
               </div>
+              {room.type !== 'direct' && (
+                <div>
+                  <label htmlFor="pin-permission" className="text-sm font-medium text-gray-700">
+                    Who can pin messages
+                  </label>
+                  {isAdmin ? (
+                    <select
+                      id="pin-permission"
+                      value={room.pinPermission || 'admins'}
+                      onChange={(e) => handlePinPermissionChange(e.target.value as PinPermission)}
+                      className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="admins">Admins and moderators</option>
+                      <option value="members">All members</option>
+                    </select>
+                  ) : (
+                    <p className="mt-1 text-gray-900">
+                      {room.pinPermission === 'members' ? 'All members' : 'Admins and moderators'}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           ) : activeTab === 'members' ? (
             <div className="space-y-4">
@@ -226,35 +300,72 @@ const RoomSettings = ({ room, isOpen, onClose }: RoomSettingsProps) => {
                   <div className="text-sm text-gray-500">Loading...</div>
                 ) : (
                   <div className="space-y-2">
-                    {roomMembers.map((member) => (
-                      <div
-                        key={member.uid}
-                        className="flex items-center justify-between rounded-lg border p-3"
-                      >
-                        <div className="flex items-center space-x-3">
-                          <div className="h-10 w-10 flex-shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white font-semibold">
-                            {member.displayName[0].toUpperCase()}
+                    {roomMembers.map((member) => {
+                      const memberRole = getRoomRole(room, member.uid);
+                      const isSelf = member.uid === currentUser?.uid;
+                      // Admins can only remove plain members; the owner can't be removed
+                      const canRemove =
+                        canManageMembers && !isSelf && (isOwner || memberRole === 'member');
+
+                      return (
+                        <div
+                          key={member.uid}
+                          className="flex items-center justify-between rounded-lg border p-3"
+                        >
+                          <div className="flex items-center space-x-3">
+                            <div className="h-10 w-10 flex-shrink-0 rounded-full bg-blue-500 flex items-center justify-center text-white font-semibold">
+                              {member.displayName[0].toUpperCase()}
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-gray-900">
+                                {member.displayName}
+                                {memberRole !== 'member' && room.type !== 'direct' && (
+                                  <span className="ml-2 text-xs text-blue-600">
+                                    ({ROLE_LABELS[memberRole]})
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500">{member.email}</p>
+                            </div>
                           </div>
-                          <div>
-                            <p className="text-sm font-medium text-gray-900">
-                              {member.displayName}
-                              {member.uid === room.createdBy && (
-                                <span className="ml-2 text-xs text-blue-600">(Admin)</span>
-                              )}
-                            </p>
-                            <p className="text-xs text-gray-500">{member.email}</p>
+                          <div className="flex items-center space-x-2">
+                            {canManageRoles && !isSelf && (
+                              <>
+                                <select
+                                  value={memberRole}
+                                  onChange={(e) =>
+                                    handleRoleChange(
+                                      member.uid,
+                                      e.target.value as Exclude<RoomRole, 'owner'>
+                                    )
+                                  }
+                                  aria-label={`Role of ${member.displayName}`}
+                                  className="rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                                >
+                                  <option value="admin">Admin</option>
+                                  <option value="moderator">Moderator</option>
+                                  <option value="member">Member</option>
+                                </select>
+                                <button
+                                  onClick={() => handleTransferOwnership(member)}
+                                  className="rounded-md px-3 py-1 text-sm text-blue-600 hover:bg-blue-50"
+                                >
+                                  Make owner
+                                </button>
+                              </>
+                            )}
+                            {canRemove && (
+                              <button
+                                onClick={() => handleRemoveMember(member.uid)}
+                                className="rounded-md px-3 py-1 text-sm text-red-600 hover:bg-red-50"
+                              >
+                                Remove
+                              </button>
+                            )}
                           </div>
                         </div>
-                        {canManageMembers && member.uid !== room.createdBy && (
-                          <button
-                            onClick={() => handleRemoveMember(member.uid)}
-                            className="rounded-md px-3 py-1 text-sm text-red-600 hover:bg-red-50"
-                          >
-                            Remove
-                          </button>
-                        )}
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
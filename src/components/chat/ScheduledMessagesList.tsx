@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { getMentionedUserIds } from '../../lib/messageService';
+import type { ScheduledMessage } from '../../types/message';
+import type { UserDoc } from '../../types/user';
+
+// Value format of <input type="datetime-local">
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface ScheduledMessagesListProps {
+  scheduledMessages: ScheduledMessage[];
+  mentionCandidates?: UserDoc[];
+  error?: string | null;
+  onUpdate: (
+    scheduledMessageId: string,
+    updates: { content?: string; mentions?: string[]; sendAt?: Date }
+  ) => Promise<boolean>;
+  onCancel: (scheduledMessageId: string) => Promise<boolean>;
+}
+
+const ScheduledMessagesList = ({
+  scheduledMessages,
+  mentionCandidates = [],
+  error,
+  onUpdate,
+  onCancel,
+}: ScheduledMessagesListProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSendAt, setEditSendAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (scheduledMessages.length === 0) {
+    // Still surface errors from scheduling the first message
+    return error ? (
+      <div className="border-t dark:border-gray-700 px-4 py-2">
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  const handleStartEdit = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditContent(message.content);
+    setEditSendAt(format(message.sendAt, DATETIME_LOCAL_FORMAT));
+  };
+
+  const handleSaveEdit = async () => {
+    const trimmedContent = editContent.trim();
+    if (!editingId || !trimmedContent || !editSendAt) return;
+
+    setSaving(true);
+    const success = await onUpdate(editingId, {
+      content: trimmedContent,
+      mentions: getMentionedUserIds(trimmedContent, mentionCandidates),
+      sendAt: new Date(editSendAt),
+    });
+    setSaving(false);
+
+    if (success) {
+      setEditingId(null);
+    }
+  };
+
+  // Queue a failed message again; it is already due, so it goes out on the next delivery run
+  const handleRetry = (message: ScheduledMessage) => {
+    onUpdate(message.id, {});
+  };
+
+  return (
+    <div className="border-t dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 px-4 py-2 transition-colors">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-2 text-xs font-medium text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100"
+        aria-expanded={isExpanded}
+      >
+        <Clock className="h-4 w-4" />
+        {scheduledMessages.length} scheduled{' '}
+        {scheduledMessages.length === 1 ? 'message' : 'messages'}
+        <span className="ml-auto text-blue-600 dark:text-blue-400">
+          {isExpanded ? 'Hide' : 'Show'}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 max-h-60 space-y-2 overflow-y-auto">
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          {scheduledMessages.map((message) => (
+            <div
+              key={message.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3"
+            >
+              {editingId === message.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    rows={2}
+                    className="w-full resize-none rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    aria-label="Scheduled message"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={editSendAt}
+                    min={format(new Date(), DATETIME_LOCAL_FORMAT)}
+                    onChange={(e) => setEditSendAt(e.target.value)}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    aria-label="Send at"
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="rounded px-3 py-1 font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={saving || !editContent.trim() || !editSendAt}
+                      className="rounded bg-blue-600 px-3 py-1 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="mb-1 flex items-center gap-2 text-xs">
+                    <span className="font-semibold text-gray-700 dark:text-gray-200">
+                      {format(message.sendAt, 'PPp')}
+                    </span>
+                    {message.status === 'failed' && (
+                      <span className="text-red-600 dark:text-red-400" title={message.error}>
+                        Failed to send
+                      </span>
+                    )}
+                  </div>
+                  <p className="line-clamp-3 whitespace-pre-wrap break-words text-sm text-gray-800 dark:text-gray-100">
+                    {message.content}
+                  </p>
+                  <div className="mt-2 flex gap-3 text-xs">
+                    {message.status === 'failed' && (
+                      <button
+                        onClick={() => handleRetry(message)}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Retry now
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleStartEdit(message)}
+                      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onCancel(message.id)}
+                      className="font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    >
+                      Cancel message
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledMessagesList;
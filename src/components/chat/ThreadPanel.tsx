@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '../../hooks/useAuth';
+import { useThread } from '../../hooks/useThread';
+import { getMentionedUserIds } from '../../lib/messageService';
+import Message from './Message';
+import MessageInput from './MessageInput';
+import MarkdownContent from './MarkdownContent';
+import MessageHistoryModal from './MessageHistoryModal';
+import type { Message as MessageType } from '../../types/message';
+import type { UserDoc } from '../../types/user';
+
+interface ThreadPanelProps {
+  roomId: string;
+  rootMessage: MessageType;
+  members?: UserDoc[]; // Room members, for @mention autocomplete and rendering
+  canViewDeleted?: boolean; // Room moderators can view deleted replies
+  canDeleteAny?: boolean; // Room moderators can delete other members' replies
+  onClose: () => void;
+}
+
+const ThreadPanel = ({
+  roomId,
+  rootMessage,
+  members = [],
+  canViewDeleted = false,
+  canDeleteAny = false,
+  onClose,
+}: ThreadPanelProps) => {
+  const { currentUser } = useAuth();
+  const {
+    replies,
+    loading,
+    sendReply,
+    toggleReaction,
+    editReply,
+    deleteReply,
+    dismissLinkPreview,
+  } = useThread(roomId, rootMessage.id);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const mentionCandidates = members.filter((member) => member.uid !== currentUser?.uid);
+  const [historyReplyId, setHistoryReplyId] = useState<string | null>(null);
+  const historyReply = historyReplyId ? replies.find((r) => r.id === historyReplyId) : undefined;
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length]);
+
+  const handleSendReply = async (content: string, mentions?: string[]): Promise<boolean> => {
+    return sendReply({ content, mentions });
+  };
+
+  const handleReaction = async (messageId: string, emoji: string) => {
+    await toggleReaction(messageId, emoji);
+  };
+
+  const handleEdit = (messageId: string) => {
+    const reply = replies.find((r) => r.id === messageId);
+    if (reply) {
+      const newContent = prompt('Edit message:', reply.content);
+      if (newContent && newContent.trim() && newContent !== reply.content) {
+        const trimmedContent = newContent.trim();
+        editReply(
+          messageId,
+          trimmedContent,
+          getMentionedUserIds(trimmedContent, mentionCandidates)
+        );
+      }
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    if (confirm('Are you sure you want to delete this message?')) {
+      await deleteReply(messageId);
+    }
+  };
+
+  return (
+    <aside className="flex h-full w-80 lg:w-96 flex-shrink-0 flex-col border-l dark:border-gray-700 bg-white dark:bg-gray-800 transition-colors">
+      {/* Header */}
+      <div className="flex h-16 items-center justify-between border-b dark:border-gray-700 px-4">
+        <div>
+          <h3 className="text-base font-semibold text-gray-800 dark:text-gray-100">Thread</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-md p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Close thread"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Root message */}
+      <div className="border-b dark:border-gray-700 p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+            {rootMessage.senderName}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {formatDistanceToNow(rootMessage.createdAt, { addSuffix: true })}
+          </span>
+        </div>
+        {rootMessage.type === 'image' ? (
+          <img src={rootMessage.content} alt="Shared image" className="max-h-48 rounded-lg" />
+        ) : (
+          <div className="text-gray-800 dark:text-gray-100">
+            <MarkdownContent
+              content={rootMessage.content}
+              mentions={rootMessage.mentions}
+              users={members}
+              currentUserId={currentUser?.uid || ''}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Replies */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : replies.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            No replies yet. Start the thread!
+          </p>
+        ) : (
+          <div className="flex flex-col space-y-4">
+            {replies.map((reply) => (
+              <Message
+                key={reply.id}
+                message={reply}
+                isOwnMessage={reply.senderId === currentUser?.uid}
+                currentUserId={currentUser?.uid || ''}
+                currentUserName={currentUser?.displayName || currentUser?.email || 'Unknown'}
+                onReaction={handleReaction}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onDismissLinkPreview={dismissLinkPreview}
+                onShowHistory={setHistoryReplyId}
+                canViewDeleted={canViewDeleted}
+                canDeleteAny={canDeleteAny}
+                members={members}
+              />
+            ))}
+          </div>
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      {/* Reply Input */}
+      <MessageInput onSendMessage={handleSendReply} mentionCandidates={mentionCandidates} />
+
+      {/* Edit History / Deleted Content Viewer */}
+      {historyReply && (
+        <MessageHistoryModal
+          key={historyReply.id}
+          roomId={roomId}
+          message={historyReply}
+          canViewDeleted={canViewDeleted}
+          onClose={() => setHistoryReplyId(null)}
+        />
+      )}
+    </aside>
+  );
+};
+
+export default ThreadPanel;
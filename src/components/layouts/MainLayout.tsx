@@ -1,10 +1,14 @@
 import { Outlet } from 'react-router-dom';
 import { useState } from 'react';
 import Sidebar from './Sidebar';
+import { useOutboxDelivery } from '../../hooks/useOutboxDelivery';
 
 const MainLayout = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
+  // Send messages still waiting in the outbox
+  useOutboxDelivery();
+
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
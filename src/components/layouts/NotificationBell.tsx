@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, Bell, MessageSquare, PhoneMissed, X } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+import { getNotificationPath, showBrowserNotification } from '../../lib/notificationService';
+import type { AppNotification, NotificationType } from '../../types/notification';
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  message: MessageSquare,
+  mention: AtSign,
+  missedCall: PhoneMissed,
+};
+
+/**
+ * Bell with the unread count, opening the notification centre. Also clears
+ * notifications for the room being viewed, and shows system notifications for
+ * background tabs on devices without push.
+ */
+const NotificationBell = () => {
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    pushStatus,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+    setPushEnabled,
+  } = useNotifications();
+  const navigate = useNavigate();
+  const { roomId: activeRoomId } = useParams();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  // Notifications already present, so only new arrivals pop up
+  const seenIdsRef = useRef<Set<string> | null>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  // The room on screen needs no notifications
+  useEffect(() => {
+    if (!activeRoomId) return;
+
+    const roomNotificationIds = notifications
+      .filter(
+        (notification) =>
+          !notification.read &&
+          notification.roomId === activeRoomId &&
+          notification.type !== 'missedCall'
+      )
+      .map((notification) => notification.id);
+    if (roomNotificationIds.length > 0) markAsRead(roomNotificationIds);
+  }, [activeRoomId, notifications, markAsRead]);
+
+  // Background tab without push: show new notifications from the page
+  useEffect(() => {
+    if (loading) return;
+
+    if (!seenIdsRef.current) {
+      seenIdsRef.current = new Set(notifications.map((notification) => notification.id));
+      return;
+    }
+
+    const seenIds = seenIdsRef.current;
+    const arrived = notifications.filter((notification) => !seenIds.has(notification.id));
+    arrived.forEach((notification) => seenIds.add(notification.id));
+
+    if (!document.hidden || pushStatus === 'enabled') return;
+
+    arrived
+      .filter((notification) => !notification.read)
+      .forEach((notification) =>
+        showBrowserNotification(notification, () => navigate(getNotificationPath(notification)))
+      );
+  }, [notifications, loading, pushStatus, navigate]);
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.read) markAsRead([notification.id]);
+    navigate(getNotificationPath(notification));
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative rounded-md p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Notifications"
+          className="absolute left-0 top-full z-40 mt-2 flex max-h-[70vh] w-80 flex-col rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-xl"
+        >
+          <div className="flex items-center justify-between border-b dark:border-gray-700 px-4 py-3">
+            <p className="font-semibold text-gray-900 dark:text-white">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllAsRead}
+                className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {error && <p className="px-4 pt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex-1 overflow-y-auto">
+            {loading ? (
+              <p className="p-4 text-center text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                You're all caught up
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {notifications.map((notification) => {
+                  const Icon = TYPE_ICONS[notification.type] || Bell;
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`group flex items-start gap-3 px-4 py-3 ${
+                        notification.read ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                      }`}
+                    >
+                      <Icon
+                        className={`mt-0.5 h-4 w-4 flex-shrink-0 ${
+                          notification.type === 'missedCall'
+                            ? 'text-red-500'
+                            : 'text-gray-400 dark:text-gray-500'
+                        }`}
+                      />
+                      <button
+                        onClick={() => handleOpenNotification(notification)}
+                        className="min-w-0 flex-1 text-left"
+                      >
+                        <p
+                          className={`truncate text-sm text-gray-900 dark:text-gray-100 ${
+                            notification.read ? '' : 'font-semibold'
+                          }`}
+                        >
+                          {notification.title}
+                        </p>
+                        {notification.body && (
+                          <p className="line-clamp-2 text-sm text-gray-600 dark:text-gray-300">
+                            {notification.body}
+                          </p>
+                        )}
+                        <p className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                          {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => deleteNotification(notification.id)}
+                        className="rounded p-0.5 text-gray-400 opacity-0 hover:text-gray-600 dark:hover:text-gray-200 group-hover:opacity-100 focus:opacity-100"
+                        aria-label="Remove notification"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {pushStatus !== 'unsupported' && (
+            <div className="border-t dark:border-gray-700 px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+              {pushStatus === 'denied' ? (
+                <p>Desktop notifications are blocked in your browser settings.</p>
+              ) : (
+                <button
+                  onClick={() => setPushEnabled(pushStatus !== 'enabled')}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {pushStatus === 'enabled'
+                    ? 'Turn off desktop notifications on this device'
+                    : 'Turn on desktop notifications'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
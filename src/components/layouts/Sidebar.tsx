@@ -1,20 +1,29 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useRooms } from '../../hooks/useRooms';
+import { useReadStates } from '../../hooks/useReadStates';
 import { useTheme } from '../../context/ThemeContext';
 import RoomList from '../chat/RoomList';
 import CreateRoomModal from '../chat/CreateRoomModal';
 import UserBrowser from '../chat/UserBrowser';
-import { createDirectMessage, joinRoom, requestToJoinRoom } from '../../lib/roomService';
+import NotificationBell from './NotificationBell';
+import {
+  createDirectMessage,
+  joinRoom,
+  requestToJoinRoom,
+  getUnreadCount,
+} from '../../lib/roomService';
 import type { UserDoc } from '../../types/user';
-import { Phone, Moon, Sun } from 'lucide-react';
+import { Phone, Moon, Sun, Search, AtSign } from 'lucide-react';
 
 const Sidebar = () => {
   const { currentUser, userDoc, logout } = useAuth();
   const { rooms, loading, createRoom } = useRooms();
+  const { readStates } = useReadStates();
   const { theme, toggleTheme } = useTheme();
   const navigate = useNavigate();
+  const { roomId: activeRoomId } = useParams();
   const [activeTab, setActiveTab] = useState<'rooms' | 'direct'>('rooms');
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [showUserBrowser, setShowUserBrowser] = useState(false);
@@ -70,6 +79,19 @@ const Sidebar = () => {
   const regularRooms = rooms.filter((room) => room.type !== 'direct');
   const directMessageRooms = rooms.filter((room) => room.type === 'direct');
 
+  // Unread totals shown on the tabs
+  const countUnread = (tabRooms: typeof rooms) =>
+    currentUser
+      ? tabRooms
+          .filter((room) => room.id !== activeRoomId)
+          .reduce(
+            (total, room) => total + getUnreadCount(room, currentUser.uid, readStates[room.id]),
+            0
+          )
+      : 0;
+  const roomsUnread = countUnread(regularRooms);
+  const directUnread = countUnread(directMessageRooms);
+
   return (
     <div className="flex h-full flex-col bg-white dark:bg-gray-900 transition-colors">
       {/* User Profile Section */}
@@ -84,6 +106,7 @@ const Sidebar = () => {
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">Online</p>
           </div>
+          <NotificationBell />
           <button
             onClick={toggleTheme}
             className="rounded-md p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
@@ -106,6 +129,11 @@ const Sidebar = () => {
             }`}
           >
             Rooms
+            {roomsUnread > 0 && (
+              <span className="ml-1.5 rounded-full bg-blue-600 px-1.5 py-0.5 text-xs font-semibold text-white">
+                {roomsUnread > 99 ? '99+' : roomsUnread}
+              </span>
+            )}
           </button>
           <button
             onClick={() => setActiveTab('direct')}
@@ -116,6 +144,11 @@ const Sidebar = () => {
             }`}
           >
             Direct Messages
+            {directUnread > 0 && (
+              <span className="ml-1.5 rounded-full bg-blue-600 px-1.5 py-0.5 text-xs font-semibold text-white">
+                {directUnread > 99 ? '99+' : directUnread}
+              </span>
+            )}
           </button>
         </div>
       </div>
@@ -145,6 +178,7 @@ const Sidebar = () => {
             </div>
             <RoomList
               rooms={regularRooms}
+              readStates={readStates}
               loading={loading}
               onJoinRoom={handleJoinRoom}
               onRequestJoin={handleRequestJoin}
@@ -176,6 +210,7 @@ const Sidebar = () => {
             ) : (
               <RoomList
                 rooms={directMessageRooms}
+                readStates={readStates}
                 loading={loading}
                 onJoinRoom={handleJoinRoom}
                 onRequestJoin={handleRequestJoin}
@@ -187,6 +222,20 @@ const Sidebar = () => {
 
       {/* Bottom Actions */}
       <div className="border-t dark:border-gray-700 p-4 space-y-2">
+        <Link
+          to="/search"
+          className="flex items-center justify-center gap-2 w-full rounded-md bg-gray-100 dark:bg-gray-800 px-4 py-2 text-center text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          <Search className="w-4 h-4" />
+          Search Messages
+        </Link>
+        <Link
+          to="/mentions"
+          className="flex items-center justify-center gap-2 w-full rounded-md bg-gray-100 dark:bg-gray-800 px-4 py-2 text-center text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          <AtSign className="w-4 h-4" />
+          Mentions
+        </Link>
         <Link
           to="/calls"
           className="flex items-center justify-center gap-2 w-full rounded-md bg-blue-50 dark:bg-blue-900/30 px-4 py-2 text-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50"
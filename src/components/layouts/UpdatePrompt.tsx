@@ -0,0 +1,38 @@
+import { RefreshCw, X } from 'lucide-react';
+import { useServiceWorkerUpdate } from '../../hooks/useServiceWorkerUpdate';
+
+/**
+ * Tells the user a new version has been deployed and reloads onto it when they
+ * are ready, so an update never interrupts a message or call mid-way
+ */
+const UpdatePrompt = () => {
+  const { updateAvailable, updating, applyUpdate, dismissUpdate } = useServiceWorkerUpdate();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-4 left-1/2 z-[60] flex w-[calc(100%-2rem)] max-w-sm -translate-x-1/2 items-center gap-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-3 shadow-2xl"
+    >
+      <RefreshCw className="h-5 w-5 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+      <p className="flex-1 text-sm text-gray-900 dark:text-gray-100">A new version is available.</p>
+      <button
+        onClick={applyUpdate}
+        disabled={updating}
+        className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {updating ? 'Reloading...' : 'Reload'}
+      </button>
+      <button
+        onClick={dismissUpdate}
+        className="rounded p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { KeyRound, Lock } from 'lucide-react';
+import { useEncryptionKeys } from '../../hooks/useEncryptionKeys';
+import { MIN_PASSPHRASE_LENGTH } from '../../lib/encryptionService';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import SafetyNumberList from './SafetyNumberList';
+
+/**
+ * Profile section for end-to-end encrypted direct messages: setting up the
+ * user's key on this device, backing it up or restoring it with a passphrase,
+ * and verifying contacts' safety numbers
+ */
+const EncryptionSettings = () => {
+  const { status, publicKey, loading, error, setUpKeys, exportBackup, importBackup } =
+    useEncryptionKeys();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setFormError(null);
+    setNotice(null);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSetUp = () =>
+    run(async () => {
+      if (
+        status === 'missing' &&
+        !window.confirm(
+          'Create a new key? Encrypted messages sent to your old key will only be readable where that key is.'
+        )
+      ) {
+        return;
+      }
+      if (await setUpKeys()) {
+        setNotice(
+          'Encryption is set up. Download a backup so you can read your messages on other devices.'
+        );
+      }
+    });
+
+  const handleExport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setFormError('The passphrases do not match');
+      return;
+    }
+
+    run(async () => {
+      const backup = await exportBackup(passphrase);
+      if (!backup) return;
+
+      const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'vchat-key-backup.json';
+      link.click();
+      // Revoking straight away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setNotice('Backup downloaded. Keep the file and your passphrase somewhere safe.');
+    });
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupFile) {
+      setFormError('Choose your backup file');
+      return;
+    }
+
+    run(async () => {
+      if (await importBackup(await backupFile.text(), passphrase)) {
+        setPassphrase('');
+        setBackupFile(null);
+        setNotice('Your key has been restored on this device.');
+      }
+    });
+  };
+
+  const shownError = formError || error;
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800 dark:text-gray-100">
+          <Lock className="h-5 w-5" />
+          End-to-end encryption
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Encrypted direct messages can only be read on devices that hold your key. The key never
+          leaves this device except in a backup protected by your passphrase.
+        </p>
+      </div>
+
+      {shownError && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-600 dark:text-red-400">
+          {shownError}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-md bg-green-50 dark:bg-green-900/20 p-3 text-sm text-green-600 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : status === 'none' ? (
+        <Button type="button" onClick={handleSetUp} disabled={isWorking}>
+          {isWorking ? 'Setting up...' : 'Set up encryption'}
+        </Button>
+      ) : (
+        <>
+          {status === 'ready' ? (
+            <form onSubmit={handleExport} className="space-y-3">
+              <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+                <KeyRound className="h-4 w-4" />
+                Your key is set up on this device.
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setPassphrase(e.target.value)
+                  }
+                  placeholder="Backup passphrase"
+                  aria-label="Backup passphrase"
+                  autoComplete="new-password"
+                  minLength={MIN_PASSPHRASE_LENGTH}
+                  disabled={isWorking}
+                />
+                <Input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setConfirmPassphrase(e.target.value)
+                  }
+                  placeholder="Repeat passphrase"
+                  aria-label="Repeat passphrase"
+                  autoComplete="new-password"
+                  disabled={isWorking}
+                />
+              </div>
+              <Button
+                type="submit"
+                variant="secondary"
+                size="sm"
+                disabled={isWorking || !passphrase}
+              >
+                Download key backup
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleImport} className="space-y-3">
+              <p className="text-sm text-amber-700 dark:text-amber-300">
+                Your encryption key isn't on this device. Restore it from your backup to read and
+                send encrypted messages here.
+              </p>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setBackupFile(e.target.files?.[0] || null)}
+                aria-label="Key backup file"
+                disabled={isWorking}
+                className="block w-full text-sm text-gray-600 dark:text-gray-300 file:mr-3 file:rounded-md file:border-0 file:bg-gray-200 dark:file:bg-gray-700 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-gray-900 dark:file:text-gray-100"
+              />
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+                placeholder="Backup passphrase"
+                aria-label="Backup passphrase"
+                autoComplete="current-password"
+                disabled={isWorking}
+              />
+              <div className="flex flex-wrap gap-3">
+                <Button type="submit" size="sm" disabled={isWorking || !backupFile || !passphrase}>
+                  {isWorking ? 'Restoring...' : 'Restore key'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleSetUp}
+                  disabled={isWorking}
+                >
+                  Create a new key instead
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {publicKey && <SafetyNumberList publicKey={publicKey} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,79 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useSafetyNumbers } from '../../hooks/useSafetyNumbers';
+
+interface SafetyNumberListProps {
+  publicKey: string;
+}
+
+/**
+ * Safety numbers for each direct-message contact with an encryption key.
+ * Matching numbers on both devices prove no one swapped a key in between.
+ */
+const SafetyNumberList = ({ publicKey }: SafetyNumberListProps) => {
+  const { entries, loading, error, setVerified } = useSafetyNumbers(publicKey);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-100">Safety numbers</h3>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        Compare a contact's safety number with the one on their device, in person or on a call. If
+        they match, mark the contact as verified.
+      </p>
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {loading ? (
+        <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+          None of your direct-message contacts have set up encryption yet.
+        </p>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+          {entries.map((entry) => (
+            <li key={entry.userId} className="p-3">
+              <div className="flex items-center justify-between gap-3">
+                <p className="truncate font-medium text-gray-900 dark:text-gray-100">
+                  {entry.displayName}
+                </p>
+                {entry.verified ? (
+                  <span className="flex flex-shrink-0 items-center gap-1 text-xs font-medium text-green-600 dark:text-green-400">
+                    <ShieldCheck className="h-4 w-4" />
+                    Verified
+                  </span>
+                ) : (
+                  entry.keyChanged && (
+                    <span className="flex flex-shrink-0 items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-400">
+                      <ShieldAlert className="h-4 w-4" />
+                      Key changed
+                    </span>
+                  )
+                )}
+              </div>
+
+              <p className="mt-2 font-mono text-sm tracking-wide text-gray-700 dark:text-gray-300">
+                {entry.safetyNumber}
+              </p>
+
+              {entry.keyChanged && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                  {entry.displayName}'s key has changed since you verified it. They may have set up
+                  a new device; compare the new number before trusting it.
+                </p>
+              )}
+
+              <button
+                onClick={() => setVerified(entry, !entry.verified)}
+                className="mt-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {entry.verified ? 'Remove verification' : 'Mark as verified'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SafetyNumberList;
@@ -0,0 +1,119 @@
+import { useRef, useState } from 'react';
+import { BACKGROUND_IMAGES } from '../../lib/backgroundProcessor';
+import type { BackgroundEffect } from '../../types/call';
+
+interface BackgroundEffectMenuProps {
+  effect: BackgroundEffect;
+  onChange: (effect: BackgroundEffect) => void | Promise<void>;
+}
+
+/**
+ * Call control button with a pop-up menu of background effects: off, blur,
+ * the built-in images, or an image from the user's device
+ */
+const BackgroundEffectMenu = ({ effect, onChange }: BackgroundEffectMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (next: BackgroundEffect) => {
+    setIsOpen(false);
+    onChange(next);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    // Only used locally; the processed video is what peers receive
+    select({ type: 'image', imageUrl: URL.createObjectURL(file) });
+  };
+
+  const isSelected = (option: BackgroundEffect) =>
+    option.type === effect.type &&
+    (option.type !== 'image' || (effect.type === 'image' && option.imageUrl === effect.imageUrl));
+
+  const optionClass = (selected: boolean) =>
+    `w-full rounded-md px-3 py-2 text-left text-sm transition-colors ${
+      selected ? 'bg-blue-600 text-white' : 'text-gray-200 hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-3 sm:p-4 rounded-full transition-colors ${
+          effect.type !== 'none'
+            ? 'bg-blue-600 hover:bg-blue-700 text-white'
+            : 'bg-gray-700 hover:bg-gray-600 text-white'
+        }`}
+        title="Background effects"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute bottom-full left-1/2 z-20 mb-2 w-48 -translate-x-1/2 space-y-1 rounded-lg bg-gray-900 p-2 shadow-xl"
+        >
+          <button
+            role="menuitem"
+            onClick={() => select({ type: 'none' })}
+            className={optionClass(effect.type === 'none')}
+          >
+            No effect
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => select({ type: 'blur' })}
+            className={optionClass(effect.type === 'blur')}
+          >
+            Blur background
+          </button>
+          {BACKGROUND_IMAGES.map((image) => {
+            const option: BackgroundEffect = { type: 'image', imageUrl: image.url };
+            return (
+              <button
+                key={image.url}
+                role="menuitem"
+                onClick={() => select(option)}
+                className={`flex items-center gap-2 ${optionClass(isSelected(option))}`}
+              >
+                <img src={image.url} alt="" className="h-6 w-10 rounded object-cover" />
+                {image.name}
+              </button>
+            );
+          })}
+          <button
+            role="menuitem"
+            onClick={() => fileInputRef.current?.click()}
+            className={optionClass(
+              effect.type === 'image' &&
+                !BACKGROUND_IMAGES.some((image) => image.url === effect.imageUrl)
+            )}
+          >
+            Upload image...
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackgroundEffectMenu;
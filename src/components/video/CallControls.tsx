@@ -1,3 +1,6 @@
+import type { BackgroundEffect } from '../../types/call';
+import BackgroundEffectMenu from './BackgroundEffectMenu';
+
 interface CallControlsProps {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
@@ -8,6 +11,11 @@ interface CallControlsProps {
   onToggleScreenShare: () => void | Promise<void>;
   onEndCall: () => void;
   hideVideoControls?: boolean; // Hide video/screen share controls for audio-only calls
+  isRecording?: boolean;
+  isRecordingDisabled?: boolean; // e.g. someone else is already recording
+  onToggleRecording?: () => void | Promise<void>; // Omit to hide the record button
+  backgroundEffect?: BackgroundEffect;
+  onChangeBackgroundEffect?: (effect: BackgroundEffect) => void | Promise<void>; // Omit to hide the background button
 }
 
 const CallControls = ({
@@ -20,6 +28,11 @@ const CallControls = ({
   onToggleScreenShare,
   onEndCall,
   hideVideoControls = false,
+  isRecording = false,
+  isRecordingDisabled = false,
+  onToggleRecording,
+  backgroundEffect = { type: 'none' },
+  onChangeBackgroundEffect,
 }: CallControlsProps) => {
   return (
     <div className="flex items-center justify-center gap-3 sm:gap-4 p-3 sm:p-4 bg-gray-800 rounded-lg">
@@ -115,6 +128,42 @@ const CallControls = ({
         </button>
       )}
 
+      {/* Background Effects — blur or replace the camera background */}
+      {!hideVideoControls && onChangeBackgroundEffect && (
+        <BackgroundEffectMenu effect={backgroundEffect} onChange={onChangeBackgroundEffect} />
+      )}
+
+      {/* Record Toggle */}
+      {onToggleRecording && (
+        <button
+          onClick={onToggleRecording}
+          disabled={isRecordingDisabled && !isRecording}
+          className={`p-3 sm:p-4 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isRecording
+              ? 'bg-red-600 hover:bg-red-700 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-white'
+          }`}
+          title={
+            isRecording
+              ? 'Stop recording'
+              : isRecordingDisabled
+                ? 'Someone else is recording'
+                : 'Record call (everyone is notified)'
+          }
+        >
+          {isRecording ? (
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="7" y="7" width="10" height="10" rx="1" />
+            </svg>
+          ) : (
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="9" strokeWidth={2} />
+              <circle cx="12" cy="12" r="4" fill="currentColor" stroke="none" />
+            </svg>
+          )}
+        </button>
+      )}
+
       {/* End Call */}
       <button
         onClick={onEndCall}
@@ -0,0 +1,77 @@
+import { getCallQuality } from '../../lib/callStats';
+import type { CallQuality, CallStats } from '../../types/call';
+
+interface CallStatsOverlayProps {
+  stats: Record<string, CallStats>; // Keyed by remote user ID
+  getName: (userId: string) => string;
+}
+
+const QUALITY_STYLES: Record<CallQuality, string> = {
+  good: 'bg-green-600',
+  fair: 'bg-yellow-500',
+  poor: 'bg-red-600',
+};
+
+const CANDIDATE_LABELS: Record<string, string> = {
+  host: 'Direct (host)',
+  srflx: 'Direct (STUN)',
+  prflx: 'Direct (peer reflexive)',
+  relay: 'Relayed (TURN)',
+};
+
+/**
+ * Live connection statistics for each remote participant
+ */
+const CallStatsOverlay = ({ stats, getName }: CallStatsOverlayProps) => {
+  const entries = Object.entries(stats);
+
+  return (
+    <div className="absolute left-4 top-20 z-10 w-72 max-h-[60vh] overflow-y-auto rounded-lg bg-black/75 p-3 text-xs text-gray-100 shadow-lg">
+      <p className="mb-2 font-semibold text-white">Connection statistics</p>
+      {entries.length === 0 ? (
+        <p className="text-gray-400">Waiting for a connection...</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(([userId, peerStats]) => {
+            const quality = getCallQuality(peerStats.score);
+
+            return (
+              <div key={userId}>
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <span className="truncate font-medium">{getName(userId)}</span>
+                  <span
+                    className={`rounded px-1.5 py-0.5 font-semibold capitalize text-white ${QUALITY_STYLES[quality]}`}
+                  >
+                    {quality} ({peerStats.score.toFixed(1)})
+                  </span>
+                </div>
+                <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-gray-300">
+                  <dt>Bitrate in / out</dt>
+                  <dd className="text-right">
+                    {peerStats.bitrateIn} / {peerStats.bitrateOut} kbps
+                  </dd>
+                  <dt>Packet loss</dt>
+                  <dd className="text-right">{(peerStats.packetLoss * 100).toFixed(1)}%</dd>
+                  <dt>Jitter</dt>
+                  <dd className="text-right">{peerStats.jitter} ms</dd>
+                  <dt>Round trip</dt>
+                  <dd className="text-right">
+                    {peerStats.rtt !== undefined ? `${peerStats.rtt} ms` : '–'}
+                  </dd>
+                  <dt>Route</dt>
+                  <dd className="text-right">
+                    {peerStats.candidateType
+                      ? CANDIDATE_LABELS[peerStats.candidateType]
+                      : 'Connecting...'}
+                  </dd>
+                </dl>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CallStatsOverlay;
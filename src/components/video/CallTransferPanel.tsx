@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { useRooms } from '../../hooks/useRooms';
+import { useRoomMembers } from '../../hooks/useRoomMembers';
+import type { CallTransferTarget } from '../../context/CallContext';
+
+interface CallTransferPanelProps {
+  excludeIds: string[]; // The people already in the call
+  onTransfer: (target: CallTransferTarget) => void | Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Pick someone from the user's rooms to hand the other party of a 1-on-1 call over to
+ */
+const CallTransferPanel = ({ excludeIds, onTransfer, onClose }: CallTransferPanelProps) => {
+  const { rooms } = useRooms();
+  const [filter, setFilter] = useState('');
+
+  const candidateIds = useMemo(() => {
+    const ids = new Set(rooms.flatMap((room) => room.members));
+    excludeIds.forEach((id) => ids.delete(id));
+    return Array.from(ids);
+  }, [rooms, excludeIds]);
+
+  const { members, loading } = useRoomMembers(candidateIds);
+
+  const visibleMembers = members
+    .filter((member) => member.displayName.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  return (
+    <div className="absolute right-4 top-20 z-10 w-72 rounded-lg bg-white dark:bg-gray-800 p-4 shadow-lg">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="font-semibold text-gray-900 dark:text-white">Transfer call to</p>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          aria-label="Close"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Search people"
+        className="mb-2 block w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none"
+      />
+      <div className="max-h-64 overflow-y-auto">
+        {loading ? (
+          <p className="py-2 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : visibleMembers.length === 0 ? (
+          <p className="py-2 text-sm text-gray-500 dark:text-gray-400">No one to transfer to</p>
+        ) : (
+          visibleMembers.map((member) => (
+            <button
+              key={member.uid}
+              onClick={() =>
+                onTransfer({
+                  userId: member.uid,
+                  name: member.displayName,
+                  avatar: member.photoURL,
+                })
+              }
+              className="flex w-full items-center gap-3 rounded-md px-2 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {member.photoURL ? (
+                <img
+                  src={member.photoURL}
+                  alt={member.displayName}
+                  className="h-8 w-8 rounded-full object-cover"
+                />
+              ) : (
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-500 text-sm font-semibold text-white">
+                  {member.displayName[0]?.toUpperCase()}
+                </div>
+              )}
+              <span className="truncate">{member.displayName}</span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallTransferPanel;
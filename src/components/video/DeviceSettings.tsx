@@ -0,0 +1,89 @@
+import { isAudioOutputSelectionSupported } from '../../lib/mediaDeviceService';
+import type { MediaDeviceList, MediaDevicePreferences, MediaType } from '../../types/call';
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceList;
+  preferences: MediaDevicePreferences;
+  mediaType: MediaType;
+  onSelect: (kind: keyof MediaDevicePreferences, deviceId: string) => void;
+}
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  fallbackLabel: string;
+  devices: MediaDeviceInfo[];
+  value: string | undefined;
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceSelect = ({
+  id,
+  label,
+  fallbackLabel,
+  devices,
+  value,
+  onChange,
+}: DeviceSelectProps) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+      {label}
+    </label>
+    <select
+      id={id}
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 block w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:border-blue-500 focus:outline-none"
+    >
+      <option value="">System default</option>
+      {devices
+        .filter((device) => device.deviceId && device.deviceId !== 'default')
+        .map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${fallbackLabel} ${index + 1}`}
+          </option>
+        ))}
+    </select>
+  </div>
+);
+
+/**
+ * Microphone, camera and speaker pickers, shared by the green room and the
+ * in-call settings panel
+ */
+const DeviceSettings = ({ devices, preferences, mediaType, onSelect }: DeviceSettingsProps) => {
+  return (
+    <div className="space-y-3">
+      <DeviceSelect
+        id="device-microphone"
+        label="Microphone"
+        fallbackLabel="Microphone"
+        devices={devices.audioInputs}
+        value={preferences.audioInputId}
+        onChange={(deviceId) => onSelect('audioInputId', deviceId)}
+      />
+      {mediaType === 'video' && (
+        <DeviceSelect
+          id="device-camera"
+          label="Camera"
+          fallbackLabel="Camera"
+          devices={devices.videoInputs}
+          value={preferences.videoInputId}
+          onChange={(deviceId) => onSelect('videoInputId', deviceId)}
+        />
+      )}
+      {isAudioOutputSelectionSupported() && devices.audioOutputs.length > 0 && (
+        <DeviceSelect
+          id="device-speaker"
+          label="Speaker"
+          fallbackLabel="Speaker"
+          devices={devices.audioOutputs}
+          value={preferences.audioOutputId}
+          onChange={(deviceId) => onSelect('audioOutputId', deviceId)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DeviceSettings;
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { useMediaDevices } from '../../hooks/useMediaDevices';
+import { useMediaPreview } from '../../hooks/useMediaPreview';
+import type { MediaType } from '../../types/call';
+import DeviceSettings from './DeviceSettings';
+
+interface GreenRoomProps {
+  mediaType: MediaType;
+  title: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-join screen: camera preview, microphone level and device pickers. The
+ * parent unmounts it before joining, which releases the preview devices.
+ */
+const GreenRoom = ({ mediaType, title, confirmLabel, onConfirm, onCancel }: GreenRoomProps) => {
+  const { userDoc } = useAuth();
+  const { devices, preferences, error: devicesError, refresh, selectDevice } = useMediaDevices();
+  const {
+    stream,
+    audioLevel,
+    loading,
+    error: previewError,
+  } = useMediaPreview(mediaType, preferences);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+    // Device labels only become available once permission has been granted
+    if (stream) refresh();
+  }, [stream, refresh]);
+
+  const error = previewError || devicesError;
+  const displayName = userDoc?.displayName || 'You';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-800 bg-opacity-30 backdrop-blur-sm p-4">
+      <div
+        role="dialog"
+        aria-label={title}
+        className="w-full max-w-md rounded-lg bg-white dark:bg-gray-800 shadow-xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="border-b dark:border-gray-700 p-4">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{title}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Check your {mediaType === 'video' ? 'camera and microphone' : 'microphone'} before
+            joining
+          </p>
+        </div>
+
+        <div className="space-y-4 p-4">
+          {/* Preview */}
+          <div className="relative aspect-video overflow-hidden rounded-lg bg-gray-900">
+            {mediaType === 'video' && stream ? (
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="h-full w-full object-cover mirror"
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center">
+                {userDoc?.photoURL ? (
+                  <img
+                    src={userDoc.photoURL}
+                    alt={displayName}
+                    className="h-20 w-20 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="flex h-20 w-20 items-center justify-center rounded-full bg-blue-500 text-3xl font-semibold text-white">
+                    {displayName[0].toUpperCase()}
+                  </div>
+                )}
+              </div>
+            )}
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-300">
+                Starting preview...
+              </div>
+            )}
+          </div>
+
+          {/* Microphone level */}
+          <div>
+            <p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">Mic level</p>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+              <div
+                className="h-full bg-green-500 transition-[width] duration-100"
+                style={{ width: `${Math.round(audioLevel * 100)}%` }}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <DeviceSettings
+            devices={devices}
+            preferences={preferences}
+            mediaType={mediaType}
+            onSelect={selectDevice}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 border-t dark:border-gray-700 p-4">
+          <button
+            onClick={onCancel}
+            className="rounded-md px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GreenRoom;
@@ -1,9 +1,20 @@
 import { useCall } from '../../context/CallContext';
 import { useEffect, useState } from 'react';
+import GreenRoom from './GreenRoom';
 
 const IncomingCallModal = () => {
-  const { incomingCalls, acceptCall, rejectCall } = useCall();
+  const {
+    currentCall,
+    heldCall,
+    incomingCalls,
+    acceptCall,
+    acceptWaitingCall,
+    rejectCall,
+    dismissIncomingCall,
+  } = useCall();
   const [timeLeft, setTimeLeft] = useState(60);
+  // ID of the call whose green room is open; accepting happens from there
+  const [previewCallId, setPreviewCallId] = useState<string | null>(null);
 
   // Get the most recent incoming call (if any)
   const call = incomingCalls[0];
@@ -20,9 +31,9 @@ const IncomingCallModal = () => {
       setTimeLeft(remaining);
 
       if (remaining === 0) {
-        console.log('IncomingCallModal - Call timeout, auto-rejecting:', call.id);
-        // Auto-reject when time runs out
-        rejectCall(call.id).catch(console.error);
+        console.log('IncomingCallModal - Call timeout, dismissing:', call.id);
+        // Don't decline: the call timeouts function marks it missed
+        dismissIncomingCall(call.id);
       }
     };
 
@@ -34,7 +45,7 @@ const IncomingCallModal = () => {
       console.log('IncomingCallModal - Cleaning up call:', call.id);
       clearInterval(interval);
     };
-  }, [call, rejectCall]);
+  }, [call, dismissIncomingCall]);
 
   // Early return AFTER all hooks
   if (incomingCalls.length === 0 || !call) {
@@ -44,6 +55,7 @@ const IncomingCallModal = () => {
   console.log('IncomingCallModal - Rendering for call:', call.id, 'Time left:', timeLeft);
 
   const handleAccept = async () => {
+    setPreviewCallId(null);
     try {
       await acceptCall(call.id);
     } catch (error) {
@@ -56,6 +68,24 @@ const IncomingCallModal = () => {
     }
   };
 
+  // Call waiting: the green room is skipped since the devices are already in use
+  const handleAcceptWaiting = async () => {
+    try {
+      await acceptWaitingCall(call.id);
+    } catch (error) {
+      console.error('Failed to accept waiting call:', error);
+      alert(
+        `Failed to accept call: ${error instanceof Error ? error.message : 'The call may have ended'}`
+      );
+    }
+  };
+
+  // Answering while already in a call holds a 1-on-1 call, or leaves a group call
+  const isCallWaiting = !!currentCall;
+  const canAcceptWaiting =
+    !!currentCall &&
+    (currentCall.type === 'group' || (currentCall.status === 'connected' && !heldCall));
+
   const handleReject = async () => {
     try {
       await rejectCall(call.id);
@@ -64,6 +94,18 @@ const IncomingCallModal = () => {
     }
   };
 
+  if (previewCallId === call.id) {
+    return (
+      <GreenRoom
+        mediaType={call.mediaType}
+        title={call.type === 'group' ? `Join ${call.calleeName}` : `Answer ${call.callerName}`}
+        confirmLabel={`Join (${timeLeft}s)`}
+        onConfirm={handleAccept}
+        onCancel={() => setPreviewCallId(null)}
+      />
+    );
+  }
+
   return (
     <div className="fixed top-4 right-4 left-4 sm:left-auto z-50 bg-white dark:bg-gray-800 rounded-lg shadow-2xl p-4 sm:p-6 sm:w-96 animate-bounce-in border-4 border-blue-500 dark:border-blue-600 animate-pulse-border">
       <div className="flex items-start gap-4">
@@ -86,10 +128,22 @@ const IncomingCallModal = () => {
 
         {/* Content */}
         <div className="flex-1">
+          {isCallWaiting && (
+            <p className="text-xs font-semibold uppercase tracking-wide text-blue-600 dark:text-blue-400">
+              Call waiting
+            </p>
+          )}
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{call.callerName}</h3>
           <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-            Incoming {call.mediaType === 'audio' ? 'voice' : 'video'} call...
+            {call.type === 'group'
+              ? `Group ${call.mediaType === 'audio' ? 'voice' : 'video'} call in ${call.calleeName}`
+              : `Incoming ${call.mediaType === 'audio' ? 'voice' : 'video'} call...`}
           </p>
+          {call.transferredBy && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Transferred by {call.transferredBy}
+            </p>
+          )}
 
           {/* Timer */}
           <div className="mt-2 flex items-center gap-2">
@@ -113,8 +167,12 @@ const IncomingCallModal = () => {
           {/* Actions */}
           <div className="flex gap-3 mt-4">
             <button
-              onClick={handleAccept}
-              className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+              onClick={isCallWaiting ? handleAcceptWaiting : () => setPreviewCallId(call.id)}
+              disabled={isCallWaiting && !canAcceptWaiting}
+              title={
+                isCallWaiting && !canAcceptWaiting ? 'Finish your current call first' : undefined
+              }
+              className="flex-1 disabled:opacity-50 disabled:cursor-not-allowed bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -124,7 +182,11 @@ const IncomingCallModal = () => {
                   d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
                 />
               </svg>
-              Accept
+              {!isCallWaiting
+                ? 'Accept'
+                : currentCall?.type === 'group'
+                  ? 'Leave & accept'
+                  : 'Hold & accept'}
             </button>
             <button
               onClick={handleReject}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { applyAudioOutput } from '../../lib/mediaDeviceService';
+
+interface ParticipantTileProps {
+  name: string;
+  avatar?: string;
+  stream: MediaStream | null;
+  isLocal?: boolean; // Muted and mirrored
+  isAudioOnly?: boolean;
+  isVideoEnabled?: boolean; // For the local tile; remote tiles follow their track state
+  isMirrored?: boolean;
+  isReconnecting?: boolean; // The connection dropped and is recovering
+  audioOutputId?: string; // Speaker to play remote audio through
+}
+
+const getInitials = (name: string) => {
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+/**
+ * One participant's video (or avatar) in the group call grid
+ */
+const ParticipantTile = ({
+  name,
+  avatar,
+  stream,
+  isLocal = false,
+  isAudioOnly = false,
+  isVideoEnabled = true,
+  isMirrored = false,
+  isReconnecting = false,
+  audioOutputId,
+}: ParticipantTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isRemoteVideoActive, setIsRemoteVideoActive] = useState(true);
+
+  // Attach stream to video element (with iOS autoplay handling)
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch((err) => {
+        console.debug('Participant video autoplay prevented:', err.name);
+      });
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (videoRef.current && !isLocal) {
+      applyAudioOutput(videoRef.current, audioOutputId);
+    }
+  }, [audioOutputId, isLocal]);
+
+  // Monitor remote video track state
+  useEffect(() => {
+    const videoTrack = stream?.getVideoTracks()[0];
+    if (isLocal || !videoTrack) return;
+
+    const handleMute = () => setIsRemoteVideoActive(false);
+    const handleUnmute = () => setIsRemoteVideoActive(true);
+
+    videoTrack.addEventListener('mute', handleMute);
+    videoTrack.addEventListener('unmute', handleUnmute);
+
+    return () => {
+      videoTrack.removeEventListener('mute', handleMute);
+      videoTrack.removeEventListener('unmute', handleUnmute);
+    };
+  }, [stream, isLocal]);
+
+  const showVideo = !!stream && !isAudioOnly && (isLocal ? isVideoEnabled : isRemoteVideoActive);
+
+  return (
+    <div className="relative flex h-full min-h-0 w-full items-center justify-center overflow-hidden rounded-lg bg-gray-800">
+      {/* Audio still plays while the video element is hidden */}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={isLocal}
+        className={`h-full w-full object-cover ${isMirrored ? 'mirror' : ''} ${showVideo ? '' : 'hidden'}`}
+      />
+      {!showVideo && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white bg-gradient-to-br from-gray-700 to-gray-800">
+          {avatar ? (
+            <img
+              src={avatar}
+              alt={name}
+              className="w-20 h-20 rounded-full object-cover border-2 border-gray-600"
+            />
+          ) : (
+            <div className="w-20 h-20 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-2xl font-bold border-2 border-gray-600">
+              {getInitials(name) || '?'}
+            </div>
+          )}
+          {!stream && !isLocal && <p className="mt-3 text-sm text-gray-300">Connecting...</p>}
+        </div>
+      )}
+      {isReconnecting && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+          <p className="text-sm font-medium text-white">Reconnecting...</p>
+        </div>
+      )}
+      <span className="absolute bottom-2 left-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">
+        {isLocal ? `${name} (You)` : name}
+      </span>
+    </div>
+  );
+};
+
+export default ParticipantTile;
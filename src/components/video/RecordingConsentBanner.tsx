@@ -0,0 +1,50 @@
+interface RecordingConsentBannerProps {
+  recorderName: string;
+  onAllow: () => void;
+  onLeave: () => void;
+}
+
+/**
+ * Asks a participant to allow someone to record the call, or leave it.
+ * Nothing is recorded until everyone in the call has allowed it.
+ */
+const RecordingConsentBanner = ({
+  recorderName,
+  onAllow,
+  onLeave,
+}: RecordingConsentBannerProps) => {
+  return (
+    <div
+      role="alertdialog"
+      aria-label="Recording request"
+      className="absolute left-1/2 top-20 z-20 w-[calc(100%-2rem)] max-w-md -translate-x-1/2 rounded-lg bg-gray-800 p-4 text-white shadow-xl border border-red-500"
+    >
+      <div className="flex items-start gap-3">
+        <span className="mt-1.5 h-3 w-3 flex-shrink-0 rounded-full bg-red-500 animate-pulse" />
+        <div className="min-w-0 flex-1">
+          <p className="font-semibold">{recorderName} wants to record this call</p>
+          <p className="mt-1 text-sm text-gray-300">
+            Your audio and video are only recorded once you allow it. Leave the call if you don't
+            want to be recorded.
+          </p>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              onClick={onLeave}
+              className="rounded-md px-3 py-1.5 text-sm font-medium text-gray-200 hover:bg-gray-700"
+            >
+              Leave call
+            </button>
+            <button
+              onClick={onAllow}
+              className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Allow recording
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingConsentBanner;
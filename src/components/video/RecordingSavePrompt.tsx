@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useCall } from '../../context/CallContext';
+import { useAuth } from '../../hooks/useAuth';
+import { sendMessage } from '../../lib/messageService';
+import { formatFileSize, uploadFile } from '../../lib/uploadService';
+
+/**
+ * Offers a finished call recording for download, or for sharing as a file
+ * message in the call's room. Lives outside the call UI so it outlasts the call.
+ */
+const RecordingSavePrompt = () => {
+  const { finishedRecording, dismissFinishedRecording } = useCall();
+  const { currentUser, userDoc } = useAuth();
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!finishedRecording || !currentUser) return null;
+
+  const { file, roomId } = finishedRecording;
+  const isUploading = progress !== null;
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleShare = async () => {
+    try {
+      setError(null);
+      setProgress(0);
+      const downloadURL = await uploadFile(
+        file,
+        roomId,
+        (update) => setProgress(update.progress),
+        'recordings'
+      );
+
+      const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+      await sendMessage(
+        roomId,
+        currentUser.uid,
+        userName,
+        { content: downloadURL, type: 'file' },
+        userDoc?.photoURL
+      );
+
+      setProgress(null);
+      dismissFinishedRecording();
+    } catch (err) {
+      console.error('Error sharing recording:', err);
+      setProgress(null);
+      setError('Failed to upload the recording. You can still download it.');
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this recording? It has not been saved anywhere else.')) return;
+    setError(null);
+    dismissFinishedRecording();
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 left-4 sm:left-auto z-[60] sm:w-96 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 shadow-2xl">
+      <p className="font-semibold text-gray-900 dark:text-white">Call recording ready</p>
+      <p className="mt-1 truncate text-sm text-gray-500 dark:text-gray-400">
+        {file.name} • {formatFileSize(file.size)}
+      </p>
+
+      {isUploading && (
+        <div className="mt-3 h-1.5 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={handleDiscard}
+          disabled={isUploading}
+          className="rounded-md px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          onClick={handleDownload}
+          className="rounded-md bg-gray-200 dark:bg-gray-700 px-3 py-1.5 text-sm font-medium text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600"
+        >
+          Download
+        </button>
+        <button
+          onClick={handleShare}
+          disabled={isUploading}
+          className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isUploading ? `Uploading ${Math.round(progress ?? 0)}%` : 'Share in chat'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingSavePrompt;
@@ -2,7 +2,19 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useCall } from '../../context/CallContext';
 import { useAuth } from '../../hooks/useAuth';
 import { useVideoCall } from '../../hooks/useVideoCall';
+import { useCallRecording } from '../../hooks/useCallRecording';
+import { useMediaDevices } from '../../hooks/useMediaDevices';
+import { applyAudioOutput } from '../../lib/mediaDeviceService';
+import { consentToCallRecording } from '../../lib/callService';
+import type { BackgroundEffect, MediaDevicePreferences } from '../../types/call';
+import { Activity, Pause, PhoneForwarded, Play, Settings } from 'lucide-react';
 import CallControls from './CallControls';
+import CallStatsOverlay from './CallStatsOverlay';
+import CallTransferPanel from './CallTransferPanel';
+import DeviceSettings from './DeviceSettings';
+import type { CallTransferTarget } from '../../context/CallContext';
+import ParticipantTile from './ParticipantTile';
+import RecordingConsentBanner from './RecordingConsentBanner';
 
 interface VideoCallModalProps {
   callId: string;
@@ -13,12 +25,26 @@ interface VideoCallModalProps {
 const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) => {
   console.log('VideoCallModal - Rendering with:', { callId, isInitiator });
   const { currentUser } = useAuth();
-  const { currentCall, endCall } = useCall();
+  const {
+    currentCall: activeCall,
+    heldCall,
+    endCall,
+    holdCall,
+    resumeCall,
+    transferCall,
+    reportCallQuality,
+    reportFinishedRecording,
+  } = useCall();
+  // This modal may belong to the call the user has put on hold; it then stays
+  // mounted (keeping the connection) behind a small "on hold" bar
+  const isHeldByMe = heldCall?.id === callId;
+  const currentCall = isHeldByMe ? heldCall : activeCall;
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const [isRemoteVideoActive, setIsRemoteVideoActive] = useState(true);
 
   const isAudioOnly = currentCall?.mediaType === 'audio';
+  const isGroupCall = currentCall?.type === 'group';
   console.log(
     'VideoCallModal - Current call status:',
     currentCall?.status,
@@ -27,30 +53,50 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
   );
 
   const [screenShareError, setScreenShareError] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [callActionError, setCallActionError] = useState<string | null>(null);
+
+  // On hold from either side: media is paused both ways
+  const isOnHold = !!currentCall && currentCall.heldBy.length > 0;
+  const isHeldByOther =
+    !!currentCall && currentCall.heldBy.some((userId) => userId !== currentUser?.uid);
+  const canHoldOrTransfer =
+    !isGroupCall && currentCall?.status === 'connected' && !currentCall.transfer;
 
   const {
     localStream,
     remoteStream,
+    remoteStreams,
     isAudioEnabled,
     isVideoEnabled,
     isScreenSharing,
     isScreenSharingSupported,
+    callStats,
+    qualityReport,
+    reconnectingPeerIds,
     toggleAudio,
     toggleVideo,
     toggleScreenShare,
+    switchDevice,
+    backgroundEffect,
+    isBackgroundEffectSupported,
+    setBackgroundEffect,
     startCall,
     endCall: endVideoCall,
   } = useVideoCall({
     callId,
     userId: currentUser?.uid || '',
-    isInitiator,
     mediaType: currentCall?.mediaType || 'video',
+    isOnHold,
     onCallEnded: async () => {
       // Called when the WebRTC connection fails externally (e.g. remote peer dropped).
       // endVideoCall() cleans up tracks/PC; endCall() updates Firestore; onClose() closes UI.
       endVideoCall();
       try {
-        await endCall();
+        await endCall(callId);
       } catch (err) {
         console.error('Failed to end call in Firestore:', err);
       }
@@ -58,6 +104,43 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
     },
   });
 
+  const {
+    isRecording,
+    isAwaitingConsent: isAwaitingRecordingConsent,
+    duration: recordingDuration,
+    error: recordingError,
+    startRecording,
+    stopRecording,
+  } = useCallRecording({
+    callId,
+    roomId: currentCall?.roomId,
+    localStream,
+    remoteStreams,
+    mediaType: currentCall?.mediaType || 'video',
+    recording: currentCall?.recording,
+    participantIds: currentCall?.participants || [],
+    onRecordingFinished: reportFinishedRecording,
+  });
+
+  const { devices, preferences: devicePreferences, selectDevice } = useMediaDevices();
+
+  // Someone else recording the call (ignored once they've left)
+  const otherRecording =
+    currentCall?.recording &&
+    currentCall.recording.userId !== currentUser?.uid &&
+    currentCall.participants.includes(currentCall.recording.userId)
+      ? currentCall.recording
+      : null;
+  const hasConsentedToRecording =
+    !!otherRecording && !!currentUser && otherRecording.consentedIds.includes(currentUser.uid);
+
+  // Keep the call's quality summary up to date for its call log
+  useEffect(() => {
+    if (qualityReport) {
+      reportCallQuality(callId, qualityReport);
+    }
+  }, [callId, qualityReport, reportCallQuality]);
+
   // Wrapper to catch screen share errors and show user feedback
   const handleToggleScreenShare = useCallback(async () => {
     try {
@@ -71,6 +154,47 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
     }
   }, [toggleScreenShare]);
 
+  // Switch devices mid-call; the choice is remembered for the next call too
+  const handleSelectDevice = useCallback(
+    async (kind: keyof MediaDevicePreferences, deviceId: string) => {
+      selectDevice(kind, deviceId);
+      // Speaker changes are applied to the media elements below
+      if (kind === 'audioOutputId') return;
+
+      try {
+        setDeviceError(null);
+        await switchDevice(kind === 'audioInputId' ? 'audioinput' : 'videoinput', deviceId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to switch device';
+        setDeviceError(message);
+        setTimeout(() => setDeviceError(null), 4000);
+      }
+    },
+    [selectDevice, switchDevice]
+  );
+
+  const handleChangeBackgroundEffect = useCallback(
+    async (effect: BackgroundEffect) => {
+      try {
+        setDeviceError(null);
+        await setBackgroundEffect(effect);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Failed to apply background effect';
+        setDeviceError(message);
+        setTimeout(() => setDeviceError(null), 4000);
+      }
+    },
+    [setBackgroundEffect]
+  );
+
+  // Play the remote audio through the chosen speaker
+  useEffect(() => {
+    if (remoteVideoRef.current) {
+      applyAudioOutput(remoteVideoRef.current, devicePreferences.audioOutputId);
+    }
+  }, [devicePreferences.audioOutputId]);
+
   // Attach local stream to video element (with iOS autoplay handling)
   useEffect(() => {
     if (localVideoRef.current && localStream) {
@@ -120,27 +244,57 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
     }
   }, [remoteStream]);
 
-  // Start call if initiator (only once when status becomes ringing)
+  // Acquire media once the modal opens (the caller while ringing, everyone else on joining);
+  // peer connections are set up as participants join
   useEffect(() => {
-    if (isInitiator && currentCall?.status === 'ringing') {
-      console.log('VideoCallModal - Initiator starting call');
-      startCall().catch(async (error) => {
-        console.error('Failed to start call:', error);
-        // Bug 6 fix: end the call in Firestore to prevent zombie 'ringing' state
-        try {
-          await endCall();
-        } catch {
-          // Ignore cleanup errors
-        }
-      });
-    }
+    console.log('VideoCallModal - Starting call media');
+    startCall().catch(async (error) => {
+      console.error('Failed to start call:', error);
+      // Bug 6 fix: end the call in Firestore to prevent zombie 'ringing' state
+      try {
+        await endCall(callId);
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isInitiator, currentCall?.status]); // Don't include startCall to prevent multiple calls
+  }, [callId]); // Don't include startCall to prevent multiple calls
+
+  const handleToggleRecording = async () => {
+    if (isRecording || isAwaitingRecordingConsent) {
+      await stopRecording();
+    } else {
+      await startRecording();
+    }
+  };
+
+  const formatRecordingDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // Hold, resume and transfer errors share one toast
+  const runCallAction = async (action: () => Promise<void>) => {
+    try {
+      setCallActionError(null);
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Something went wrong';
+      setCallActionError(message);
+      setTimeout(() => setCallActionError(null), 4000);
+    }
+  };
+
+  const handleTransfer = (target: CallTransferTarget) => {
+    setShowTransfer(false);
+    runCallAction(() => transferCall(target));
+  };
 
   const handleEndCall = async () => {
     console.log('VideoCallModal - User clicked end call');
     endVideoCall();
-    await endCall();
+    await endCall(callId);
     onClose();
   };
 
@@ -153,11 +307,19 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
       case 'ringing':
         return isInitiator ? `Calling...` : `Incoming ${callType}...`;
       case 'connected':
-        return 'Connected';
+        if (currentCall.transfer) return `Transferring to ${currentCall.transfer.targetName}...`;
+        if (isOnHold) return 'On hold';
+        if (isGroupCall) {
+          const count = `${currentCall.participants.length} in call`;
+          return reconnectingPeerIds.length > 0 ? `${count} • Reconnecting...` : count;
+        }
+        return reconnectingPeerIds.length > 0 ? 'Reconnecting...' : 'Connected';
       case 'ended':
         return 'Call ended';
       case 'rejected':
         return 'Call rejected';
+      case 'missed':
+        return 'No answer';
       default:
         return 'Connecting...';
     }
@@ -165,11 +327,16 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
 
   const getParticipantName = () => {
     if (!currentCall || !currentUser) return '';
+    // Group calls are named after the room
+    if (isGroupCall) return currentCall.calleeName;
     return currentCall.callerId === currentUser.uid
       ? currentCall.calleeName
       : currentCall.callerName;
   };
 
+  const getStatsParticipantName = (userId: string) =>
+    currentCall?.participantDetails[userId]?.name || getParticipantName();
+
   const getParticipantAvatar = () => {
     if (!currentCall || !currentUser) return undefined;
     return currentCall.callerId === currentUser.uid
@@ -194,155 +361,371 @@ const VideoCallModal = ({ callId, isInitiator, onClose }: VideoCallModalProps) =
   };
 
   return (
-    <div className="fixed inset-0 bg-gray-900 bg-opacity-90 z-50 flex items-center justify-center">
-      <div className="w-full h-full flex flex-col">
-        {/* Header */}
-        <div className="p-4 bg-gray-900 text-white flex items-center justify-between">
-          <div>
-            <h2 className="text-xl font-semibold">{getParticipantName()}</h2>
-            <p className="text-sm text-gray-400">{getCallStatusText()}</p>
+    <>
+      {/* Held by this user: the call stays connected (media paused) until resumed */}
+      {isHeldByMe && (
+        <div className="fixed bottom-4 left-4 z-40 flex items-center gap-3 rounded-lg bg-gray-900 px-4 py-3 text-white shadow-2xl">
+          <Pause className="h-5 w-5 text-yellow-400" />
+          <div className="min-w-0">
+            <p className="truncate text-sm font-semibold">{getParticipantName()}</p>
+            <p className="text-xs text-gray-400">On hold</p>
           </div>
+          <button
+            onClick={() => runCallAction(resumeCall)}
+            className="flex items-center gap-1 rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium hover:bg-green-700"
+          >
+            <Play className="h-4 w-4" />
+            Resume
+          </button>
           <button
             onClick={handleEndCall}
-            className="text-gray-400 hover:text-white transition-colors"
+            className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium hover:bg-red-700"
           >
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
+            End
           </button>
+          {callActionError && <p className="text-xs text-red-400">{callActionError}</p>}
         </div>
+      )}
+
+      <div
+        className={`fixed inset-0 bg-gray-900 bg-opacity-90 z-50 flex items-center justify-center ${
+          isHeldByMe ? 'hidden' : ''
+        }`}
+      >
+        <div className="w-full h-full flex flex-col">
+          {/* Header */}
+          <div className="p-4 bg-gray-900 text-white flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold">{getParticipantName()}</h2>
+              <p className="text-sm text-gray-400">{getCallStatusText()}</p>
+            </div>
+            {(isRecording || isAwaitingRecordingConsent || hasConsentedToRecording) && (
+              <div className="flex items-center gap-2 rounded-full bg-red-600/20 px-3 py-1 text-sm text-red-300">
+                <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                {isRecording
+                  ? `Recording ${formatRecordingDuration(recordingDuration)}`
+                  : isAwaitingRecordingConsent
+                    ? 'Waiting for everyone to allow recording'
+                    : `${otherRecording?.userName} is recording`}
+              </div>
+            )}
+            <div className="flex items-center gap-4">
+              {canHoldOrTransfer && (
+                <>
+                  <button
+                    onClick={() => runCallAction(holdCall)}
+                    disabled={isHeldByOther}
+                    className="text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={
+                      isHeldByOther ? 'The other person has put the call on hold' : 'Hold call'
+                    }
+                    aria-label="Hold call"
+                  >
+                    <Pause className="w-6 h-6" />
+                  </button>
+                  <button
+                    onClick={() => setShowTransfer(!showTransfer)}
+                    className={`transition-colors ${showTransfer ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                    title="Transfer call"
+                    aria-label="Transfer call"
+                    aria-pressed={showTransfer}
+                  >
+                    <PhoneForwarded className="w-6 h-6" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => setShowDeviceSettings(!showDeviceSettings)}
+                className={`transition-colors ${showDeviceSettings ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                title={
+                  showDeviceSettings
+                    ? 'Hide device settings'
+                    : 'Choose microphone, camera and speaker'
+                }
+                aria-label="Device settings"
+                aria-pressed={showDeviceSettings}
+              >
+                <Settings className="w-6 h-6" />
+              </button>
+              <button
+                onClick={() => setShowStats(!showStats)}
+                className={`transition-colors ${showStats ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                title={showStats ? 'Hide connection statistics' : 'Show connection statistics'}
+                aria-label="Connection statistics"
+                aria-pressed={showStats}
+              >
+                <Activity className="w-6 h-6" />
+              </button>
+              <button
+                onClick={handleEndCall}
+                className="text-gray-400 hover:text-white transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {/* Consent prompt when someone else asks to record */}
+          {otherRecording && !hasConsentedToRecording && currentUser && (
+            <RecordingConsentBanner
+              recorderName={otherRecording.userName}
+              onAllow={() => runCallAction(() => consentToCallRecording(callId, currentUser.uid))}
+              onLeave={handleEndCall}
+            />
+          )}
+
+          {/* Connection statistics */}
+          {showStats && <CallStatsOverlay stats={callStats} getName={getStatsParticipantName} />}
 
-        {/* Video Area */}
-        <div className="flex-1 relative bg-gray-900">
-          {/* Remote Video (main) */}
-          <div className="w-full h-full flex items-center justify-center relative">
-            <video
-              ref={remoteVideoRef}
-              autoPlay
-              playsInline
-              className={`w-full h-full object-contain ${!remoteStream || !isRemoteVideoActive || isAudioOnly ? 'hidden' : ''}`}
+          {/* Transfer target picker */}
+          {showTransfer && canHoldOrTransfer && currentCall && (
+            <CallTransferPanel
+              excludeIds={currentCall.invitedIds}
+              onTransfer={handleTransfer}
+              onClose={() => setShowTransfer(false)}
             />
-            {(!remoteStream || !isRemoteVideoActive || isAudioOnly) && (
-              <div className="absolute inset-0 flex flex-col items-center justify-center text-white bg-gradient-to-br from-gray-800 to-gray-900">
-                {getParticipantAvatar() ? (
-                  <img
-                    src={getParticipantAvatar()}
-                    alt={getParticipantName()}
-                    className="w-32 h-32 rounded-full mb-4 object-cover border-4 border-gray-700"
+          )}
+
+          {/* Device settings */}
+          {showDeviceSettings && (
+            <div className="absolute right-4 top-20 z-10 w-72 rounded-lg bg-white dark:bg-gray-800 p-4 shadow-lg">
+              <DeviceSettings
+                devices={devices}
+                preferences={devicePreferences}
+                mediaType={currentCall?.mediaType || 'video'}
+                onSelect={handleSelectDevice}
+              />
+            </div>
+          )}
+
+          {/* Group Call Grid */}
+          {isGroupCall && currentCall && currentUser && (
+            <div
+              className={`flex-1 min-h-0 grid gap-2 p-2 bg-gray-900 auto-rows-fr ${
+                currentCall.participants.length <= 1
+                  ? 'grid-cols-1'
+                  : currentCall.participants.length <= 4
+                    ? 'grid-cols-1 sm:grid-cols-2'
+                    : 'grid-cols-2 lg:grid-cols-3'
+              }`}
+            >
+              <ParticipantTile
+                name={currentCall.participantDetails[currentUser.uid]?.name || 'You'}
+                avatar={currentCall.participantDetails[currentUser.uid]?.avatar}
+                stream={localStream}
+                isLocal
+                isAudioOnly={isAudioOnly}
+                isVideoEnabled={isVideoEnabled}
+                isMirrored={!isScreenSharing}
+              />
+              {currentCall.participants
+                .filter((participantId) => participantId !== currentUser.uid)
+                .map((participantId) => (
+                  <ParticipantTile
+                    key={participantId}
+                    name={currentCall.participantDetails[participantId]?.name || 'Participant'}
+                    avatar={currentCall.participantDetails[participantId]?.avatar}
+                    stream={remoteStreams[participantId] || null}
+                    isAudioOnly={isAudioOnly}
+                    isReconnecting={reconnectingPeerIds.includes(participantId)}
+                    audioOutputId={devicePreferences.audioOutputId}
                   />
-                ) : (
-                  <div className="w-32 h-32 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center mb-4 text-4xl font-bold border-4 border-gray-700">
-                    {getInitials(getParticipantName())}
+                ))}
+            </div>
+          )}
+
+          {/* Video Area */}
+          {!isGroupCall && (
+            <div className="flex-1 relative bg-gray-900">
+              {/* Remote Video (main) */}
+              <div className="w-full h-full flex items-center justify-center relative">
+                <video
+                  ref={remoteVideoRef}
+                  autoPlay
+                  playsInline
+                  className={`w-full h-full object-contain ${!remoteStream || !isRemoteVideoActive || isAudioOnly ? 'hidden' : ''}`}
+                />
+                {(!remoteStream || !isRemoteVideoActive || isAudioOnly) && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center text-white bg-gradient-to-br from-gray-800 to-gray-900">
+                    {getParticipantAvatar() ? (
+                      <img
+                        src={getParticipantAvatar()}
+                        alt={getParticipantName()}
+                        className="w-32 h-32 rounded-full mb-4 object-cover border-4 border-gray-700"
+                      />
+                    ) : (
+                      <div className="w-32 h-32 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center mb-4 text-4xl font-bold border-4 border-gray-700">
+                        {getInitials(getParticipantName())}
+                      </div>
+                    )}
+                    <p className="text-lg">
+                      {!remoteStream
+                        ? `Waiting for ${getParticipantName()}...`
+                        : isAudioOnly
+                          ? `Audio call with ${getParticipantName()}`
+                          : `${getParticipantName()}'s camera is off`}
+                    </p>
+                  </div>
+                )}
+
+                {/* Put on hold by the other person */}
+                {isHeldByOther && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-white">
+                    <Pause className="mb-3 h-10 w-10 text-yellow-400" />
+                    <p className="text-lg font-semibold">On hold</p>
+                    <p className="text-sm text-gray-300">
+                      {getParticipantName()} will be back shortly
+                    </p>
+                  </div>
+                )}
+
+                {/* Transfer in progress */}
+                {currentCall?.transfer && (
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 rounded-full bg-blue-600/90 px-4 py-2 text-sm font-medium text-white shadow-lg">
+                    {currentCall.transfer.requestedBy === currentUser?.uid
+                      ? `Transferring ${getParticipantName()} to ${currentCall.transfer.targetName}...`
+                      : `${currentCall.transfer.requestedByName} is transferring you to ${currentCall.transfer.targetName}...`}
+                  </div>
+                )}
+
+                {/* Connection dropped; media resumes if it recovers within the grace period */}
+                {reconnectingPeerIds.length > 0 && (
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-full bg-yellow-500/90 px-4 py-2 text-sm font-medium text-gray-900 shadow-lg">
+                    <span className="h-2 w-2 rounded-full bg-gray-900 animate-pulse" />
+                    Reconnecting...
                   </div>
                 )}
-                <p className="text-lg">
-                  {!remoteStream
-                    ? `Waiting for ${getParticipantName()}...`
-                    : isAudioOnly
-                      ? `Audio call with ${getParticipantName()}`
-                      : `${getParticipantName()}'s camera is off`}
-                </p>
               </div>
-            )}
-          </div>
 
-          {/* Local Video (picture-in-picture) - responsive for mobile */}
-          <div className="absolute top-4 right-4 w-32 h-24 sm:w-48 sm:h-36 md:w-64 md:h-48 bg-gray-800 rounded-lg overflow-hidden shadow-lg">
-            <div className="relative w-full h-full">
-              <video
-                ref={localVideoRef}
-                autoPlay
-                playsInline
-                muted
-                className={`w-full h-full object-cover ${!isScreenSharing ? 'mirror' : ''} ${!localStream || !isVideoEnabled || isAudioOnly ? 'hidden' : ''}`}
-              />
-              {(!localStream || !isVideoEnabled || isAudioOnly) && (
-                <div className="absolute inset-0 flex items-center justify-center text-white bg-gradient-to-br from-gray-700 to-gray-800">
-                  {getCurrentUserAvatar() ? (
-                    <img
-                      src={getCurrentUserAvatar()}
-                      alt="You"
-                      className="w-20 h-20 rounded-full object-cover border-2 border-gray-600"
-                    />
-                  ) : (
-                    <div className="w-20 h-20 rounded-full bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center text-2xl font-bold border-2 border-gray-600">
-                      {currentUser?.displayName ? getInitials(currentUser.displayName) : 'ME'}
+              {/* Local Video (picture-in-picture) - responsive for mobile */}
+              <div className="absolute top-4 right-4 w-32 h-24 sm:w-48 sm:h-36 md:w-64 md:h-48 bg-gray-800 rounded-lg overflow-hidden shadow-lg">
+                <div className="relative w-full h-full">
+                  <video
+                    ref={localVideoRef}
+                    autoPlay
+                    playsInline
+                    muted
+                    className={`w-full h-full object-cover ${!isScreenSharing ? 'mirror' : ''} ${!localStream || !isVideoEnabled || isAudioOnly ? 'hidden' : ''}`}
+                  />
+                  {(!localStream || !isVideoEnabled || isAudioOnly) && (
+                    <div className="absolute inset-0 flex items-center justify-center text-white bg-gradient-to-br from-gray-700 to-gray-800">
+                      {getCurrentUserAvatar() ? (
+                        <img
+                          src={getCurrentUserAvatar()}
+                          alt="You"
+                          className="w-20 h-20 rounded-full object-cover border-2 border-gray-600"
+                        />
+                      ) : (
+                        <div className="w-20 h-20 rounded-full bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center text-2xl font-bold border-2 border-gray-600">
+                          {currentUser?.displayName ? getInitials(currentUser.displayName) : 'ME'}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
-              )}
-            </div>
 
-            {/* Status indicators */}
-            <div className="absolute bottom-2 left-2 flex gap-2">
-              {!isAudioEnabled && (
-                <div className="bg-red-600 rounded-full p-1">
-                  <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path
-                      fillRule="evenodd"
-                      d="M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                </div>
-              )}
-              {!isVideoEnabled && (
-                <div className="bg-red-600 rounded-full p-1">
-                  <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path
-                      fillRule="evenodd"
-                      d="M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                </div>
-              )}
-              {isScreenSharing && (
-                <div className="bg-blue-600 rounded-full p-1">
-                  <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path d="M2 6a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
-                  </svg>
+                {/* Status indicators */}
+                <div className="absolute bottom-2 left-2 flex gap-2">
+                  {!isAudioEnabled && (
+                    <div className="bg-red-600 rounded-full p-1">
+                      <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
+                        <path
+                          fillRule="evenodd"
+                          d="M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z"
+                          clipRule="evenodd"
+                        />
+                      </svg>
+                    </div>
+                  )}
+                  {!isVideoEnabled && (
+                    <div className="bg-red-600 rounded-full p-1">
+                      <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
+                        <path
+                          fillRule="evenodd"
+                          d="M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z"
+                          clipRule="evenodd"
+                        />
+                      </svg>
+                    </div>
+                  )}
+                  {isScreenSharing && (
+                    <div className="bg-blue-600 rounded-full p-1">
+                      <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
+                        <path d="M2 6a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+                      </svg>
+                    </div>
+                  )}
                 </div>
-              )}
+              </div>
             </div>
-          </div>
-        </div>
+          )}
+
+          {/* Screen share error toast */}
+          {screenShareError && (
+            <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-sm z-10 animate-fade-in">
+              {screenShareError}
+            </div>
+          )}
 
-        {/* Screen share error toast */}
-        {screenShareError && (
-          <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-sm z-10 animate-fade-in">
-            {screenShareError}
+          {/* Hold / transfer error toast */}
+          {callActionError && !isHeldByMe && (
+            <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-sm z-10 animate-fade-in">
+              {callActionError}
+            </div>
+          )}
+
+          {/* Device switch / background effect error toast */}
+          {deviceError && (
+            <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-sm z-10 animate-fade-in">
+              {deviceError}
+            </div>
+          )}
+
+          {/* Recording error toast */}
+          {recordingError && (
+            <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-sm z-10 animate-fade-in">
+              {recordingError}
+            </div>
+          )}
+
+          {/* Controls */}
+          <div className="p-4 sm:p-6 bg-gray-900">
+            <CallControls
+              isAudioEnabled={isAudioEnabled}
+              isVideoEnabled={isVideoEnabled}
+              isScreenSharing={isScreenSharing}
+              isScreenSharingSupported={isScreenSharingSupported}
+              onToggleAudio={toggleAudio}
+              onToggleVideo={toggleVideo}
+              onToggleScreenShare={handleToggleScreenShare}
+              onEndCall={handleEndCall}
+              hideVideoControls={isAudioOnly}
+              isRecording={isRecording || isAwaitingRecordingConsent}
+              isRecordingDisabled={!!otherRecording || currentCall?.status !== 'connected'}
+              onToggleRecording={handleToggleRecording}
+              backgroundEffect={backgroundEffect}
+              onChangeBackgroundEffect={
+                isBackgroundEffectSupported ? handleChangeBackgroundEffect : undefined
+              }
+            />
           </div>
-        )}
-
-        {/* Controls */}
-        <div className="p-4 sm:p-6 bg-gray-900">
-          <CallControls
-            isAudioEnabled={isAudioEnabled}
-            isVideoEnabled={isVideoEnabled}
-            isScreenSharing={isScreenSharing}
-            isScreenSharingSupported={isScreenSharingSupported}
-            onToggleAudio={toggleAudio}
-            onToggleVideo={toggleVideo}
-            onToggleScreenShare={handleToggleScreenShare}
-            onEndCall={handleEndCall}
-            hideVideoControls={isAudioOnly}
-          />
         </div>
-      </div>
 
-      {/* CSS for mirror effect on local video */}
-      <style>{`
+        {/* CSS for mirror effect on local video */}
+        <style>{`
         .mirror {
           transform: scaleX(-1);
         }
       `}</style>
-    </div>
+      </div>
+    </>
   );
 };
 
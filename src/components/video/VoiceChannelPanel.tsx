@@ -0,0 +1,183 @@
+import { useEffect, useRef } from 'react';
+import { Headphones, HeadphoneOff, Mic, MicOff, PhoneOff } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useVoiceChannel } from '../../hooks/useVoiceChannel';
+import { useMediaDevices } from '../../hooks/useMediaDevices';
+import { applyAudioOutput } from '../../lib/mediaDeviceService';
+
+interface VoiceChannelPanelProps {
+  roomId: string;
+}
+
+interface RemoteAudioProps {
+  stream: MediaStream;
+  muted: boolean;
+  audioOutputId?: string;
+}
+
+/**
+ * Plays one remote participant's audio
+ */
+const RemoteAudio = ({ stream, muted, audioOutputId }: RemoteAudioProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream;
+      audioRef.current.play().catch((err) => {
+        console.debug('Voice channel audio autoplay prevented:', err.name);
+      });
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      applyAudioOutput(audioRef.current, audioOutputId);
+    }
+  }, [audioOutputId]);
+
+  return <audio ref={audioRef} autoPlay muted={muted} />;
+};
+
+/**
+ * Voice channel bar at the top of a voice room. Opening the room connects the
+ * user's microphone; there is no ringing.
+ */
+const VoiceChannelPanel = ({ roomId }: VoiceChannelPanelProps) => {
+  const { currentUser } = useAuth();
+  const { preferences } = useMediaDevices();
+  const {
+    participants,
+    remoteStreams,
+    error,
+    isConnected,
+    isConnecting,
+    isMuted,
+    isDeafened,
+    join,
+    leave,
+    toggleMute,
+    toggleDeafen,
+  } = useVoiceChannel(roomId);
+
+  const controlClassName =
+    'rounded-full p-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="border-b dark:border-gray-700 bg-green-50 dark:bg-green-900/20 px-4 py-3 transition-colors">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">
+            {isConnected
+              ? 'Voice connected'
+              : isConnecting
+                ? 'Connecting to voice...'
+                : 'Not connected to voice'}
+          </p>
+          <p className="text-xs text-green-700 dark:text-green-300">
+            {participants.length === 0
+              ? 'Nobody is in the channel'
+              : `${participants.length} in the channel`}
+          </p>
+        </div>
+
+        {isConnected || isConnecting ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={toggleMute}
+              disabled={!isConnected}
+              className={`${controlClassName} ${
+                isMuted
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+              }`}
+              title={isMuted ? 'Unmute' : 'Mute'}
+              aria-label={isMuted ? 'Unmute' : 'Mute'}
+            >
+              {isMuted ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+            </button>
+            <button
+              onClick={toggleDeafen}
+              disabled={!isConnected}
+              className={`${controlClassName} ${
+                isDeafened
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+              }`}
+              title={isDeafened ? 'Undeafen' : 'Deafen'}
+              aria-label={isDeafened ? 'Undeafen' : 'Deafen'}
+            >
+              {isDeafened ? (
+                <HeadphoneOff className="h-5 w-5" />
+              ) : (
+                <Headphones className="h-5 w-5" />
+              )}
+            </button>
+            <button
+              onClick={leave}
+              className={`${controlClassName} bg-red-600 text-white hover:bg-red-700`}
+              title="Disconnect"
+              aria-label="Disconnect from voice"
+            >
+              <PhoneOff className="h-5 w-5" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={join}
+            className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
+          >
+            Join voice
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {participants.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-3">
+          {participants.map((participant) => (
+            <div key={participant.userId} className="flex w-16 flex-col items-center text-center">
+              <div className="relative">
+                {participant.avatar ? (
+                  <img
+                    src={participant.avatar}
+                    alt={participant.name}
+                    className="h-10 w-10 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-green-600 font-semibold text-white">
+                    {participant.name[0]?.toUpperCase() || '?'}
+                  </div>
+                )}
+                {(participant.isMuted || participant.isDeafened) && (
+                  <span className="absolute -bottom-1 -right-1 rounded-full bg-red-600 p-0.5 text-white">
+                    {participant.isDeafened ? (
+                      <HeadphoneOff className="h-3 w-3" aria-label="Deafened" />
+                    ) : (
+                      <MicOff className="h-3 w-3" aria-label="Muted" />
+                    )}
+                  </span>
+                )}
+              </div>
+              <span className="mt-1 w-full truncate text-xs text-gray-700 dark:text-gray-200">
+                {participant.userId === currentUser?.uid ? 'You' : participant.name}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {Object.entries(remoteStreams).map(([remoteUserId, stream]) => (
+        <RemoteAudio
+          key={remoteUserId}
+          stream={stream}
+          muted={isDeafened}
+          audioOutputId={preferences.audioOutputId}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default VoiceChannelPanel;
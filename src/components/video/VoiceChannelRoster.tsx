@@ -0,0 +1,51 @@
+import { HeadphoneOff, MicOff } from 'lucide-react';
+import { useVoiceParticipants } from '../../hooks/useVoiceParticipants';
+
+interface VoiceChannelRosterProps {
+  roomId: string;
+}
+
+/**
+ * Who is connected to a voice room, listed under the room in the sidebar
+ */
+const VoiceChannelRoster = ({ roomId }: VoiceChannelRosterProps) => {
+  const { participants } = useVoiceParticipants(roomId);
+
+  if (participants.length === 0) return null;
+
+  return (
+    <ul className="mb-1 ml-12 mt-0.5 space-y-1" aria-label="Connected to voice">
+      {participants.map((participant) => (
+        <li
+          key={participant.userId}
+          className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300"
+        >
+          {participant.avatar ? (
+            <img
+              src={participant.avatar}
+              alt={participant.name}
+              className="h-5 w-5 flex-shrink-0 rounded-full object-cover"
+            />
+          ) : (
+            <span className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-green-600 text-[10px] font-semibold text-white">
+              {participant.name[0]?.toUpperCase() || '?'}
+            </span>
+          )}
+          <span className="min-w-0 flex-1 truncate">{participant.name}</span>
+          {participant.isDeafened ? (
+            <HeadphoneOff
+              className="h-3.5 w-3.5 flex-shrink-0 text-red-500"
+              aria-label="Deafened"
+            />
+          ) : (
+            participant.isMuted && (
+              <MicOff className="h-3.5 w-3.5 flex-shrink-0 text-red-500" aria-label="Muted" />
+            )
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default VoiceChannelRoster;
@@ -1,6 +1,10 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import {
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
 import { getDatabase } from 'firebase/database';
 import { getAnalytics } from 'firebase/analytics';
@@ -67,7 +71,14 @@ if (recaptchaSiteKey) {
  * Firebase Services
  */
 export const auth: Auth = getAuth(app);
-export const db: Firestore = getFirestore(app);
+/**
+ * Firestore keeps its cache (and writes made offline) in IndexedDB, shared by
+ * all open tabs, so the app can read and queue messages without a connection.
+ * Falls back to an in-memory cache where IndexedDB is unavailable.
+ */
+export const db: Firestore = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
 export const storage: FirebaseStorage = getStorage(app);
 export const rtdb: Database = getDatabase(app);
 
@@ -12,6 +12,7 @@ import {
   getUserDocument,
 } from '../lib/authService';
 import { usePresence } from '../lib/presenceService';
+import { disablePushNotifications } from '../lib/notificationService';
 import type { User } from '../types/firebase';
 
 /**
@@ -134,13 +135,19 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
   const handleLogout = useCallback(async () => {
     try {
       setError(null);
+      // Stop pushing this user's notifications to a device they signed out of
+      if (currentUser) {
+        await disablePushNotifications(currentUser.uid).catch((err) => {
+          console.debug('Push token cleanup skipped:', err);
+        });
+      }
       await logout();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Sign out failed';
       setError(errorMessage);
       throw err;
     }
-  }, []);
+  }, [currentUser]);
 
   /**
    * Update user profile
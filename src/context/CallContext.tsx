@@ -17,18 +17,46 @@ import {
   acceptCall as acceptCallService,
   rejectCall as rejectCallService,
   endCall as endCallService,
+  leaveCall as leaveCallService,
+  holdCall as holdCallService,
+  resumeCall as resumeCallService,
+  requestCallTransfer as requestCallTransferService,
+  completeCallTransfer as completeCallTransferService,
 } from '../lib/callService';
 import { createCallLog } from '../lib/callHistoryService';
-import type { Call, CreateCallData, CallOutcome } from '../types/call';
+import { createDirectMessage } from '../lib/roomService';
+import type {
+  Call,
+  CreateCallData,
+  CallOutcome,
+  CallQualityReport,
+  FinishedRecording,
+} from '../types/call';
+
+export interface CallTransferTarget {
+  userId: string;
+  name: string;
+  avatar?: string;
+}
 
 interface CallContextType {
   currentCall: Call | null;
+  heldCall: Call | null; // A 1-on-1 call this user put on hold; its connection stays up
   incomingCalls: Call[];
   isInCall: boolean;
   initiateCall: (data: CreateCallData) => Promise<string>;
   acceptCall: (callId: string) => Promise<void>;
+  acceptWaitingCall: (callId: string) => Promise<void>; // Hold (or leave) the current call first
   rejectCall: (callId: string) => Promise<void>;
-  endCall: () => Promise<void>;
+  dismissIncomingCall: (callId: string) => void;
+  holdCall: () => Promise<void>;
+  resumeCall: () => Promise<void>; // Swaps with the current call, if any
+  transferCall: (target: CallTransferTarget) => Promise<void>;
+  endCall: (callId?: string) => Promise<void>; // Defaults to the current call
+  reportCallQuality: (callId: string, report: CallQualityReport) => void;
+  finishedRecording: FinishedRecording | null; // Waiting to be downloaded or shared
+  reportFinishedRecording: (recording: FinishedRecording) => void;
+  dismissFinishedRecording: () => void;
 }
 
 const CallContext = createContext<CallContextType | undefined>(undefined);
@@ -42,10 +70,18 @@ export function CallProvider({ children }: CallProviderProps) {
   const [currentCall, setCurrentCall] = useState<Call | null>(null);
   const [incomingCalls, setIncomingCalls] = useState<Call[]>([]);
   const [activeCallId, setActiveCallId] = useState<string | null>(null);
+  const [heldCall, setHeldCall] = useState<Call | null>(null);
+  const [heldCallId, setHeldCallId] = useState<string | null>(null);
+  // Kept here because the call UI unmounts when the call ends
+  const [finishedRecording, setFinishedRecording] = useState<FinishedRecording | null>(null);
   const dismissedCallIdsRef = useRef<Set<string>>(new Set());
   const callStatusUnsubscribesRef = useRef<Map<string, () => void>>(new Map());
   const loggedCallIdsRef = useRef<Set<string>>(new Set());
   const activeCallIdRef = useRef<string | null>(null);
+  // Latest connection quality summary per call, saved with its call log
+  const callQualityRef = useRef<Map<string, CallQualityReport>>(new Map());
+  // Calls whose transfer this client has already placed
+  const handledTransferIdsRef = useRef<Set<string>>(new Set());
 
   // Keep activeCallIdRef in sync
   useEffect(() => {
@@ -75,7 +111,9 @@ export function CallProvider({ children }: CallProviderProps) {
               const statusUnsub = subscribeToCall(call.id, (updatedCall) => {
                 if (
                   updatedCall &&
-                  (updatedCall.status === 'ended' || updatedCall.status === 'rejected')
+                  (updatedCall.status === 'ended' ||
+                    updatedCall.status === 'rejected' ||
+                    updatedCall.status === 'missed')
                 ) {
                   // Skip if this call is being handled by active call subscription or already logged
                   if (
@@ -85,39 +123,34 @@ export function CallProvider({ children }: CallProviderProps) {
                     return;
                   }
 
-                  // Call was cancelled by caller or rejected/missed
+                  // Call was cancelled by caller, declined elsewhere or timed out
                   if (!dismissedCallIdsRef.current.has(call.id)) {
                     dismissedCallIdsRef.current.add(call.id);
                     loggedCallIdsRef.current.add(call.id);
 
-                    // Create call log based on scenario
-                    let outcome: CallOutcome;
-                    if (updatedCall.status === 'rejected') {
-                      // Could be auto-timeout or caller cancelled
-                      outcome = 'missed';
-                    } else {
-                      outcome = 'cancelled';
+                    // Missed calls are logged by the call timeouts function and
+                    // declined ones by the client that declined them
+                    if (updatedCall.status === 'ended') {
+                      createCallLog({
+                        callId: call.id,
+                        roomId: call.roomId,
+                        callerId: call.callerId,
+                        callerName: call.callerName,
+                        callerAvatar: call.callerAvatar,
+                        calleeId: call.calleeId,
+                        calleeName: call.calleeName,
+                        calleeAvatar: call.calleeAvatar,
+                        mediaType: call.mediaType,
+                        outcome: 'cancelled',
+                        timestamp: new Date(),
+                      }).catch((error) => {
+                        console.error(
+                          'Error creating call log for cancelled incoming call:',
+                          error
+                        );
+                      });
                     }
 
-                    createCallLog({
-                      callId: call.id,
-                      roomId: call.roomId,
-                      callerId: call.callerId,
-                      callerName: call.callerName,
-                      callerAvatar: call.callerAvatar,
-                      calleeId: call.calleeId,
-                      calleeName: call.calleeName,
-                      calleeAvatar: call.calleeAvatar,
-                      mediaType: call.mediaType,
-                      outcome,
-                      timestamp: new Date(),
-                    }).catch((error) => {
-                      console.error(
-                        'Error creating call log for cancelled/missed incoming call:',
-                        error
-                      );
-                    });
-
                     // Remove from incoming calls
                     setIncomingCalls((prev) => prev.filter((c) => c.id !== call.id));
                   }
@@ -142,28 +175,8 @@ export function CallProvider({ children }: CallProviderProps) {
 
           if (callAge > 60000 && !dismissedCallIdsRef.current.has(call.id)) {
             console.log('Auto-dismissing stale call:', call.id, 'age:', callAge);
+            // The call timeouts function marks it missed and logs it
             dismissedCallIdsRef.current.add(call.id);
-
-            // Create missed call log only if not already logged
-            if (!loggedCallIdsRef.current.has(call.id)) {
-              loggedCallIdsRef.current.add(call.id);
-              createCallLog({
-                callId: call.id,
-                roomId: call.roomId,
-                callerId: call.callerId,
-                callerName: call.callerName,
-                callerAvatar: call.callerAvatar,
-                calleeId: call.calleeId,
-                calleeName: call.calleeName,
-                calleeAvatar: call.calleeAvatar,
-                mediaType: call.mediaType,
-                outcome: 'missed',
-                timestamp: new Date(),
-              }).catch((error) => {
-                console.error('Error creating missed call log:', error);
-              });
-            }
-
             return false;
           }
 
@@ -190,6 +203,60 @@ export function CallProvider({ children }: CallProviderProps) {
     };
   }, [currentUser]);
 
+  /**
+   * Log a 1-on-1 call once it has ended, been rejected or been missed
+   */
+  const logFinishedCall = useCallback(
+    async (call: Call) => {
+      // Create call log only if not already logged (missed calls are logged server-side)
+      if (call.status !== 'missed' && !loggedCallIdsRef.current.has(call.id)) {
+        loggedCallIdsRef.current.add(call.id);
+        try {
+          let outcome: CallOutcome;
+          let duration: number | undefined;
+
+          if (call.status === 'rejected') {
+            outcome = 'rejected';
+          } else if (call.startedAt && call.endedAt) {
+            outcome = 'completed';
+            // Calculate duration in seconds
+            const start =
+              call.startedAt instanceof Date
+                ? call.startedAt
+                : (call.startedAt as Timestamp).toDate();
+            const end =
+              call.endedAt instanceof Date ? call.endedAt : (call.endedAt as Timestamp).toDate();
+            duration = Math.floor((end.getTime() - start.getTime()) / 1000);
+          } else {
+            // Call was ended without being answered
+            outcome = currentUser?.uid === call.callerId ? 'cancelled' : 'no-answer';
+          }
+
+          await createCallLog({
+            callId: call.id,
+            roomId: call.roomId,
+            callerId: call.callerId,
+            callerName: call.callerName,
+            callerAvatar: call.callerAvatar,
+            calleeId: call.calleeId,
+            calleeName: call.calleeName,
+            calleeAvatar: call.calleeAvatar,
+            mediaType: call.mediaType,
+            outcome,
+            duration,
+            quality: outcome === 'completed' ? callQualityRef.current.get(call.id) : undefined,
+            timestamp: call.endedAt || new Date(),
+          });
+          callQualityRef.current.delete(call.id);
+          console.log('CallContext - Call log created successfully');
+        } catch (error) {
+          console.error('CallContext - Error creating call log:', error);
+        }
+      }
+    },
+    [currentUser?.uid]
+  );
+
   // Subscribe to active call updates
   useEffect(() => {
     if (!activeCallId) {
@@ -205,59 +272,15 @@ export function CallProvider({ children }: CallProviderProps) {
         setCurrentCall(call);
 
         // If call ended, create call log and cleanup
-        if (call.status === 'ended' || call.status === 'rejected') {
-          console.log('CallContext - Call ended/rejected, creating call log');
-
-          // Create call log only if not already logged
-          if (!loggedCallIdsRef.current.has(call.id)) {
-            loggedCallIdsRef.current.add(call.id);
-            try {
-              let outcome: CallOutcome;
-              let duration: number | undefined;
-
-              if (call.status === 'rejected') {
-                outcome = 'rejected';
-              } else if (call.startedAt && call.endedAt) {
-                outcome = 'completed';
-                // Calculate duration in seconds
-                const start =
-                  call.startedAt instanceof Date
-                    ? call.startedAt
-                    : (call.startedAt as Timestamp).toDate();
-                const end =
-                  call.endedAt instanceof Date
-                    ? call.endedAt
-                    : (call.endedAt as Timestamp).toDate();
-                duration = Math.floor((end.getTime() - start.getTime()) / 1000);
-              } else {
-                // Call was ended without being answered
-                outcome = currentUser?.uid === call.callerId ? 'cancelled' : 'no-answer';
-              }
-
-              await createCallLog({
-                callId: call.id,
-                roomId: call.roomId,
-                callerId: call.callerId,
-                callerName: call.callerName,
-                callerAvatar: call.callerAvatar,
-                calleeId: call.calleeId,
-                calleeName: call.calleeName,
-                calleeAvatar: call.calleeAvatar,
-                mediaType: call.mediaType,
-                outcome,
-                duration,
-                timestamp: call.endedAt || new Date(),
-              });
-              console.log('CallContext - Call log created successfully');
-            } catch (error) {
-              console.error('CallContext - Error creating call log:', error);
-            }
-          }
+        if (call.status === 'ended' || call.status === 'rejected' || call.status === 'missed') {
+          console.log('CallContext - Call ended/rejected/missed, creating call log');
+
+          await logFinishedCall(call);
 
-          // Cleanup
+          // Cleanup (unless another call has become active meanwhile)
           setTimeout(() => {
-            setCurrentCall(null);
-            setActiveCallId(null);
+            setCurrentCall((prev) => (prev?.id === call.id ? null : prev));
+            setActiveCallId((prev) => (prev === call.id ? null : prev));
           }, 1000);
         }
       } else {
@@ -271,7 +294,62 @@ export function CallProvider({ children }: CallProviderProps) {
       console.log('CallContext - Unsubscribing from active call:', activeCallId);
       unsubscribe();
     };
-  }, [activeCallId, currentUser?.uid]);
+  }, [activeCallId, logFinishedCall]);
+
+  // Follow the held call; it ends like any other if the other party hangs up
+  useEffect(() => {
+    if (!heldCallId) return;
+
+    const unsubscribe = subscribeToCall(heldCallId, (call) => {
+      if (call?.status === 'connected') {
+        setHeldCall(call);
+        return;
+      }
+
+      if (call) {
+        logFinishedCall(call);
+      }
+      setHeldCall((prev) => (prev?.id === heldCallId ? null : prev));
+      setHeldCallId((prev) => (prev === heldCallId ? null : prev));
+    });
+
+    return () => unsubscribe();
+  }, [heldCallId, logFinishedCall]);
+
+  // The other party asked to transfer this user to someone else: the new call
+  // is placed from here, because only a call's caller may create it
+  useEffect(() => {
+    const transfer = currentCall?.transfer;
+    if (
+      !currentCall ||
+      !currentUser ||
+      !transfer ||
+      transfer.requestedBy === currentUser.uid ||
+      currentCall.status !== 'connected' ||
+      handledTransferIdsRef.current.has(currentCall.id)
+    ) {
+      return;
+    }
+
+    handledTransferIdsRef.current.add(currentCall.id);
+    const call = currentCall;
+    const displayName = userDoc?.displayName || currentUser.displayName || 'Anonymous';
+    const photoURL = userDoc?.photoURL || currentUser.photoURL || undefined;
+
+    createDirectMessage(currentUser.uid, transfer.targetId, transfer.targetName)
+      .then((roomId) =>
+        completeCallTransferService(call, currentUser.uid, displayName, roomId, photoURL)
+      )
+      .then((newCallId) => {
+        // The original call is logged by the active call subscription as it ends
+        console.log('CallContext - Transferred to new call:', newCallId);
+        setCurrentCall(null);
+        setActiveCallId(newCallId);
+      })
+      .catch((error) => {
+        console.error('CallContext - Error completing call transfer:', error);
+      });
+  }, [currentCall, currentUser, userDoc]);
 
   const initiateCall = useCallback(
     async (data: CreateCallData): Promise<string> => {
@@ -298,32 +376,45 @@ export function CallProvider({ children }: CallProviderProps) {
     [currentUser, userDoc]
   );
 
-  const acceptCall = useCallback(async (callId: string): Promise<void> => {
-    try {
-      console.log('CallContext - Accepting call:', callId);
-      await acceptCallService(callId);
-      setActiveCallId(callId);
-      console.log('CallContext - Set active call ID:', callId);
-
-      // Mark as dismissed to remove from incoming calls
-      dismissedCallIdsRef.current.add(callId);
-      setIncomingCalls((prev) => prev.filter((call) => call.id !== callId));
-
-      // Cleanup status subscription since active call subscription will handle it
-      const statusUnsub = callStatusUnsubscribesRef.current.get(callId);
-      if (statusUnsub) {
-        statusUnsub();
-        callStatusUnsubscribesRef.current.delete(callId);
+  // Also used to join a group call that is already in progress
+  const acceptCall = useCallback(
+    async (callId: string): Promise<void> => {
+      if (!currentUser) {
+        throw new Error('User not authenticated');
       }
-      console.log('CallContext - Removed from incoming calls');
-    } catch (error) {
-      console.error('Error accepting call:', error);
-      // Remove the call from incoming calls even if acceptance failed
-      dismissedCallIdsRef.current.add(callId);
-      setIncomingCalls((prev) => prev.filter((call) => call.id !== callId));
-      throw error;
-    }
-  }, []);
+
+      try {
+        console.log('CallContext - Accepting call:', callId);
+        const displayName = userDoc?.displayName || currentUser.displayName || 'Anonymous';
+        const photoURL = userDoc?.photoURL || currentUser.photoURL || undefined;
+        await acceptCallService(callId, currentUser.uid, displayName, photoURL);
+
+        // Rejoining a group call is logged again when leaving
+        loggedCallIdsRef.current.delete(callId);
+        setActiveCallId(callId);
+        console.log('CallContext - Set active call ID:', callId);
+
+        // Mark as dismissed to remove from incoming calls
+        dismissedCallIdsRef.current.add(callId);
+        setIncomingCalls((prev) => prev.filter((call) => call.id !== callId));
+
+        // Cleanup status subscription since active call subscription will handle it
+        const statusUnsub = callStatusUnsubscribesRef.current.get(callId);
+        if (statusUnsub) {
+          statusUnsub();
+          callStatusUnsubscribesRef.current.delete(callId);
+        }
+        console.log('CallContext - Removed from incoming calls');
+      } catch (error) {
+        console.error('Error accepting call:', error);
+        // Remove the call from incoming calls even if acceptance failed
+        dismissedCallIdsRef.current.add(callId);
+        setIncomingCalls((prev) => prev.filter((call) => call.id !== callId));
+        throw error;
+      }
+    },
+    [currentUser, userDoc]
+  );
 
   const rejectCall = useCallback(
     async (callId: string): Promise<void> => {
@@ -334,7 +425,10 @@ export function CallProvider({ children }: CallProviderProps) {
         // Mark as dismissed and logged to prevent duplicates
         dismissedCallIdsRef.current.add(callId);
 
-        await rejectCallService(callId);
+        // Declining a group call only dismisses it; the call goes on for everyone else
+        if (call?.type !== 'group') {
+          await rejectCallService(callId);
+        }
 
         // Create call log for rejected incoming call
         if (call && !loggedCallIdsRef.current.has(callId)) {
@@ -369,34 +463,234 @@ export function CallProvider({ children }: CallProviderProps) {
     [incomingCalls]
   );
 
-  const endCall = useCallback(async (): Promise<void> => {
-    if (!activeCallId) return;
+  // Hide an incoming call without declining it; once it has rung out, the call
+  // timeouts function marks it missed and logs it
+  const dismissIncomingCall = useCallback((callId: string) => {
+    dismissedCallIdsRef.current.add(callId);
+    setIncomingCalls((prev) => prev.filter((call) => call.id !== callId));
+  }, []);
+
+  // Exchange the active and held calls (either may be empty). The call UI is
+  // keyed by call ID, so both calls keep their connections.
+  const swapActiveAndHeldCalls = useCallback(() => {
+    setActiveCallId(heldCallId);
+    setCurrentCall(heldCall);
+    setHeldCallId(activeCallId);
+    setHeldCall(currentCall);
+  }, [activeCallId, currentCall, heldCallId, heldCall]);
+
+  const holdCall = useCallback(async (): Promise<void> => {
+    if (!currentUser || !currentCall) return;
+
+    if (currentCall.type !== '1-on-1' || currentCall.status !== 'connected') {
+      throw new Error('Only connected 1-on-1 calls can be put on hold');
+    }
+    if (heldCallId) {
+      throw new Error('Another call is already on hold');
+    }
 
     try {
-      console.log('Ending call:', activeCallId);
-      await endCallService(activeCallId);
-      // State cleanup is handled by the active call subscription
-      // when it detects status 'ended' (with a 1s delay for UI feedback / call log creation)
+      await holdCallService(currentCall.id, currentUser.uid);
+      swapActiveAndHeldCalls();
     } catch (error) {
-      console.error('Error ending call:', error);
-      // Force cleanup on error since subscription may not fire
-      setCurrentCall(null);
-      setActiveCallId(null);
+      console.error('Error holding call:', error);
       throw error;
     }
-  }, [activeCallId]);
+  }, [currentUser, currentCall, heldCallId, swapActiveAndHeldCalls]);
+
+  const resumeCall = useCallback(async (): Promise<void> => {
+    if (!currentUser || !heldCall) return;
+
+    try {
+      // The call in progress goes on hold in its place
+      if (currentCall) {
+        if (currentCall.type !== '1-on-1' || currentCall.status !== 'connected') {
+          throw new Error('End the current call before resuming the held one');
+        }
+        await holdCallService(currentCall.id, currentUser.uid);
+      }
+
+      await resumeCallService(heldCall.id, currentUser.uid);
+      swapActiveAndHeldCalls();
+    } catch (error) {
+      console.error('Error resuming call:', error);
+      throw error;
+    }
+  }, [currentUser, currentCall, heldCall, swapActiveAndHeldCalls]);
+
+  const transferCall = useCallback(
+    async (target: CallTransferTarget): Promise<void> => {
+      if (!currentUser || !currentCall) return;
+
+      if (currentCall.type !== '1-on-1' || currentCall.status !== 'connected') {
+        throw new Error('Only connected 1-on-1 calls can be transferred');
+      }
+
+      try {
+        const displayName = userDoc?.displayName || currentUser.displayName || 'Anonymous';
+        await requestCallTransferService(currentCall.id, {
+          requestedBy: currentUser.uid,
+          requestedByName: displayName,
+          targetId: target.userId,
+          targetName: target.name,
+          targetAvatar: target.avatar,
+        });
+        // The call ends for this user once the other party has placed the new call
+      } catch (error) {
+        console.error('Error transferring call:', error);
+        throw error;
+      }
+    },
+    [currentUser, userDoc, currentCall]
+  );
+
+  const endCall = useCallback(
+    async (callId?: string): Promise<void> => {
+      // A held call is always 1-on-1; the held call subscription cleans up once it has ended
+      if (callId && callId === heldCallId) {
+        try {
+          await endCallService(callId);
+        } catch (error) {
+          console.error('Error ending held call:', error);
+          setHeldCall(null);
+          setHeldCallId(null);
+          throw error;
+        }
+        return;
+      }
+
+      if (!activeCallId || (callId && callId !== activeCallId)) return;
+
+      try {
+        // Leaving a group call doesn't end it for the other participants
+        if (currentCall?.type === 'group' && currentUser) {
+          console.log('Leaving group call:', activeCallId);
+
+          if (!loggedCallIdsRef.current.has(currentCall.id)) {
+            loggedCallIdsRef.current.add(currentCall.id);
+            const joinedAt = currentCall.participantDetails[currentUser.uid]?.joinedAt;
+            const isCaller = currentCall.callerId === currentUser.uid;
+
+            createCallLog({
+              callId: currentCall.id,
+              roomId: currentCall.roomId,
+              callerId: currentCall.callerId,
+              callerName: currentCall.callerName,
+              callerAvatar: currentCall.callerAvatar,
+              calleeId: isCaller ? '' : currentUser.uid,
+              calleeName: currentCall.calleeName,
+              mediaType: currentCall.mediaType,
+              outcome: currentCall.startedAt ? 'completed' : 'cancelled',
+              duration:
+                currentCall.startedAt && joinedAt
+                  ? Math.floor((Date.now() - joinedAt.getTime()) / 1000)
+                  : undefined,
+              quality: currentCall.startedAt
+                ? callQualityRef.current.get(currentCall.id)
+                : undefined,
+              timestamp: new Date(),
+            }).catch((error) => {
+              console.error('Error creating group call log:', error);
+            });
+          }
+
+          callQualityRef.current.delete(currentCall.id);
+          await leaveCallService(activeCallId, currentUser.uid);
+          setCurrentCall(null);
+          setActiveCallId(null);
+          return;
+        }
+
+        console.log('Ending call:', activeCallId);
+        await endCallService(activeCallId);
+        // State cleanup is handled by the active call subscription
+        // when it detects status 'ended' (with a 1s delay for UI feedback / call log creation)
+      } catch (error) {
+        console.error('Error ending call:', error);
+        // Force cleanup on error since subscription may not fire
+        setCurrentCall(null);
+        setActiveCallId(null);
+        throw error;
+      }
+    },
+    [activeCallId, heldCallId, currentCall, currentUser]
+  );
+
+  // Call waiting: answer a second call by holding a 1-on-1 call, or leaving a group call
+  const acceptWaitingCall = useCallback(
+    async (callId: string): Promise<void> => {
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+
+      if (currentCall) {
+        if (currentCall.type === 'group') {
+          await endCall();
+        } else if (currentCall.status === 'connected' && !heldCallId) {
+          await holdCallService(currentCall.id, currentUser.uid);
+          swapActiveAndHeldCalls();
+        } else {
+          throw new Error('Finish your current call first');
+        }
+      }
+
+      await acceptCall(callId);
+    },
+    [currentUser, currentCall, heldCallId, endCall, swapActiveAndHeldCalls, acceptCall]
+  );
+
+  // Called by the call UI as statistics come in
+  const reportCallQuality = useCallback((callId: string, report: CallQualityReport) => {
+    callQualityRef.current.set(callId, report);
+  }, []);
+
+  // Called by the call UI when a recording stops
+  const reportFinishedRecording = useCallback((recording: FinishedRecording) => {
+    setFinishedRecording(recording);
+  }, []);
+
+  const dismissFinishedRecording = useCallback(() => {
+    setFinishedRecording(null);
+  }, []);
 
   const value: CallContextType = useMemo(
     () => ({
       currentCall,
+      heldCall,
       incomingCalls,
       isInCall: currentCall?.status === 'connected',
       initiateCall,
       acceptCall,
+      acceptWaitingCall,
       rejectCall,
+      dismissIncomingCall,
+      holdCall,
+      resumeCall,
+      transferCall,
       endCall,
+      reportCallQuality,
+      finishedRecording,
+      reportFinishedRecording,
+      dismissFinishedRecording,
     }),
-    [currentCall, incomingCalls, initiateCall, acceptCall, rejectCall, endCall]
+    [
+      currentCall,
+      heldCall,
+      incomingCalls,
+      initiateCall,
+      acceptCall,
+      acceptWaitingCall,
+      rejectCall,
+      dismissIncomingCall,
+      holdCall,
+      resumeCall,
+      transferCall,
+      endCall,
+      reportCallQuality,
+      finishedRecording,
+      reportFinishedRecording,
+      dismissFinishedRecording,
+    ]
   );
 
   return <CallContext.Provider value={value}>{children}</CallContext.Provider>;
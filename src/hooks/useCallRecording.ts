@@ -0,0 +1,241 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from './useAuth';
+import { setCallRecording } from '../lib/callService';
+import {
+  createRecordingMixer,
+  getRecordingMimeType,
+  type RecordingMixer,
+} from '../lib/recordingMixer';
+import type { CallRecording, FinishedRecording, MediaType } from '../types/call';
+
+interface UseCallRecordingProps {
+  callId: string;
+  roomId: string | undefined;
+  localStream: MediaStream | null;
+  remoteStreams: Record<string, MediaStream>; // Keyed by remote user ID
+  mediaType: MediaType;
+  recording: CallRecording | undefined; // The call's current recording request
+  participantIds: string[]; // Users currently in the call
+  onRecordingFinished: (recording: FinishedRecording) => void;
+}
+
+/**
+ * Record the mixed local and remote streams of a call with MediaRecorder.
+ * Starting asks the other participants first (via the call document); nothing
+ * is captured until everyone in the call has allowed it, and anyone who joins
+ * later is left out of the recording until they allow it too. Recording stops
+ * when the call UI unmounts; the file is handed to onRecordingFinished either way.
+ */
+export const useCallRecording = ({
+  callId,
+  roomId,
+  localStream,
+  remoteStreams,
+  mediaType,
+  recording,
+  participantIds,
+  onRecordingFinished,
+}: UseCallRecordingProps) => {
+  const { currentUser, userDoc } = useAuth();
+  // Asked the others and waiting for all of them to allow it
+  const [isAwaitingConsent, setIsAwaitingConsent] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [duration, setDuration] = useState(0); // Seconds
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const mixerRef = useRef<RecordingMixer | null>(null);
+
+  // Use ref to avoid stale closure in the recorder's stop handler
+  const onRecordingFinishedRef = useRef(onRecordingFinished);
+  useEffect(() => {
+    onRecordingFinishedRef.current = onRecordingFinished;
+  }, [onRecordingFinished]);
+
+  // Our own request, as the call document has it
+  const ownRecording = recording && recording.userId === currentUser?.uid ? recording : undefined;
+  const consentedIds = useMemo(() => ownRecording?.consentedIds || [], [ownRecording]);
+  const everyoneConsented =
+    !!ownRecording && participantIds.every((userId) => consentedIds.includes(userId));
+
+  // Only the participants who allowed the recording are in it
+  const sources = useMemo(
+    () =>
+      [
+        localStream,
+        ...Object.entries(remoteStreams)
+          .filter(([userId]) => consentedIds.includes(userId))
+          .map(([, stream]) => stream),
+      ].filter((stream): stream is MediaStream => !!stream),
+    [localStream, remoteStreams, consentedIds]
+  );
+
+  // Follow participants joining and leaving mid-recording
+  useEffect(() => {
+    mixerRef.current?.setSources(sources);
+  }, [sources, isRecording]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => setDuration((prev) => prev + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  /**
+   * Stop the recorder; its stop handler delivers the file
+   */
+  const finishRecorder = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    mixerRef.current = null;
+  }, []);
+
+  // Withdraw the request (or stop recording) if the call UI closes
+  const isRequestedRef = useRef(false);
+  const currentUserId = currentUser?.uid;
+  useEffect(() => {
+    return () => {
+      if (!isRequestedRef.current || !currentUserId) return;
+      finishRecorder();
+      setCallRecording(callId, currentUserId, null).catch((err) => {
+        console.debug('Recording flag cleanup skipped:', err);
+      });
+    };
+  }, [callId, currentUserId, finishRecorder]);
+
+  /**
+   * Start capturing, once everyone has allowed it. State follows the recorder's
+   * start event; failures reject.
+   */
+  const startRecorder = useCallback(async (): Promise<void> => {
+    if (!roomId || recorderRef.current) return;
+
+    let mixer: RecordingMixer | null = null;
+
+    try {
+      const includeVideo = mediaType === 'video';
+      const activeMixer = createRecordingMixer(includeVideo);
+      mixer = activeMixer;
+      activeMixer.setSources(sources);
+
+      const mimeType = getRecordingMimeType(includeVideo);
+      const recorder = new MediaRecorder(activeMixer.stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+
+      recorder.onstop = () => {
+        activeMixer.stop();
+
+        const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+        const extension = type.endsWith('mp4') ? 'mp4' : 'webm';
+        const fileName = `call-recording-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${extension}`;
+        const file = new File(chunks, fileName, { type });
+
+        if (file.size > 0) {
+          onRecordingFinishedRef.current({ callId, roomId, file });
+        }
+      };
+
+      recorder.onstart = () => {
+        setDuration(0);
+        setIsAwaitingConsent(false);
+        setIsRecording(true);
+      };
+
+      // Collect data every second so a crash loses at most a second
+      recorder.start(1000);
+      recorderRef.current = recorder;
+      mixerRef.current = activeMixer;
+    } catch (err) {
+      mixer?.stop();
+      finishRecorder();
+      throw err;
+    }
+  }, [callId, roomId, mediaType, sources, finishRecorder]);
+
+  // Start once everyone in the call has allowed it (people who decline leave the call)
+  useEffect(() => {
+    if (!isAwaitingConsent || !everyoneConsented) return;
+
+    startRecorder().catch((err) => {
+      console.error('Error starting recording:', err);
+      isRequestedRef.current = false;
+      if (currentUser) {
+        setCallRecording(callId, currentUser.uid, null).catch(() => {
+          // The request may already be gone
+        });
+      }
+      setIsAwaitingConsent(false);
+      setError('Failed to start recording');
+    });
+  }, [callId, currentUser, isAwaitingConsent, everyoneConsented, startRecorder]);
+
+  /**
+   * Ask the other participants to allow recording; it starts when they all have
+   */
+  const startRecording = useCallback(async (): Promise<boolean> => {
+    if (!currentUser || !roomId) {
+      setError('Must be in a call to record it');
+      return false;
+    }
+
+    if (isRequestedRef.current) return true;
+
+    if (typeof MediaRecorder === 'undefined') {
+      setError('Recording is not supported in this browser');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const userName = userDoc?.displayName || currentUser.displayName || 'Anonymous';
+      await setCallRecording(callId, currentUser.uid, { userName });
+      isRequestedRef.current = true;
+      setIsAwaitingConsent(true);
+      return true;
+    } catch (err) {
+      console.error('Error requesting recording:', err);
+      const message = err instanceof Error ? err.message : 'Failed to start recording';
+      setError(message);
+      return false;
+    }
+  }, [callId, roomId, currentUser, userDoc]);
+
+  /**
+   * Stop recording, or withdraw the request if it hasn't started yet
+   */
+  const stopRecording = useCallback(async (): Promise<boolean> => {
+    if (!isRequestedRef.current || !currentUser) return true;
+
+    isRequestedRef.current = false;
+    finishRecorder();
+    setIsRecording(false);
+    setIsAwaitingConsent(false);
+
+    try {
+      setError(null);
+      await setCallRecording(callId, currentUser.uid, null);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to stop recording';
+      setError(message);
+      return false;
+    }
+  }, [callId, currentUser, finishRecorder]);
+
+  return {
+    isRecording,
+    isAwaitingConsent,
+    duration,
+    error,
+    startRecording,
+    stopRecording,
+  };
+};
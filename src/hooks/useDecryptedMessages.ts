@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import {
+  decryptMessageContent,
+  getEncryptedContentKey,
+  UNDECRYPTABLE_MESSAGE_TEXT,
+} from '../lib/encryptionService';
+import type { MessageEncryption } from '../types/message';
+
+interface EncryptableContent {
+  content: string;
+  encryption?: MessageEncryption;
+}
+
+/**
+ * Decrypt the content of end-to-end encrypted messages (or revisions) for
+ * display. Content this device has no key for is replaced by a notice.
+ */
+export const useDecryptedMessages = <T extends EncryptableContent>(items: T[]): T[] => {
+  const { currentUser } = useAuth();
+  // Decrypted content by getEncryptedContentKey()
+  const [plaintexts, setPlaintexts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const pending = items.filter(
+      (item) =>
+        item.encryption && !(getEncryptedContentKey(item.content, item.encryption) in plaintexts)
+    );
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+
+    Promise.all(
+      pending.map(async (item) => {
+        const encryption = item.encryption as MessageEncryption;
+        const key = getEncryptedContentKey(item.content, encryption);
+        try {
+          const content = await decryptMessageContent(currentUser.uid, item.content, encryption);
+          return [key, content] as const;
+        } catch (err) {
+          console.debug('Could not decrypt message:', err);
+          return [key, UNDECRYPTABLE_MESSAGE_TEXT] as const;
+        }
+      })
+    ).then((entries) => {
+      if (cancelled) return;
+      setPlaintexts((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items, plaintexts, currentUser]);
+
+  return useMemo(
+    () =>
+      items.map((item) =>
+        item.encryption
+          ? {
+              ...item,
+              content:
+                plaintexts[getEncryptedContentKey(item.content, item.encryption)] ??
+                '🔒 Decrypting...',
+            }
+          : item
+      ),
+    [items, plaintexts]
+  );
+};
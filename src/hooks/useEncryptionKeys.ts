@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { subscribeToUser } from '../lib/userService';
+import {
+  getDevicePublicKey,
+  createEncryptionKeys,
+  exportKeyBackup,
+  importKeyBackup,
+} from '../lib/encryptionService';
+import type { EncryptionStatus } from '../types/encryption';
+
+/**
+ * The current user's end-to-end encryption key: whether this device can use
+ * it, setting it up, and backing it up / restoring it with a passphrase
+ */
+export const useEncryptionKeys = () => {
+  const { currentUser } = useAuth();
+  const [publishedKey, setPublishedKey] = useState<string | null>(null);
+  const [deviceKey, setDeviceKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!currentUser);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToUser(currentUser.uid, (user) => {
+      setPublishedKey(user?.publicKey || null);
+      // Another tab may have set up or restored a key
+      setDeviceKey(getDevicePublicKey(currentUser.uid));
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const status: EncryptionStatus = !publishedKey
+    ? 'none'
+    : deviceKey === publishedKey
+      ? 'ready'
+      : 'missing';
+
+  const setUpKeys = useCallback(async (): Promise<boolean> => {
+    if (!currentUser) {
+      setError('Must be logged in to set up encryption');
+      return false;
+    }
+
+    try {
+      setError(null);
+      setDeviceKey(await createEncryptionKeys(currentUser.uid));
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to set up encryption';
+      setError(message);
+      return false;
+    }
+  }, [currentUser]);
+
+  // Returns the backup file's contents
+  const exportBackup = useCallback(
+    async (passphrase: string): Promise<string | null> => {
+      if (!currentUser) {
+        setError('Must be logged in to back up your key');
+        return null;
+      }
+
+      try {
+        setError(null);
+        return await exportKeyBackup(currentUser.uid, passphrase);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create key backup';
+        setError(message);
+        return null;
+      }
+    },
+    [currentUser]
+  );
+
+  const importBackup = useCallback(
+    async (backupJson: string, passphrase: string): Promise<boolean> => {
+      if (!currentUser) {
+        setError('Must be logged in to restore your key');
+        return false;
+      }
+
+      try {
+        setError(null);
+        setDeviceKey(await importKeyBackup(currentUser.uid, backupJson, passphrase));
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore key backup';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser]
+  );
+
+  return {
+    status,
+    publicKey: publishedKey,
+    loading,
+    error,
+    setUpKeys,
+    exportBackup,
+    importBackup,
+  };
+};
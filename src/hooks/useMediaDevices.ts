@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import {
+  getMediaDevicePreferences,
+  listMediaDevices,
+  saveMediaDevicePreferences,
+  subscribeToDeviceChanges,
+} from '../lib/mediaDeviceService';
+import type { MediaDeviceList, MediaDevicePreferences } from '../types/call';
+
+const NO_DEVICES: MediaDeviceList = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+/**
+ * Available microphones, cameras and speakers (kept up to date as devices are
+ * plugged in) and the user's remembered choices
+ */
+export const useMediaDevices = () => {
+  const { currentUser } = useAuth();
+  const [devices, setDevices] = useState<MediaDeviceList>(NO_DEVICES);
+  const [preferences, setPreferences] = useState<MediaDevicePreferences>(() =>
+    currentUser ? getMediaDevicePreferences(currentUser.uid) : {}
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await listMediaDevices();
+      setDevices(list);
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to list media devices';
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToDeviceChanges(refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback(
+    (kind: keyof MediaDevicePreferences, deviceId: string) => {
+      if (!currentUser) return;
+      setPreferences(saveMediaDevicePreferences(currentUser.uid, { [kind]: deviceId }));
+    },
+    [currentUser]
+  );
+
+  return {
+    devices,
+    preferences,
+    loading,
+    error,
+    refresh,
+    selectDevice,
+  };
+};
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { getCallMediaConstraints, subscribeToAudioLevel } from '../lib/mediaDeviceService';
+import type { MediaDevicePreferences, MediaType } from '../types/call';
+
+/**
+ * Explain why the camera or microphone could not be opened
+ */
+const getMediaErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    if (error.name === 'NotAllowedError') {
+      return 'Camera/microphone permission denied. Please allow access and try again.';
+    } else if (error.name === 'NotFoundError') {
+      return 'No camera/microphone found on this device.';
+    } else if (error.name === 'NotReadableError') {
+      return 'The camera or microphone is in use by another application.';
+    }
+  }
+  return 'Failed to access camera/microphone';
+};
+
+/**
+ * Camera preview and microphone level for the pre-call green room. The stream
+ * is reopened whenever a different device is picked and stopped on unmount,
+ * so the call can open the devices itself.
+ */
+export const useMediaPreview = (mediaType: MediaType, preferences: MediaDevicePreferences) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [audioLevel, setAudioLevel] = useState(0); // 0–1
+  const [error, setError] = useState<string | null>(null);
+
+  const { audioInputId, videoInputId } = preferences;
+
+  useEffect(() => {
+    let cancelled = false;
+    let previewStream: MediaStream | null = null;
+
+    const open = async () => {
+      const constraints = getCallMediaConstraints(mediaType, { audioInputId, videoInputId });
+      try {
+        return await navigator.mediaDevices.getUserMedia(constraints);
+      } catch (constraintError) {
+        // The remembered device may be gone; fall back to the defaults
+        console.warn('Preview constraints failed, falling back to defaults:', constraintError);
+        return navigator.mediaDevices.getUserMedia({ audio: true, video: mediaType === 'video' });
+      }
+    };
+
+    open()
+      .then((openedStream) => {
+        if (cancelled) {
+          openedStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        previewStream = openedStream;
+        setStream(openedStream);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Error opening media preview:', err);
+        if (!cancelled) setError(getMediaErrorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+      previewStream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [mediaType, audioInputId, videoInputId]);
+
+  useEffect(() => {
+    if (!stream) return;
+    return subscribeToAudioLevel(stream, setAudioLevel);
+  }, [stream]);
+
+  return {
+    stream,
+    audioLevel,
+    loading: !stream && !error,
+    error,
+  };
+};
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { subscribeToMemberReadState } from '../lib/roomService';
+import type { RoomReadState } from '../types/room';
+
+/**
+ * Live read marker of another member of a room (e.g. for "Seen" receipts)
+ */
+export const useMemberReadState = (roomId: string | undefined, userId: string | undefined) => {
+  const [readState, setReadState] = useState<RoomReadState | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !userId) {
+      return;
+    }
+
+    const unsubscribe = subscribeToMemberReadState(roomId, userId, setReadState);
+
+    return () => unsubscribe();
+  }, [roomId, userId]);
+
+  return {
+    readState,
+  };
+};
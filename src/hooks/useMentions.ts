@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { subscribeToMentions } from '../lib/messageService';
+import type { Message } from '../types/message';
+
+/**
+ * Real-time list of messages that mention the current user, across all rooms
+ */
+export const useMentions = () => {
+  const { currentUser } = useAuth();
+  const [mentions, setMentions] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(!!currentUser);
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToMentions(currentUser.uid, (messages) => {
+      setMentions(messages);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  return {
+    mentions,
+    loading,
+  };
+};
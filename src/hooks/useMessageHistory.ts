@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { useDecryptedMessages } from './useDecryptedMessages';
+import { getMessageHistory } from '../lib/messageService';
+import type { MessageRevision } from '../types/message';
+
+/**
+ * Load the revision history of a message
+ * `includeDeleted` also loads deleted content (room moderators only)
+ */
+export const useMessageHistory = (
+  roomId: string | undefined,
+  messageId: string | undefined,
+  includeDeleted: boolean = false,
+  threadId?: string
+) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(!!roomId && !!messageId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !messageId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const history = await getMessageHistory(roomId, messageId, includeDeleted, threadId);
+        if (cancelled) return;
+        setRevisions(history);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : 'Failed to load message history';
+        setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, messageId, includeDeleted, threadId]);
+
+  const decryptedRevisions = useDecryptedMessages(revisions);
+
+  return {
+    revisions: decryptedRevisions,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { subscribeToMessages } from '../lib/messageService';
+import {
+  getSearchIndex,
+  addToSearchIndex,
+  searchMessageIndex,
+  fetchSearchableMessages,
+  fetchNewThreadReplies,
+  SEARCH_MESSAGES_PER_ROOM,
+  type MessageSearchIndex,
+  type MessageSearchFilters,
+} from '../lib/searchService';
+import type { Message } from '../types/message';
+
+// How long to wait for a pause in typing (or a burst of index updates) before searching
+const SEARCH_DELAY_MS = 150;
+
+interface MessageSender {
+  id: string;
+  name: string;
+}
+
+/**
+ * Builds a client-side search index over the given rooms (messages and thread
+ * replies) and returns the messages matching the query and filters. Once a
+ * room is indexed, its live message tail keeps the index current as messages
+ * are sent, edited, deleted or replied to. The index is kept per user for the
+ * session, so later visits only fetch the messages sent since. Rooms the user
+ * has left are indexed but never searched.
+ */
+export const useMessageSearch = (
+  roomIds: string[],
+  queryText: string,
+  filters: MessageSearchFilters
+) => {
+  const { currentUser } = useAuth();
+  const indexRef = useRef<MessageSearchIndex | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [results, setResults] = useState<Message[]>([]);
+  const [senders, setSenders] = useState<MessageSender[]>([]);
+  const [indexedCount, setIndexedCount] = useState(0);
+  const [indexing, setIndexing] = useState(roomIds.length > 0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so room list updates (e.g. lastMessage) don't re-trigger indexing
+  const roomKey = [...roomIds].sort().join(',');
+
+  useEffect(() => {
+    const roomIdList = roomKey.split(',').filter((id) => id);
+    if (!currentUser || roomIdList.length === 0) {
+      return;
+    }
+
+    const index = getSearchIndex(currentUser.uid);
+    indexRef.current = index;
+
+    let cancelled = false;
+    const unsubscribers: (() => void)[] = [];
+    const followedRoomIds: string[] = [];
+
+    // Index what changes in the room's latest messages, and the new replies in their threads
+    const followRoom = (roomId: string) => {
+      const unsubscribe = subscribeToMessages(roomId, async ({ messages }) => {
+        addToSearchIndex(index, messages);
+        setIndexVersion((v) => v + 1);
+
+        try {
+          const replies = await fetchNewThreadReplies(index, messages);
+          if (cancelled || replies.length === 0) return;
+          addToSearchIndex(index, replies);
+          setIndexVersion((v) => v + 1);
+        } catch (err) {
+          console.error('Error indexing thread replies for search:', roomId, err);
+        }
+      });
+      unsubscribers.push(unsubscribe);
+      followedRoomIds.push(roomId);
+    };
+
+    // Fetch each room's recent messages, or only the ones sent since it was last
+    // indexed, then follow its live tail
+    const buildIndex = async () => {
+      if (roomIdList.some((id) => !index.roomsIndexedAt.has(id))) {
+        setIndexing(true);
+      }
+      setError(null);
+      setIndexVersion((v) => v + 1);
+
+      await Promise.all(
+        roomIdList.map(async (roomId) => {
+          try {
+            const startedAt = new Date();
+            const messages = await fetchSearchableMessages(
+              roomId,
+              SEARCH_MESSAGES_PER_ROOM,
+              index.roomsIndexedAt.get(roomId)
+            );
+            if (cancelled) return;
+            addToSearchIndex(index, messages);
+            addToSearchIndex(index, await fetchNewThreadReplies(index, messages));
+            if (cancelled) return;
+            index.roomsIndexedAt.set(roomId, startedAt);
+            setIndexVersion((v) => v + 1);
+            // Changes made while the backfill was loading arrive with the first snapshot
+            followRoom(roomId);
+          } catch (err) {
+            console.error('Error indexing room for search:', roomId, err);
+            if (!cancelled) setError('Some rooms could not be searched');
+          }
+        })
+      );
+
+      if (!cancelled) setIndexing(false);
+    };
+
+    buildIndex();
+
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      // The live tails kept these rooms current until now
+      const now = new Date();
+      followedRoomIds.forEach((roomId) => index.roomsIndexedAt.set(roomId, now));
+    };
+  }, [roomKey, currentUser]);
+
+  // Search once typing (or indexing) pauses, only in the rooms the user is still in
+  useEffect(() => {
+    const roomIdList = roomKey.split(',').filter((id) => id);
+
+    const timeout = setTimeout(() => {
+      const index = indexRef.current;
+      if (!index) return;
+
+      const roomMessages = Array.from(index.messages.values()).filter((message) =>
+        roomIdList.includes(message.roomId)
+      );
+
+      // Everyone who sent a searchable message, for the sender filter
+      const byId = new Map<string, string>();
+      roomMessages.forEach((message) => byId.set(message.senderId, message.senderName));
+
+      setResults(searchMessageIndex(index, queryText, { ...filters, roomIds: roomIdList }));
+      setSenders(
+        Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setIndexedCount(roomMessages.length);
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [roomKey, indexVersion, queryText, filters]);
+
+  return {
+    results,
+    senders,
+    indexing,
+    indexedCount,
+    error,
+  };
+};
@@ -1,27 +1,93 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useAuth } from './useAuth';
+import { useDecryptedMessages } from './useDecryptedMessages';
 import {
+  MESSAGE_PAGE_SIZE,
+  type MessagePage,
   subscribeToMessages,
-  sendMessage as sendMessageService,
+  fetchOlderMessages,
   toggleReaction as toggleReactionService,
   editMessage as editMessageService,
   deleteMessage as deleteMessageService,
+  dismissLinkPreview as dismissLinkPreviewService,
+  pinMessage as pinMessageService,
+  unpinMessage as unpinMessageService,
 } from '../lib/messageService';
-import type { Message, SendMessageData } from '../types/message';
+import {
+  subscribeToOutbox,
+  queueMessage,
+  retryOutboxMessage,
+  discardOutboxMessage,
+} from '../lib/outboxService';
+import type { Message, OutboxMessage, SendMessageData } from '../types/message';
+
+/**
+ * Merge incoming messages into the loaded list, keyed by ID and sorted oldest first.
+ * Messages are soft-deleted, so nothing ever needs to be removed from the list.
+ */
+const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(current.map((m) => [m.id, m]));
+  incoming.forEach((m) => byId.set(m.id, m));
+  return Array.from(byId.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+/**
+ * Show an outbox entry in the message list
+ */
+const toPendingMessage = (outboxMessage: OutboxMessage): Message => ({
+  id: outboxMessage.id,
+  roomId: outboxMessage.roomId,
+  senderId: outboxMessage.senderId,
+  senderName: outboxMessage.senderName,
+  senderAvatar: outboxMessage.senderAvatar,
+  content: outboxMessage.data.content,
+  type: outboxMessage.data.type || 'text',
+  createdAt: outboxMessage.createdAt,
+  replyTo: outboxMessage.data.replyTo,
+  mentions: outboxMessage.data.mentions,
+  deliveryStatus: outboxMessage.status,
+});
 
 export const useMessages = (roomId: string | undefined) => {
   const { currentUser, userDoc } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
   const [loading, setLoading] = useState(!!roomId);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Where the next older page starts
+  const [cursor, setCursor] = useState<MessagePage['cursor']>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Room the loaded messages belong to, so late page loads from a previous room are dropped
+  const roomIdRef = useRef(roomId);
+
   useEffect(() => {
     if (!roomId) {
       return;
     }
 
-    const unsubscribe = subscribeToMessages(roomId, (updatedMessages) => {
-      setMessages(updatedMessages);
+    roomIdRef.current = roomId;
+    let isFirstSnapshot = true;
+    let hasServerSnapshot = false;
+
+    const unsubscribe = subscribeToMessages(roomId, (page, fromCache) => {
+      const updatedMessages = page.messages;
+      if (isFirstSnapshot) {
+        // Replace whatever was loaded for the previous room
+        isFirstSnapshot = false;
+        setMessages(updatedMessages);
+      } else {
+        // Keep older pages (and messages that slid out of the live window)
+        setMessages((prev) => mergeMessages(prev, updatedMessages));
+      }
+
+      // The cache may hold only part of the room, so decide again once the server answers
+      if (!hasServerSnapshot) {
+        hasServerSnapshot = !fromCache;
+        setHasMore(updatedMessages.length >= MESSAGE_PAGE_SIZE);
+        setCursor(page.cursor);
+      }
       setLoading(false);
       setError(null);
     });
@@ -29,6 +95,58 @@ export const useMessages = (roomId: string | undefined) => {
     return () => unsubscribe();
   }, [roomId]);
 
+  useEffect(() => {
+    if (!roomId || !currentUser) {
+      return;
+    }
+
+    return subscribeToOutbox(currentUser.uid, roomId, setOutbox);
+  }, [roomId, currentUser]);
+
+  // End-to-end encrypted content, as readable on this device
+  const decryptedMessages = useDecryptedMessages(messages);
+
+  // Unsent messages show in place until the server has them. A message Firestore
+  // has queued locally is already in the snapshot, so it is only tagged.
+  const messagesWithOutbox = useMemo(() => {
+    if (outbox.length === 0) return decryptedMessages;
+
+    const outboxById = new Map(outbox.map((message) => [message.id, message]));
+    const loadedIds = new Set(decryptedMessages.map((message) => message.id));
+    const tagged = decryptedMessages.map((message) => {
+      const outboxMessage = outboxById.get(message.id);
+      return outboxMessage ? { ...message, deliveryStatus: outboxMessage.status } : message;
+    });
+    const pending = outbox.filter((message) => !loadedIds.has(message.id)).map(toPendingMessage);
+    return mergeMessages(tagged, pending);
+  }, [decryptedMessages, outbox]);
+
+  const loadOlder = useCallback(async (): Promise<boolean> => {
+    if (!roomId || loadingOlder || !hasMore || !cursor) {
+      return false;
+    }
+
+    try {
+      setLoadingOlder(true);
+      setError(null);
+      const page = await fetchOlderMessages(roomId, cursor);
+
+      // Room changed while the page was loading
+      if (roomIdRef.current !== roomId) return false;
+
+      setMessages((prev) => mergeMessages(prev, page.messages));
+      setHasMore(page.messages.length >= MESSAGE_PAGE_SIZE);
+      if (page.cursor) setCursor(page.cursor);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load older messages';
+      setError(message);
+      return false;
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [roomId, loadingOlder, hasMore, cursor]);
+
   const sendMessage = useCallback(
     async (messageData: SendMessageData): Promise<boolean> => {
       if (!currentUser || !roomId) {
@@ -39,19 +157,28 @@ export const useMessages = (roomId: string | undefined) => {
       const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
       const avatarUrl = userDoc?.photoURL;
 
-      try {
-        setError(null);
-        await sendMessageService(roomId, currentUser.uid, userName, messageData, avatarUrl);
-        return true;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Failed to send message';
-        setError(message);
-        return false;
-      }
+      // Shows immediately; delivery (and failure) is tracked on the message itself
+      setError(null);
+      queueMessage(roomId, currentUser.uid, userName, messageData, avatarUrl);
+      return true;
     },
     [currentUser, userDoc, roomId]
   );
 
+  const retryMessage = useCallback(
+    (messageId: string) => {
+      if (currentUser) retryOutboxMessage(currentUser.uid, messageId);
+    },
+    [currentUser]
+  );
+
+  const discardMessage = useCallback(
+    (messageId: string) => {
+      if (currentUser) discardOutboxMessage(currentUser.uid, messageId);
+    },
+    [currentUser]
+  );
+
   const toggleReaction = useCallback(
     async (messageId: string, emoji: string): Promise<boolean> => {
       if (!currentUser || !roomId) {
@@ -75,7 +202,7 @@ export const useMessages = (roomId: string | undefined) => {
   );
 
   const editMessage = useCallback(
-    async (messageId: string, newContent: string): Promise<boolean> => {
+    async (messageId: string, newContent: string, mentions: string[] = []): Promise<boolean> => {
       if (!currentUser || !roomId) {
         setError('Must be logged in to edit messages');
         return false;
@@ -83,7 +210,15 @@ export const useMessages = (roomId: string | undefined) => {
 
       try {
         setError(null);
-        await editMessageService(roomId, messageId, newContent);
+        const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+        await editMessageService(
+          roomId,
+          messageId,
+          newContent,
+          mentions,
+          currentUser.uid,
+          userName
+        );
         return true;
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to edit message';
@@ -91,7 +226,7 @@ export const useMessages = (roomId: string | undefined) => {
         return false;
       }
     },
-    [currentUser, roomId]
+    [currentUser, userDoc, roomId]
   );
 
   const deleteMessage = useCallback(
@@ -103,7 +238,8 @@ export const useMessages = (roomId: string | undefined) => {
 
       try {
         setError(null);
-        await deleteMessageService(roomId, messageId);
+        const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+        await deleteMessageService(roomId, messageId, currentUser.uid, userName);
         return true;
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to delete message';
@@ -111,16 +247,84 @@ export const useMessages = (roomId: string | undefined) => {
         return false;
       }
     },
+    [currentUser, userDoc, roomId]
+  );
+
+  const dismissLinkPreview = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!currentUser || !roomId) {
+        setError('Must be logged in to dismiss link previews');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await dismissLinkPreviewService(roomId, messageId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to dismiss link preview';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, roomId]
+  );
+
+  const pinMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!currentUser || !roomId) {
+        setError('Must be logged in to pin messages');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await pinMessageService(roomId, messageId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to pin message';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, roomId]
+  );
+
+  const unpinMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!currentUser || !roomId) {
+        setError('Must be logged in to unpin messages');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await unpinMessageService(roomId, messageId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to unpin message';
+        setError(message);
+        return false;
+      }
+    },
     [currentUser, roomId]
   );
 
   return {
-    messages,
+    messages: messagesWithOutbox,
     loading,
+    loadingOlder,
+    hasMore,
     error,
+    loadOlder,
     sendMessage,
+    retryMessage,
+    discardMessage,
     toggleReaction,
     editMessage,
     deleteMessage,
+    dismissLinkPreview,
+    pinMessage,
+    unpinMessage,
   };
 };
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import {
+  subscribeToNotificationLevels,
+  setRoomNotificationLevel,
+} from '../lib/notificationService';
+import type { NotificationLevel } from '../types/notification';
+
+/**
+ * The current user's per-room notification levels ('all' by default)
+ */
+export const useNotificationLevels = () => {
+  const { currentUser } = useAuth();
+  const [levels, setLevels] = useState<Record<string, NotificationLevel>>({});
+  const [loading, setLoading] = useState(!!currentUser);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToNotificationLevels(currentUser.uid, (updated) => {
+      setLevels(updated);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const getLevel = useCallback(
+    (roomId: string): NotificationLevel => levels[roomId] || 'all',
+    [levels]
+  );
+
+  const setLevel = useCallback(
+    async (roomId: string, level: NotificationLevel): Promise<boolean> => {
+      if (!currentUser) {
+        setError('Must be logged in to change notification settings');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await setRoomNotificationLevel(currentUser.uid, roomId, level);
+        return true;
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : 'Failed to update notification settings';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser]
+  );
+
+  return {
+    levels,
+    loading,
+    error,
+    getLevel,
+    setLevel,
+  };
+};
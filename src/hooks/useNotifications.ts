@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import {
+  subscribeToNotifications,
+  markNotificationsRead,
+  deleteNotification as deleteNotificationService,
+  getPushStatus,
+  enablePushNotifications,
+  disablePushNotifications,
+} from '../lib/notificationService';
+import type { AppNotification, PushStatus } from '../types/notification';
+
+/**
+ * The current user's notification centre (newest first) and push notification
+ * settings for this device
+ */
+export const useNotifications = () => {
+  const { currentUser } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(!!currentUser);
+  const [error, setError] = useState<string | null>(null);
+  const [pushStatus, setPushStatus] = useState<PushStatus>('unsupported');
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToNotifications(currentUser.uid, (updated) => {
+      setNotifications(updated);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    let cancelled = false;
+
+    getPushStatus(currentUser.uid).then((status) => {
+      if (cancelled) return;
+      setPushStatus(status);
+      // Refresh the device's token, which the browser may have rotated
+      if (status === 'enabled') {
+        enablePushNotifications(currentUser.uid).catch((err) => {
+          console.debug('Push token refresh skipped:', err);
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  const unreadCount = useMemo(
+    () => notifications.filter((notification) => !notification.read).length,
+    [notifications]
+  );
+
+  const markAsRead = useCallback(
+    async (notificationIds: string[]): Promise<boolean> => {
+      if (!currentUser) return false;
+
+      try {
+        setError(null);
+        await markNotificationsRead(currentUser.uid, notificationIds);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update notifications';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser]
+  );
+
+  const markAllAsRead = useCallback(
+    () =>
+      markAsRead(
+        notifications
+          .filter((notification) => !notification.read)
+          .map((notification) => notification.id)
+      ),
+    [notifications, markAsRead]
+  );
+
+  const deleteNotification = useCallback(
+    async (notificationId: string): Promise<boolean> => {
+      if (!currentUser) return false;
+
+      try {
+        setError(null);
+        await deleteNotificationService(currentUser.uid, notificationId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete notification';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser]
+  );
+
+  const setPushEnabled = useCallback(
+    async (enabled: boolean): Promise<boolean> => {
+      if (!currentUser) return false;
+
+      try {
+        setError(null);
+        if (enabled) {
+          await enablePushNotifications(currentUser.uid);
+        } else {
+          await disablePushNotifications(currentUser.uid);
+        }
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update push notifications';
+        setError(message);
+        return false;
+      } finally {
+        setPushStatus(await getPushStatus(currentUser.uid));
+      }
+    },
+    [currentUser]
+  );
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    pushStatus,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+    setPushEnabled,
+  };
+};
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { resumeOutbox, retryFailedMessages } from '../lib/outboxService';
+
+/**
+ * Keep the current user's outbox moving: pick up messages left over from the
+ * last visit, and retry failed ones when the browser comes back online.
+ * Mounted once in the main layout.
+ */
+export const useOutboxDelivery = () => {
+  const { currentUser } = useAuth();
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const userId = currentUser.uid;
+    resumeOutbox(userId).catch((err) => {
+      console.error('Error resuming outbox:', err);
+    });
+
+    const handleOnline = () => retryFailedMessages(userId);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [currentUser]);
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { useDecryptedMessages } from './useDecryptedMessages';
+import { getMessagesByIds } from '../lib/messageService';
+import type { Message } from '../types/message';
+
+/**
+ * Load a room's pinned messages (most recently pinned first)
+ */
+export const usePinnedMessages = (roomId: string | undefined, pinnedMessageIds: string[] = []) => {
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(!!roomId && pinnedMessageIds.length > 0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so unrelated room updates don't refetch
+  const pinnedKey = pinnedMessageIds.join(',');
+
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    const messageIds = pinnedKey ? pinnedKey.split(',').reverse() : [];
+    let cancelled = false;
+
+    const loadPinned = async () => {
+      setLoading(true);
+      try {
+        const messages = await getMessagesByIds(roomId, messageIds);
+        if (cancelled) return;
+        setPinnedMessages(messages);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : 'Failed to load pinned messages';
+        setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPinned();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, pinnedKey]);
+
+  const decryptedPinnedMessages = useDecryptedMessages(pinnedMessages);
+
+  return {
+    pinnedMessages: decryptedPinnedMessages,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { subscribeToReadStates, markRoomRead as markRoomReadService } from '../lib/roomService';
+import type { RoomReadState } from '../types/room';
+
+/**
+ * The user's read markers (keyed by room ID), for unread badges, and marking
+ * a room as read
+ */
+export const useReadStates = () => {
+  const { currentUser } = useAuth();
+  const [readStates, setReadStates] = useState<Record<string, RoomReadState>>({});
+  const [loading, setLoading] = useState(!!currentUser);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToReadStates(currentUser.uid, (updatedReadStates) => {
+      setReadStates(updatedReadStates);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const markRoomRead = useCallback(
+    async (roomId: string, messageCount: number): Promise<boolean> => {
+      if (!currentUser) return false;
+
+      try {
+        await markRoomReadService(roomId, currentUser.uid, messageCount);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to mark room as read';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser]
+  );
+
+  return {
+    readStates,
+    loading,
+    error,
+    markRoomRead,
+  };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { getUser } from '../lib/userService';
+import type { UserDoc } from '../types/user';
+
+/**
+ * Resolve a room's member IDs to user documents
+ */
+export const useRoomMembers = (memberIds: string[] | undefined) => {
+  const [members, setMembers] = useState<UserDoc[]>([]);
+  const [loading, setLoading] = useState(!!memberIds?.length);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so room updates that don't change membership don't refetch
+  const memberKey = memberIds ? [...memberIds].sort().join(',') : '';
+
+  useEffect(() => {
+    const ids = memberKey ? memberKey.split(',') : [];
+    let cancelled = false;
+
+    const loadMembers = async () => {
+      setLoading(true);
+      try {
+        const users = await Promise.all(ids.map((id) => getUser(id)));
+        if (cancelled) return;
+        setMembers(users.filter((user): user is UserDoc => user !== null));
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : 'Failed to load members';
+        setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadMembers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [memberKey]);
+
+  return {
+    members,
+    loading,
+    error,
+  };
+};
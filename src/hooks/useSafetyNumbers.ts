@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import { useRooms } from './useRooms';
+import { useRoomMembers } from './useRoomMembers';
+import { getSafetyNumber, getVerifiedKeys, setKeyVerified } from '../lib/encryptionService';
+import type { SafetyNumberEntry } from '../types/encryption';
+
+/**
+ * Safety numbers between the user's key and each direct-message contact's key,
+ * and which of them the user has verified (remembered on this device)
+ */
+export const useSafetyNumbers = (publicKey: string | null) => {
+  const { currentUser } = useAuth();
+  const { rooms } = useRooms();
+  const [verifiedKeys, setVerifiedKeys] = useState<Record<string, string>>(() =>
+    currentUser ? getVerifiedKeys(currentUser.uid) : {}
+  );
+  // Safety numbers by `${contactId}:${contactKey}:${publicKey}`
+  const [safetyNumbers, setSafetyNumbers] = useState<Record<string, string>>({});
+
+  const contactIds = useMemo(
+    () =>
+      rooms
+        .filter((room) => room.type === 'direct')
+        .map((room) => room.members.find((memberId) => memberId !== currentUser?.uid))
+        .filter((memberId): memberId is string => !!memberId),
+    [rooms, currentUser]
+  );
+  const { members: contacts, loading, error } = useRoomMembers(contactIds);
+
+  useEffect(() => {
+    if (!currentUser || !publicKey) return;
+
+    const pending = contacts.filter(
+      (contact) =>
+        contact.publicKey && !(`${contact.uid}:${contact.publicKey}:${publicKey}` in safetyNumbers)
+    );
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+
+    Promise.all(
+      pending.map(async (contact) => {
+        const contactKey = contact.publicKey as string;
+        const safetyNumber = await getSafetyNumber(
+          currentUser.uid,
+          publicKey,
+          contact.uid,
+          contactKey
+        );
+        return [`${contact.uid}:${contactKey}:${publicKey}`, safetyNumber] as const;
+      })
+    ).then((entries) => {
+      if (cancelled) return;
+      setSafetyNumbers((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contacts, publicKey, safetyNumbers, currentUser]);
+
+  const entries = useMemo((): SafetyNumberEntry[] => {
+    if (!publicKey) return [];
+
+    return contacts.flatMap((contact) => {
+      const safetyNumber = contact.publicKey
+        ? safetyNumbers[`${contact.uid}:${contact.publicKey}:${publicKey}`]
+        : undefined;
+      if (!contact.publicKey || !safetyNumber) return [];
+
+      const verifiedKey = verifiedKeys[contact.uid];
+      return [
+        {
+          userId: contact.uid,
+          displayName: contact.displayName,
+          publicKey: contact.publicKey,
+          safetyNumber,
+          verified: verifiedKey === contact.publicKey,
+          keyChanged: !!verifiedKey && verifiedKey !== contact.publicKey,
+        },
+      ];
+    });
+  }, [contacts, publicKey, safetyNumbers, verifiedKeys]);
+
+  const setVerified = useCallback(
+    (entry: SafetyNumberEntry, verified: boolean) => {
+      if (!currentUser) return;
+      setKeyVerified(currentUser.uid, entry.userId, verified ? entry.publicKey : null);
+      setVerifiedKeys(getVerifiedKeys(currentUser.uid));
+    },
+    [currentUser]
+  );
+
+  return {
+    entries,
+    loading,
+    error,
+    setVerified,
+  };
+};
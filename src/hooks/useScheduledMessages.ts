@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import {
+  subscribeToScheduledMessages,
+  scheduleMessage as scheduleMessageService,
+  updateScheduledMessage as updateScheduledMessageService,
+  cancelScheduledMessage as cancelScheduledMessageService,
+} from '../lib/scheduledMessageService';
+import type { ScheduledMessage, SendMessageData } from '../types/message';
+
+/**
+ * The current user's scheduled messages for a room (soonest first), with
+ * actions to schedule, edit and cancel them
+ */
+export const useScheduledMessages = (roomId: string | undefined) => {
+  const { currentUser, userDoc } = useAuth();
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [loading, setLoading] = useState(!!roomId && !!currentUser);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !currentUser) {
+      return;
+    }
+
+    const unsubscribe = subscribeToScheduledMessages(currentUser.uid, (messages) => {
+      setScheduledMessages(messages.filter((message) => message.roomId === roomId));
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [roomId, currentUser]);
+
+  const scheduleMessage = useCallback(
+    async (messageData: SendMessageData, sendAt: Date): Promise<boolean> => {
+      if (!currentUser || !roomId) {
+        setError('Must be logged in to schedule messages');
+        return false;
+      }
+
+      if (sendAt.getTime() <= Date.now()) {
+        setError('Scheduled time must be in the future');
+        return false;
+      }
+
+      const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+      const avatarUrl = userDoc?.photoURL;
+
+      try {
+        setError(null);
+        await scheduleMessageService(
+          roomId,
+          currentUser.uid,
+          userName,
+          messageData,
+          sendAt,
+          avatarUrl
+        );
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to schedule message';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, userDoc, roomId]
+  );
+
+  const updateScheduledMessage = useCallback(
+    async (
+      scheduledMessageId: string,
+      updates: { content?: string; mentions?: string[]; sendAt?: Date }
+    ): Promise<boolean> => {
+      if (updates.sendAt && updates.sendAt.getTime() <= Date.now()) {
+        setError('Scheduled time must be in the future');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await updateScheduledMessageService(scheduledMessageId, updates);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update scheduled message';
+        setError(message);
+        return false;
+      }
+    },
+    []
+  );
+
+  const cancelScheduledMessage = useCallback(
+    async (scheduledMessageId: string): Promise<boolean> => {
+      try {
+        setError(null);
+        await cancelScheduledMessageService(scheduledMessageId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to cancel scheduled message';
+        setError(message);
+        return false;
+      }
+    },
+    []
+  );
+
+  return {
+    scheduledMessages,
+    loading,
+    error,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  };
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  subscribeToServiceWorkerUpdates,
+  applyServiceWorkerUpdate,
+} from '../lib/serviceWorkerService';
+
+/**
+ * Registers the service worker and tracks whether a newly deployed build is
+ * waiting to be loaded
+ */
+export const useServiceWorkerUpdate = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToServiceWorkerUpdates(setWaitingWorker);
+    return () => unsubscribe();
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    setUpdating(true);
+    applyServiceWorkerUpdate(waitingWorker);
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => {
+    setWaitingWorker(null);
+  }, []);
+
+  return {
+    updateAvailable: !!waitingWorker,
+    updating,
+    applyUpdate,
+    dismissUpdate,
+  };
+};
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useDecryptedMessages } from './useDecryptedMessages';
+import {
+  subscribeToThread,
+  sendThreadReply,
+  toggleReaction as toggleReactionService,
+  editMessage as editMessageService,
+  deleteMessage as deleteMessageService,
+  dismissLinkPreview as dismissLinkPreviewService,
+} from '../lib/messageService';
+import type { Message, SendMessageData } from '../types/message';
+
+export const useThread = (roomId: string | undefined, rootId: string | undefined) => {
+  const { currentUser, userDoc } = useAuth();
+  const [replies, setReplies] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(!!roomId && !!rootId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !rootId) {
+      return;
+    }
+
+    const unsubscribe = subscribeToThread(roomId, rootId, (updatedReplies) => {
+      setReplies(updatedReplies);
+      setLoading(false);
+      setError(null);
+    });
+
+    return () => unsubscribe();
+  }, [roomId, rootId]);
+
+  const decryptedReplies = useDecryptedMessages(replies);
+
+  const sendReply = useCallback(
+    async (messageData: SendMessageData): Promise<boolean> => {
+      if (!currentUser || !roomId || !rootId) {
+        setError('Must be logged in to reply');
+        return false;
+      }
+
+      const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+      const avatarUrl = userDoc?.photoURL;
+
+      try {
+        setError(null);
+        await sendThreadReply(roomId, rootId, currentUser.uid, userName, messageData, avatarUrl);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to send reply';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, userDoc, roomId, rootId]
+  );
+
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string): Promise<boolean> => {
+      if (!currentUser || !roomId || !rootId) {
+        setError('Must be logged in to react');
+        return false;
+      }
+
+      const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+
+      try {
+        setError(null);
+        await toggleReactionService(roomId, messageId, emoji, currentUser.uid, userName, rootId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to toggle reaction';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, userDoc, roomId, rootId]
+  );
+
+  const editReply = useCallback(
+    async (messageId: string, newContent: string, mentions: string[] = []): Promise<boolean> => {
+      if (!currentUser || !roomId || !rootId) {
+        setError('Must be logged in to edit messages');
+        return false;
+      }
+
+      try {
+        setError(null);
+        const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+        await editMessageService(
+          roomId,
+          messageId,
+          newContent,
+          mentions,
+          currentUser.uid,
+          userName,
+          rootId
+        );
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to edit message';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, userDoc, roomId, rootId]
+  );
+
+  const deleteReply = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!currentUser || !roomId || !rootId) {
+        setError('Must be logged in to delete messages');
+        return false;
+      }
+
+      try {
+        setError(null);
+        const userName = userDoc?.displayName || currentUser.email || 'Anonymous';
+        await deleteMessageService(roomId, messageId, currentUser.uid, userName, rootId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete message';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, userDoc, roomId, rootId]
+  );
+
+  const dismissLinkPreview = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!currentUser || !roomId || !rootId) {
+        setError('Must be logged in to dismiss link previews');
+        return false;
+      }
+
+      try {
+        setError(null);
+        await dismissLinkPreviewService(roomId, messageId, rootId);
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to dismiss link preview';
+        setError(message);
+        return false;
+      }
+    },
+    [currentUser, roomId, rootId]
+  );
+
+  return {
+    replies: decryptedReplies,
+    loading,
+    error,
+    sendReply,
+    toggleReaction,
+    editReply,
+    deleteReply,
+    dismissLinkPreview,
+  };
+};
@@ -1,6 +1,4 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { getDoc, doc } from 'firebase/firestore';
-import { db } from '../config/firebase';
 import {
   subscribeToSignals,
   subscribeToCall,
@@ -8,112 +6,188 @@ import {
   sendAnswer,
   sendIceCandidate,
 } from '../lib/callService';
-import type { MediaType } from '../types/call';
-
-// STUN + TURN servers for NAT traversal (TURN needed for symmetric NAT on mobile)
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    {
-      urls: 'turn:openrelay.metered.ca:80',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-    {
-      urls: 'turn:openrelay.metered.ca:443',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-    {
-      urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-      username: 'openrelayproject',
-      credential: 'openrelayproject',
-    },
-  ],
-  iceCandidatePoolSize: 10,
-};
+import { getRtcConfiguration } from '../lib/iceServerService';
+import { getCallMediaConstraints, getMediaDevicePreferences } from '../lib/mediaDeviceService';
+import {
+  createBackgroundProcessor,
+  isBackgroundProcessingSupported,
+  type BackgroundProcessor,
+} from '../lib/backgroundProcessor';
+import {
+  parseStatsReport,
+  computeCallStats,
+  summarizeCallQuality,
+  type StatsSnapshot,
+} from '../lib/callStats';
+import type {
+  BackgroundEffect,
+  CallQualityReport,
+  CallSignal,
+  CallStats,
+  CallType,
+  MediaType,
+} from '../types/call';
+
+// How often connection statistics are sampled
+const STATS_INTERVAL_MS = 2000;
+
+// How long a dropped connection may try to recover before the participant is
+// dropped (or a 1-on-1 call ends); VITE_CALL_RECONNECT_GRACE_MS overrides it
+const DEFAULT_RECONNECT_GRACE_PERIOD_MS =
+  Number(import.meta.env.VITE_CALL_RECONNECT_GRACE_MS) || 30000;
+
+// How often ICE is restarted while a connection stays down
+const ICE_RESTART_INTERVAL_MS = 5000;
 
 interface UseVideoCallProps {
   callId: string | null;
   userId: string;
-  isInitiator: boolean;
   mediaType?: MediaType; // 'audio' or 'video'
-  onRemoteStream?: (stream: MediaStream) => void;
+  participantIds?: string[]; // Who to connect to; defaults to the call document's participants
+  reconnectGracePeriodMs?: number;
+  isOnHold?: boolean; // Stop sending and playing media without touching the mute state
+  onRemoteStream?: (stream: MediaStream, remoteUserId: string) => void;
   onCallEnded?: () => void;
 }
 
 interface UseVideoCallReturn {
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  remoteStream: MediaStream | null; // The first remote participant's stream (1-on-1 calls)
+  remoteStreams: Record<string, MediaStream>; // Keyed by remote user ID
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   isScreenSharingSupported: boolean;
+  callStats: Record<string, CallStats>; // Latest sample, keyed by remote user ID
+  qualityReport: CallQualityReport | null; // Summary of the call so far
+  reconnectingPeerIds: string[]; // Remote users whose connection dropped and is recovering
+  backgroundEffect: BackgroundEffect;
+  isBackgroundEffectSupported: boolean;
   toggleAudio: () => void;
   toggleVideo: () => void;
   toggleScreenShare: () => Promise<void>;
+  switchDevice: (kind: 'audioinput' | 'videoinput', deviceId: string) => Promise<void>;
+  setBackgroundEffect: (effect: BackgroundEffect) => Promise<void>;
   startCall: () => Promise<void>;
   endCall: () => void;
 }
 
+// One peer connection per remote participant (full mesh)
+interface Peer {
+  connection: RTCPeerConnection;
+  // ICE candidates that arrive before the remote description is set
+  iceCandidateQueue: RTCIceCandidateInit[];
+  // Set while the connection is down
+  graceTimeout?: ReturnType<typeof setTimeout>;
+  restartInterval?: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Stop waiting for a peer's connection to recover
+ */
+const clearReconnectTimers = (peer: Peer) => {
+  clearTimeout(peer.graceTimeout);
+  clearInterval(peer.restartInterval);
+  peer.graceTimeout = undefined;
+  peer.restartInterval = undefined;
+};
+
+const toIceCandidateInit = (iceCandidate: NonNullable<CallSignal['iceCandidate']>) => ({
+  candidate: iceCandidate.candidate,
+  sdpMid: iceCandidate.sdpMid,
+  sdpMLineIndex: iceCandidate.sdpMLineIndex,
+});
+
+/**
+ * WebRTC for 1-on-1 calls, group calls and voice channels. Every participant
+ * keeps a peer connection to every other participant; for each pair, the user
+ * with the lower ID sends the offer, so offers never collide. The same user
+ * restarts ICE when the connection drops (e.g. on a network switch).
+ */
 export const useVideoCall = ({
   callId,
   userId,
-  isInitiator,
   mediaType = 'video',
+  participantIds,
+  reconnectGracePeriodMs = DEFAULT_RECONNECT_GRACE_PERIOD_MS,
+  isOnHold = false,
   onRemoteStream,
   onCallEnded,
 }: UseVideoCallProps): UseVideoCallReturn => {
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [isVideoEnabled, setIsVideoEnabled] = useState(mediaType === 'video');
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [callParticipants, setCallParticipants] = useState<string[]>([]);
+  const [isStarted, setIsStarted] = useState(false);
+  const [callStats, setCallStats] = useState<Record<string, CallStats>>({});
+  const [qualityReport, setQualityReport] = useState<CallQualityReport | null>(null);
+  const [reconnectingPeerIds, setReconnectingPeerIds] = useState<string[]>([]);
+  // Bumped when a group peer is dropped, so the mesh reconnects it if it's still listed
+  const [droppedPeerCount, setDroppedPeerCount] = useState(0);
+  const [backgroundEffect, setBackgroundEffectState] = useState<BackgroundEffect>({
+    type: 'none',
+  });
 
   // Check if screen sharing is supported (not available on most mobile browsers)
   const isScreenSharingSupported =
     typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+  const isBackgroundEffectSupported = mediaType === 'video' && isBackgroundProcessingSupported();
 
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const peersRef = useRef<Map<string, Peer>>(new Map());
   const originalVideoTrackRef = useRef<MediaStreamTrack | null>(null);
+  // Background blur / virtual background in front of the camera track, if on
+  const backgroundProcessorRef = useRef<BackgroundProcessor | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
+  const localStreamPromiseRef = useRef<Promise<MediaStream> | null>(null);
+  // A given participant list (voice channels) behaves like a group call
+  const callTypeRef = useRef<CallType>(participantIds ? 'group' : '1-on-1');
+  const hasParticipantIds = !!participantIds;
+  const participants = participantIds ?? callParticipants;
 
-  // Keep a stable reference to onCallEnded to avoid re-subscriptions
+  // Keep stable references to callbacks to avoid re-subscriptions
   const onCallEndedRef = useRef(onCallEnded);
+  const onRemoteStreamRef = useRef(onRemoteStream);
   useEffect(() => {
     onCallEndedRef.current = onCallEnded;
-  }, [onCallEnded]);
-
-  // Get remote user ID from call
-  const remoteUserId = useRef<string>('');
+    onRemoteStreamRef.current = onRemoteStream;
+  }, [onCallEnded, onRemoteStream]);
 
   // Track processed signals to avoid reprocessing
   const processedSignalsRef = useRef<Set<string>>(new Set());
 
-  // Queue for ICE candidates that arrive before remote description is set
-  const iceCandidateQueueRef = useRef<RTCIceCandidateInit[]>([]);
+  // Previous getStats() counters per peer, and one sample per interval for the quality report
+  const statsSnapshotsRef = useRef<Map<string, StatsSnapshot>>(new Map());
+  const qualitySamplesRef = useRef<CallStats[]>([]);
 
-  // Mutex to prevent concurrent peer connection initialization (Bug 1 fix)
-  const isInitializingPCRef = useRef(false);
+  // ICE candidates from users we have no peer connection with yet
+  const pendingIceCandidatesRef = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+
+  // Signals and outgoing connections are handled one at a time, so two tasks
+  // never race to create the same peer connection
+  const taskChainRef = useRef<Promise<void>>(Promise.resolve());
+  const runExclusive = useCallback((task: () => Promise<void>) => {
+    taskChainRef.current = taskChainRef.current.then(task).catch((error) => {
+      console.error('useVideoCall - Error handling call task:', error);
+    });
+  }, []);
 
-  // Set remote user ID from the call document
+  // Keep the participant list (and call type) in sync with the call document
   useEffect(() => {
-    if (!callId || !userId) return;
+    if (!callId || !userId || hasParticipantIds) return;
 
     const unsubscribe = subscribeToCall(callId, (call) => {
       if (call) {
-        // Set remote user ID from the call document
-        const remoteId = call.callerId === userId ? call.calleeId : call.callerId;
-        if (remoteId !== remoteUserId.current) {
-          console.log('useVideoCall - Setting remote user ID:', remoteId);
-          remoteUserId.current = remoteId;
-        }
+        callTypeRef.current = call.type;
+        setCallParticipants((prev) =>
+          prev.join(',') === call.participants.join(',') ? prev : call.participants
+        );
       }
     });
 
     return () => unsubscribe();
-  }, [callId, userId]);
+  }, [callId, userId, hasParticipantIds]);
 
   /**
    * Initialize local media stream
@@ -122,27 +196,15 @@ export const useVideoCall = ({
     try {
       console.log(`Requesting ${mediaType} media stream...`);
 
-      const constraints: MediaStreamConstraints = {
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-        video:
-          mediaType === 'video'
-            ? {
-                width: { ideal: 1280, min: 320 },
-                height: { ideal: 720, min: 240 },
-                facingMode: 'user',
-              }
-            : false,
-      };
+      // Use the devices picked in the green room (or last time)
+      const constraints = getCallMediaConstraints(mediaType, getMediaDevicePreferences(userId));
 
       let stream: MediaStream;
       try {
         stream = await navigator.mediaDevices.getUserMedia(constraints);
       } catch (constraintError) {
-        // Fallback to basic constraints if ideal fails (common on mobile)
+        // Fallback to basic constraints if ideal fails (common on mobile) or the
+        // remembered device is gone
         console.warn(
           'Ideal constraints failed, falling back to basic constraints:',
           constraintError
@@ -176,25 +238,139 @@ export const useVideoCall = ({
       }
       throw new Error('Failed to access camera/microphone');
     }
+  }, [mediaType, userId]);
+
+  /**
+   * Get the local stream, requesting it only once
+   */
+  const getLocalStream = useCallback(() => {
+    if (!localStreamPromiseRef.current) {
+      localStreamPromiseRef.current = initLocalStream().catch((error) => {
+        localStreamPromiseRef.current = null;
+        throw error;
+      });
+    }
+    return localStreamPromiseRef.current;
+  }, [initLocalStream]);
+
+  /**
+   * Close the connection to one remote participant
+   */
+  const closePeer = useCallback((remoteUserId: string) => {
+    const peer = peersRef.current.get(remoteUserId);
+    if (peer) {
+      console.log('useVideoCall - Closing peer connection to:', remoteUserId);
+      clearReconnectTimers(peer);
+      peer.connection.close();
+      peersRef.current.delete(remoteUserId);
+    }
+    pendingIceCandidatesRef.current.delete(remoteUserId);
+    statsSnapshotsRef.current.delete(remoteUserId);
+    setReconnectingPeerIds((prev) =>
+      prev.includes(remoteUserId) ? prev.filter((id) => id !== remoteUserId) : prev
+    );
+    setCallStats((prev) => {
+      if (!prev[remoteUserId]) return prev;
+      const next = { ...prev };
+      delete next[remoteUserId];
+      return next;
+    });
+    setRemoteStreams((prev) => {
+      if (!prev[remoteUserId]) return prev;
+      const next = { ...prev };
+      delete next[remoteUserId];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Stop local media, close every peer connection and reset state
+   */
+  const cleanup = useCallback(() => {
+    // Stop all tracks via ref so we always get the latest stream
+    if (localStreamRef.current) {
+      localStreamRef.current.getTracks().forEach((track) => track.stop());
+      localStreamRef.current = null;
+    }
+    localStreamPromiseRef.current = null;
+
+    // Stop the saved camera track if screen sharing was active
+    if (originalVideoTrackRef.current) {
+      originalVideoTrackRef.current.stop();
+      originalVideoTrackRef.current = null;
+    }
+
+    // Stop the background effect and the camera behind it
+    if (backgroundProcessorRef.current) {
+      backgroundProcessorRef.current.stop();
+      backgroundProcessorRef.current.sourceTrack.stop();
+      backgroundProcessorRef.current = null;
+    }
+
+    // Close peer connections – this triggers 'closed' state which we intentionally ignore
+    peersRef.current.forEach((peer) => {
+      clearReconnectTimers(peer);
+      peer.connection.close();
+    });
+    peersRef.current.clear();
+    pendingIceCandidatesRef.current.clear();
+    statsSnapshotsRef.current.clear();
+
+    // The quality report is kept so it can still be logged after the call
+    setLocalStream(null);
+    setRemoteStreams({});
+    setCallStats({});
+    setBackgroundEffectState({ type: 'none' });
+    setReconnectingPeerIds([]);
+    setIsAudioEnabled(true);
+    setIsVideoEnabled(mediaType === 'video');
+    setIsScreenSharing(false);
+    setIsStarted(false);
   }, [mediaType]);
 
   /**
-   * Initialize peer connection
+   * Renegotiate a dropped connection with fresh ICE candidates. The offer goes
+   * over the call's signals collection like the first one.
    */
-  const initPeerConnection = useCallback(
-    async (stream: MediaStream) => {
-      if (!callId) return null;
-
-      // Close existing peer connection if any (Bug 3 fix)
-      if (peerConnectionRef.current) {
-        peerConnectionRef.current.close();
-        peerConnectionRef.current = null;
-      }
+  const restartPeerIce = useCallback(
+    (remoteUserId: string) => {
+      runExclusive(async () => {
+        const peer = peersRef.current.get(remoteUserId);
+        // Skip if the peer is gone or a negotiation is already in flight
+        if (!callId || !peer || peer.connection.signalingState !== 'stable') return;
+
+        console.log('useVideoCall - Restarting ICE with:', remoteUserId);
+        // Fresh configuration in case the TURN credentials expired
+        peer.connection.setConfiguration(await getRtcConfiguration());
+        const offer = await peer.connection.createOffer({ iceRestart: true });
+        await peer.connection.setLocalDescription(offer);
+
+        await sendOffer(
+          callId,
+          userId,
+          remoteUserId,
+          { sdp: offer.sdp || '', type: 'offer' },
+          true
+        );
+      });
+    },
+    [callId, userId, runExclusive]
+  );
 
-      const peerConnection = new RTCPeerConnection(ICE_SERVERS);
-      peerConnectionRef.current = peerConnection;
+  /**
+   * Create the peer connection to a remote participant
+   */
+  const createPeer = useCallback(
+    (remoteUserId: string, stream: MediaStream, configuration: RTCConfiguration): Peer => {
+      const peerConnection = new RTCPeerConnection(configuration);
+      const peer: Peer = {
+        connection: peerConnection,
+        iceCandidateQueue: pendingIceCandidatesRef.current.get(remoteUserId) || [],
+      };
+      pendingIceCandidatesRef.current.delete(remoteUserId);
+      peersRef.current.set(remoteUserId, peer);
 
-      // Add local stream tracks to peer connection
+      // Add local stream tracks (the screen track if sharing) to peer connection
       stream.getTracks().forEach((track) => {
         peerConnection.addTrack(track, stream);
       });
@@ -202,16 +378,14 @@ export const useVideoCall = ({
       // Handle incoming tracks
       peerConnection.ontrack = (event) => {
         const [remoteStream] = event.streams;
-        setRemoteStream(remoteStream);
-        if (onRemoteStream) {
-          onRemoteStream(remoteStream);
-        }
+        setRemoteStreams((prev) => ({ ...prev, [remoteUserId]: remoteStream }));
+        onRemoteStreamRef.current?.(remoteStream, remoteUserId);
       };
 
       // Handle ICE candidates
       peerConnection.onicecandidate = (event) => {
-        if (event.candidate && callId && remoteUserId.current) {
-          sendIceCandidate(callId, userId, remoteUserId.current, {
+        if (event.candidate && callId) {
+          sendIceCandidate(callId, userId, remoteUserId, {
             candidate: event.candidate.candidate,
             sdpMid: event.candidate.sdpMid,
             sdpMLineIndex: event.candidate.sdpMLineIndex,
@@ -219,281 +393,312 @@ export const useVideoCall = ({
         }
       };
 
-      // Handle connection state changes
-      peerConnection.onconnectionstatechange = () => {
+      // Handle connection drops. 'disconnected' can recover on its own and
+      // 'failed' needs an ICE restart; either way the participant is only
+      // dropped once the grace period runs out. 'closed' is triggered by our
+      // own endCall() – ignore it.
+      const handleConnectivityChange = () => {
+        // Ignore events from a connection that has since been replaced
+        if (peersRef.current.get(remoteUserId)?.connection !== peerConnection) return;
+
+        const iceState = peerConnection.iceConnectionState;
         const state = peerConnection.connectionState;
-        console.log('Connection state:', state);
-        // 'disconnected' is transient and can recover – ignore it.
-        // 'closed' is triggered by our own endCall() – ignore it.
-        // Only act on 'failed' which is a permanent unrecoverable error.
-        if (state === 'failed') {
-          // Stop local stream tracks to release camera/mic
-          if (localStreamRef.current) {
-            localStreamRef.current.getTracks().forEach((track) => track.stop());
-            localStreamRef.current = null;
-          }
-          // Close PC before nullifying to release native resources (Bug 2 fix)
-          if (peerConnectionRef.current) {
-            peerConnectionRef.current.close();
-          }
-          peerConnectionRef.current = null;
-          setLocalStream(null);
-          setRemoteStream(null);
-          setIsAudioEnabled(true);
-          setIsVideoEnabled(mediaType === 'video');
-          setIsScreenSharing(false);
-          if (onCallEndedRef.current) {
-            onCallEndedRef.current();
+        console.log('Connection state with', remoteUserId, ':', state, '/ ICE:', iceState);
+
+        if (iceState === 'connected' || iceState === 'completed') {
+          if (peer.graceTimeout) {
+            console.log('useVideoCall - Reconnected to:', remoteUserId);
           }
+          clearReconnectTimers(peer);
+          setReconnectingPeerIds((prev) =>
+            prev.includes(remoteUserId) ? prev.filter((id) => id !== remoteUserId) : prev
+          );
+          return;
         }
-      };
 
-      // Fallback: monitor iceConnectionState for browsers that don't support connectionState
-      peerConnection.oniceconnectionstatechange = () => {
-        const iceState = peerConnection.iceConnectionState;
-        console.log('ICE connection state:', iceState);
+        const isFailed = iceState === 'failed' || state === 'failed';
+        if (!isFailed && iceState !== 'disconnected') return;
 
-        if (iceState === 'failed') {
-          // Attempt ICE restart before giving up
-          console.log('ICE connection failed, attempting ICE restart...');
-          peerConnection.restartIce();
+        // The user who sent the first offer drives the restart, so offers never collide
+        const isOfferer = userId < remoteUserId;
+        if (isFailed && isOfferer) {
+          restartPeerIce(remoteUserId);
         }
 
-        if (iceState === 'disconnected') {
-          // Give a grace period for reconnection (e.g., network switch on mobile)
-          setTimeout(() => {
-            if (peerConnection.iceConnectionState === 'disconnected') {
-              console.log('ICE still disconnected after grace period, attempting restart...');
-              peerConnection.restartIce();
-            }
-          }, 5000);
+        if (peer.graceTimeout) return;
+
+        setReconnectingPeerIds((prev) =>
+          prev.includes(remoteUserId) ? prev : [...prev, remoteUserId]
+        );
+
+        if (isOfferer) {
+          peer.restartInterval = setInterval(
+            () => restartPeerIce(remoteUserId),
+            ICE_RESTART_INTERVAL_MS
+          );
         }
+
+        peer.graceTimeout = setTimeout(() => {
+          console.log('useVideoCall - Could not reconnect to:', remoteUserId);
+          if (callTypeRef.current === 'group') {
+            // Drop only this participant; the rest of the call carries on, and
+            // the mesh offers a fresh connection if they are still in the call
+            closePeer(remoteUserId);
+            setDroppedPeerCount((count) => count + 1);
+            return;
+          }
+
+          cleanup();
+          if (onCallEndedRef.current) {
+            onCallEndedRef.current();
+          }
+        }, reconnectGracePeriodMs);
       };
 
-      return peerConnection;
+      peerConnection.onconnectionstatechange = handleConnectivityChange;
+      peerConnection.oniceconnectionstatechange = handleConnectivityChange;
+
+      return peer;
     },
-    [callId, userId, onRemoteStream, mediaType]
+    [callId, userId, reconnectGracePeriodMs, closePeer, cleanup, restartPeerIce]
   );
 
   /**
-   * Start the call (for initiator)
+   * Apply ICE candidates that arrived before the remote description
    */
-  const startCall = useCallback(async () => {
-    if (!callId || !isInitiator) return;
+  const flushIceCandidates = async (peer: Peer) => {
+    if (peer.iceCandidateQueue.length === 0) return;
+
+    console.log(
+      'useVideoCall - Processing',
+      peer.iceCandidateQueue.length,
+      'queued ICE candidates'
+    );
+    for (const candidate of peer.iceCandidateQueue) {
+      await peer.connection.addIceCandidate(new RTCIceCandidate(candidate));
+    }
+    peer.iceCandidateQueue = [];
+  };
 
-    console.log('useVideoCall - startCall: Initiating call setup');
+  /**
+   * Connect to a remote participant by sending them an offer
+   */
+  const connectToPeer = useCallback(
+    async (remoteUserId: string) => {
+      if (!callId || peersRef.current.has(remoteUserId)) return;
 
-    try {
-      const stream = await initLocalStream();
-      const peerConnection = await initPeerConnection(stream);
+      const [stream, configuration] = await Promise.all([getLocalStream(), getRtcConfiguration()]);
+      if (peersRef.current.has(remoteUserId)) return;
 
-      if (!peerConnection) {
-        console.error('useVideoCall - startCall: Failed to create peer connection');
-        return;
-      }
+      console.log('useVideoCall - Creating offer for:', remoteUserId);
+      const peer = createPeer(remoteUserId, stream, configuration);
 
-      // Eagerly resolve remoteUserId if the subscription hasn't fired yet
-      if (!remoteUserId.current) {
-        console.log('useVideoCall - startCall: remoteUserId not set yet, fetching from Firestore');
-        const callSnap = await getDoc(doc(db, 'calls', callId));
-        if (callSnap.exists()) {
-          const data = callSnap.data();
-          remoteUserId.current = data.callerId === userId ? data.calleeId : data.callerId;
-          console.log('useVideoCall - startCall: Resolved remoteUserId:', remoteUserId.current);
-        }
-      }
-
-      console.log('useVideoCall - startCall: Creating offer, remote user:', remoteUserId.current);
-
-      // Create and send offer (Bug 9 fix: only request video for video calls)
-      const offer = await peerConnection.createOffer({
+      // Only request video for video calls
+      const offer = await peer.connection.createOffer({
         offerToReceiveAudio: true,
         offerToReceiveVideo: mediaType === 'video',
       });
+      await peer.connection.setLocalDescription(offer);
 
-      await peerConnection.setLocalDescription(offer);
+      await sendOffer(callId, userId, remoteUserId, {
+        sdp: offer.sdp || '',
+        type: 'offer',
+      });
+    },
+    [callId, userId, mediaType, getLocalStream, createPeer]
+  );
 
-      if (remoteUserId.current) {
-        console.log('useVideoCall - startCall: Sending offer to:', remoteUserId.current);
-        await sendOffer(callId, userId, remoteUserId.current, {
-          sdp: offer.sdp || '',
-          type: 'offer',
-        });
-      } else {
-        console.error('useVideoCall - startCall: No remote user ID could be determined');
-      }
+  /**
+   * Start the call: acquire local media, then connect to the other participants
+   */
+  const startCall = useCallback(async () => {
+    if (!callId) return;
+
+    console.log('useVideoCall - startCall: Acquiring local media');
+
+    try {
+      // Fetch TURN credentials up front so the first connection isn't delayed
+      await Promise.all([getLocalStream(), getRtcConfiguration()]);
+      qualitySamplesRef.current = [];
+      setQualityReport(null);
+      setIsStarted(true);
     } catch (error) {
       console.error('Error starting call:', error);
       throw error;
     }
-  }, [callId, isInitiator, userId, mediaType, initLocalStream, initPeerConnection]);
+  }, [callId, getLocalStream]);
 
   /**
-   * Handle incoming signals
+   * Keep the mesh in sync with the participant list: connect to participants
+   * who joined or whose connection was dropped (when it's our turn to offer)
+   * and drop the ones who left
    */
   useEffect(() => {
-    if (!callId) return;
+    if (!isStarted || !participants.includes(userId)) return;
 
-    console.log('useVideoCall - Setting up signal subscription for call:', callId);
-
-    const unsubscribe = subscribeToSignals(callId, userId, async (signal) => {
-      try {
-        console.log('useVideoCall - Received signal:', signal.type, 'from:', signal.senderId);
+    const remoteUserIds = participants.filter((id) => id !== userId);
 
-        // Skip if already processed using document ID
-        if (processedSignalsRef.current.has(signal.id)) {
-          console.log('useVideoCall - Skipping duplicate signal:', signal.id);
-          return;
-        }
+    peersRef.current.forEach((_peer, remoteUserId) => {
+      if (!remoteUserIds.includes(remoteUserId)) {
+        closePeer(remoteUserId);
+      }
+    });
 
-        // Mark as processed
-        processedSignalsRef.current.add(signal.id);
+    remoteUserIds
+      .filter((remoteUserId) => userId < remoteUserId && !peersRef.current.has(remoteUserId))
+      .forEach((remoteUserId) => runExclusive(() => connectToPeer(remoteUserId)));
+  }, [isStarted, participants, droppedPeerCount, userId, closePeer, connectToPeer, runExclusive]);
 
-        // Set remote user ID
-        remoteUserId.current = signal.senderId;
+  /**
+   * Sample connection statistics from every peer. The worst connection in
+   * each sample counts towards the call's quality report.
+   */
+  useEffect(() => {
+    if (!isStarted) return;
 
-        // Initialize peer connection if not already done (Bug 1 fix: mutex prevents concurrent init)
-        if (!peerConnectionRef.current && !isInitializingPCRef.current) {
-          isInitializingPCRef.current = true;
-          console.log('useVideoCall - Initializing peer connection for incoming signal');
+    const sampleStats = async () => {
+      const samples = await Promise.all(
+        Array.from(peersRef.current.entries()).map(async ([remoteUserId, peer]) => {
           try {
-            const stream = await initLocalStream();
-            await initPeerConnection(stream);
-          } finally {
-            isInitializingPCRef.current = false;
+            const report = await peer.connection.getStats();
+            const snapshot = parseStatsReport(report, Date.now());
+            const previous = statsSnapshotsRef.current.get(remoteUserId);
+            statsSnapshotsRef.current.set(remoteUserId, snapshot);
+            return [remoteUserId, computeCallStats(snapshot, previous)] as const;
+          } catch (error) {
+            console.debug('useVideoCall - Failed to read stats for:', remoteUserId, error);
+            return null;
           }
-        } else if (!peerConnectionRef.current && isInitializingPCRef.current) {
-          // Another signal triggered initialization concurrently — queue ICE candidates
-          console.log('useVideoCall - PC init in progress, queueing signal:', signal.type);
-          if (signal.type === 'ice-candidate' && signal.iceCandidate) {
-            iceCandidateQueueRef.current.push({
-              candidate: signal.iceCandidate.candidate,
-              sdpMid: signal.iceCandidate.sdpMid,
-              sdpMLineIndex: signal.iceCandidate.sdpMLineIndex,
-            });
-          }
-          return;
-        }
+        })
+      );
 
-        const peerConnection = peerConnectionRef.current;
-        if (!peerConnection) {
-          console.error('useVideoCall - No peer connection available');
-          return;
-        }
+      const entries = samples.filter((sample) => sample !== null);
+      setCallStats(Object.fromEntries(entries));
 
-        if (signal.type === 'offer' && signal.offer) {
-          const signalingState = peerConnection.signalingState;
+      // Only established connections with a previous sample have meaningful rates
+      const connected = entries
+        .map(([, stats]) => stats)
+        .filter((stats) => stats.candidateType && stats.bitrateIn + stats.bitrateOut > 0);
+      if (connected.length === 0) return;
 
-          // Skip if we already have a remote description from this offer
-          if (
-            peerConnection.remoteDescription &&
-            peerConnection.remoteDescription.type === 'offer'
-          ) {
-            console.log('useVideoCall - Skipping duplicate offer');
-            return;
-          }
+      const worst = connected.reduce((a, b) => (b.score < a.score ? b : a));
+      qualitySamplesRef.current.push(worst);
+      setQualityReport(summarizeCallQuality(qualitySamplesRef.current));
+    };
 
-          // Only process offer if we're in the right state
-          if (signalingState !== 'stable' && signalingState !== 'have-local-offer') {
-            console.log('useVideoCall - Skipping offer, wrong state:', signalingState);
-            return;
-          }
+    const interval = setInterval(sampleStats, STATS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isStarted]);
 
-          console.log('useVideoCall - Processing offer');
-          // Handle incoming offer
-          await peerConnection.setRemoteDescription(
-            new RTCSessionDescription({
-              type: 'offer',
-              sdp: signal.offer.sdp,
-            })
-          );
+  /**
+   * Handle incoming signals
+   */
+  useEffect(() => {
+    if (!callId) return;
 
-          // Process any queued ICE candidates
-          if (iceCandidateQueueRef.current.length > 0) {
-            console.log(
-              'useVideoCall - Processing',
-              iceCandidateQueueRef.current.length,
-              'queued ICE candidates'
-            );
-            for (const candidate of iceCandidateQueueRef.current) {
-              await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-            }
-            iceCandidateQueueRef.current = [];
-          }
+    console.log('useVideoCall - Setting up signal subscription for call:', callId);
 
-          // Create and send answer
-          const answer = await peerConnection.createAnswer();
-          await peerConnection.setLocalDescription(answer);
+    const handleSignal = async (signal: CallSignal & { id: string }) => {
+      console.log('useVideoCall - Received signal:', signal.type, 'from:', signal.senderId);
 
-          console.log('useVideoCall - Sending answer to:', signal.senderId);
-          await sendAnswer(callId, userId, signal.senderId, {
-            sdp: answer.sdp || '',
-            type: 'answer',
-          });
-        } else if (signal.type === 'answer' && signal.answer) {
-          const signalingState = peerConnection.signalingState;
+      // Skip if already processed using document ID
+      if (processedSignalsRef.current.has(signal.id)) {
+        console.log('useVideoCall - Skipping duplicate signal:', signal.id);
+        return;
+      }
+      processedSignalsRef.current.add(signal.id);
 
-          // Skip if we already have a remote description (answer already processed)
-          if (peerConnection.remoteDescription) {
-            console.log('useVideoCall - Skipping answer, remote description already set');
-            return;
-          }
+      const remoteUserId = signal.senderId;
 
-          // Only process answer if we have a local offer
-          if (signalingState !== 'have-local-offer') {
-            console.log('useVideoCall - Skipping answer, wrong state:', signalingState);
-            return;
-          }
+      const existingPeer = peersRef.current.get(remoteUserId);
 
-          console.log('useVideoCall - Processing answer');
-          // Handle incoming answer
-          await peerConnection.setRemoteDescription(
-            new RTCSessionDescription({
-              type: 'answer',
-              sdp: signal.answer.sdp,
-            })
-          );
+      if (signal.type === 'offer' && signal.offer && signal.iceRestart && existingPeer) {
+        // Renegotiate the existing connection; media keeps flowing once ICE reconnects
+        if (existingPeer.connection.signalingState !== 'stable') {
+          console.log('useVideoCall - Skipping ICE restart, negotiation in progress');
+          return;
+        }
 
-          // Process any queued ICE candidates
-          if (iceCandidateQueueRef.current.length > 0) {
-            console.log(
-              'useVideoCall - Processing',
-              iceCandidateQueueRef.current.length,
-              'queued ICE candidates'
-            );
-            for (const candidate of iceCandidateQueueRef.current) {
-              await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-            }
-            iceCandidateQueueRef.current = [];
-          }
-        } else if (signal.type === 'ice-candidate' && signal.iceCandidate) {
-          console.log('useVideoCall - Processing ICE candidate');
-
-          const candidate: RTCIceCandidateInit = {
-            candidate: signal.iceCandidate.candidate,
-            sdpMid: signal.iceCandidate.sdpMid,
-            sdpMLineIndex: signal.iceCandidate.sdpMLineIndex,
-          };
-
-          // Check if remote description is set
-          if (!peerConnection.remoteDescription) {
-            console.log('useVideoCall - Queueing ICE candidate (no remote description yet)');
-            iceCandidateQueueRef.current.push(candidate);
-          } else {
-            // Add ICE candidate immediately
-            await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-          }
+        console.log('useVideoCall - Processing ICE restart offer from:', remoteUserId);
+        existingPeer.connection.setConfiguration(await getRtcConfiguration());
+        await existingPeer.connection.setRemoteDescription(
+          new RTCSessionDescription({ type: 'offer', sdp: signal.offer.sdp })
+        );
+        await flushIceCandidates(existingPeer);
+
+        const answer = await existingPeer.connection.createAnswer();
+        await existingPeer.connection.setLocalDescription(answer);
+        await sendAnswer(callId, userId, remoteUserId, {
+          sdp: answer.sdp || '',
+          type: 'answer',
+        });
+      } else if (signal.type === 'offer' && signal.offer) {
+        const [stream, configuration] = await Promise.all([
+          getLocalStream(),
+          getRtcConfiguration(),
+        ]);
+
+        // A new offer means the remote user (re)joined; replace any stale connection
+        if (peersRef.current.has(remoteUserId)) {
+          closePeer(remoteUserId);
+        }
+
+        console.log('useVideoCall - Processing offer from:', remoteUserId);
+        const peer = createPeer(remoteUserId, stream, configuration);
+        await peer.connection.setRemoteDescription(
+          new RTCSessionDescription({ type: 'offer', sdp: signal.offer.sdp })
+        );
+        await flushIceCandidates(peer);
+
+        // Create and send answer
+        const answer = await peer.connection.createAnswer();
+        await peer.connection.setLocalDescription(answer);
+
+        console.log('useVideoCall - Sending answer to:', remoteUserId);
+        await sendAnswer(callId, userId, remoteUserId, {
+          sdp: answer.sdp || '',
+          type: 'answer',
+        });
+      } else if (signal.type === 'answer' && signal.answer) {
+        const peer = peersRef.current.get(remoteUserId);
+
+        // Only process answer if we have a local offer for this peer
+        if (!peer || peer.connection.signalingState !== 'have-local-offer') {
+          console.log('useVideoCall - Skipping answer, no pending offer for:', remoteUserId);
+          return;
+        }
+
+        console.log('useVideoCall - Processing answer from:', remoteUserId);
+        await peer.connection.setRemoteDescription(
+          new RTCSessionDescription({ type: 'answer', sdp: signal.answer.sdp })
+        );
+        await flushIceCandidates(peer);
+      } else if (signal.type === 'ice-candidate' && signal.iceCandidate) {
+        const candidate = toIceCandidateInit(signal.iceCandidate);
+        const peer = peersRef.current.get(remoteUserId);
+
+        if (!peer) {
+          // The offer hasn't been processed yet
+          const pending = pendingIceCandidatesRef.current.get(remoteUserId) || [];
+          pendingIceCandidatesRef.current.set(remoteUserId, [...pending, candidate]);
+        } else if (!peer.connection.remoteDescription) {
+          console.log('useVideoCall - Queueing ICE candidate (no remote description yet)');
+          peer.iceCandidateQueue.push(candidate);
+        } else {
+          await peer.connection.addIceCandidate(new RTCIceCandidate(candidate));
         }
-      } catch (error) {
-        console.error('Error handling signal:', error);
       }
+    };
+
+    const unsubscribe = subscribeToSignals(callId, userId, (signal) => {
+      runExclusive(() => handleSignal(signal));
     });
 
     return () => {
       console.log('useVideoCall - Cleaning up signal subscription');
       unsubscribe();
     };
-  }, [callId, userId, initLocalStream, initPeerConnection]);
+  }, [callId, userId, getLocalStream, closePeer, createPeer, runExclusive]);
 
   /**
    * Toggle audio
@@ -522,29 +727,162 @@ export const useVideoCall = ({
   }, [localStream]);
 
   /**
-   * Stop screen sharing and restore camera
+   * Send a different track (of the same kind) to every peer
    */
-  const stopScreenShare = useCallback(async () => {
+  const replaceTrack = async (track: MediaStreamTrack) => {
+    await Promise.all(
+      Array.from(peersRef.current.values()).map((peer) => {
+        const sender = peer.connection.getSenders().find((s) => s.track?.kind === track.kind);
+        return sender?.replaceTrack(track);
+      })
+    );
+  };
+
+  /**
+   * Put a different camera track (raw or processed) in place of the current
+   * one, keeping the camera-off state. While screen sharing it waits in
+   * originalVideoTrackRef until sharing stops. The old track is not stopped.
+   */
+  const swapCameraTrack = useCallback(async (newTrack: MediaStreamTrack) => {
     const stream = localStreamRef.current;
-    if (!stream || !peerConnectionRef.current || !originalVideoTrackRef.current) return;
+    if (!stream) return;
 
-    try {
-      const sender = peerConnectionRef.current.getSenders().find((s) => s.track?.kind === 'video');
+    const currentTrack = originalVideoTrackRef.current || stream.getVideoTracks()[0];
+    if (currentTrack) newTrack.enabled = currentTrack.enabled;
 
-      if (sender) {
-        // Stop the screen share track before replacing
-        const screenTrack = stream.getVideoTracks()[0];
-        if (screenTrack) {
-          screenTrack.stop();
+    if (originalVideoTrackRef.current) {
+      originalVideoTrackRef.current = newTrack;
+      return;
+    }
+
+    await replaceTrack(newTrack);
+    if (currentTrack) stream.removeTrack(currentTrack);
+    stream.addTrack(newTrack);
+    setLocalStream(stream);
+  }, []); // Uses refs only
+
+  /**
+   * Switch microphone or camera mid-call. Peers get the new track through
+   * replaceTrack, so the connection isn't renegotiated.
+   */
+  const switchDevice = useCallback(
+    async (kind: 'audioinput' | 'videoinput', deviceId: string) => {
+      const stream = localStreamRef.current;
+      if (!stream) return;
+
+      const isAudio = kind === 'audioinput';
+      if (!isAudio && mediaType !== 'video') return;
+
+      try {
+        const constraints = getCallMediaConstraints(
+          mediaType,
+          isAudio ? { audioInputId: deviceId } : { videoInputId: deviceId }
+        );
+        const deviceStream = await navigator.mediaDevices.getUserMedia(
+          isAudio ? { audio: constraints.audio } : { video: constraints.video }
+        );
+        const newTrack = isAudio
+          ? deviceStream.getAudioTracks()[0]
+          : deviceStream.getVideoTracks()[0];
+
+        if (isAudio) {
+          // Keep the mute state
+          const oldTrack = stream.getAudioTracks()[0];
+          if (oldTrack) newTrack.enabled = oldTrack.enabled;
+
+          await replaceTrack(newTrack);
+          if (oldTrack) {
+            stream.removeTrack(oldTrack);
+            oldTrack.stop();
+          }
+          stream.addTrack(newTrack);
+          setLocalStream(stream);
+          return;
         }
 
-        await sender.replaceTrack(originalVideoTrackRef.current);
-        stream.removeTrack(stream.getVideoTracks()[0] || screenTrack);
-        stream.addTrack(originalVideoTrackRef.current);
-        setLocalStream(stream);
-        setIsScreenSharing(false);
-        originalVideoTrackRef.current = null;
+        // With a background effect on, the new camera gets its own processor
+        const processor = backgroundProcessorRef.current;
+        const oldCameraTrack = processor
+          ? processor.sourceTrack
+          : originalVideoTrackRef.current || stream.getVideoTracks()[0];
+
+        if (processor) {
+          const nextProcessor = await createBackgroundProcessor(newTrack, processor.getEffect());
+          await swapCameraTrack(nextProcessor.track);
+          processor.stop();
+          backgroundProcessorRef.current = nextProcessor;
+        } else {
+          await swapCameraTrack(newTrack);
+        }
+        oldCameraTrack?.stop();
+      } catch (error) {
+        console.error('Error switching device:', error);
+        throw new Error(isAudio ? 'Failed to switch microphone' : 'Failed to switch camera');
+      }
+    },
+    [mediaType, swapCameraTrack]
+  );
+
+  /**
+   * Blur or replace the camera background. The processed track is swapped in
+   * like any other camera track, so screen sharing restores it afterwards.
+   */
+  const setBackgroundEffect = useCallback(
+    async (effect: BackgroundEffect) => {
+      const stream = localStreamRef.current;
+      if (!stream || mediaType !== 'video') return;
+
+      const processor = backgroundProcessorRef.current;
+
+      try {
+        if (effect.type === 'none') {
+          if (processor) {
+            await swapCameraTrack(processor.sourceTrack);
+            processor.stop();
+            backgroundProcessorRef.current = null;
+          }
+        } else if (processor) {
+          processor.setEffect(effect);
+        } else {
+          const cameraTrack = originalVideoTrackRef.current || stream.getVideoTracks()[0];
+          if (!cameraTrack) {
+            throw new Error('No camera to apply a background effect to.');
+          }
+
+          const nextProcessor = await createBackgroundProcessor(cameraTrack, effect);
+          await swapCameraTrack(nextProcessor.track);
+          backgroundProcessorRef.current = nextProcessor;
+        }
+        setBackgroundEffectState(effect);
+      } catch (error) {
+        console.error('Error setting background effect:', error);
+        throw error instanceof Error ? error : new Error('Failed to apply background effect');
+      }
+    },
+    [mediaType, swapCameraTrack]
+  );
+
+  /**
+   * Stop screen sharing and restore camera
+   */
+  const stopScreenShare = useCallback(async () => {
+    const stream = localStreamRef.current;
+    const cameraTrack = originalVideoTrackRef.current;
+    if (!stream || !cameraTrack) return;
+
+    try {
+      // Stop the screen share track before replacing
+      const screenTrack = stream.getVideoTracks()[0];
+      if (screenTrack) {
+        screenTrack.stop();
+        stream.removeTrack(screenTrack);
       }
+
+      await replaceTrack(cameraTrack);
+      stream.addTrack(cameraTrack);
+      setLocalStream(stream);
+      setIsScreenSharing(false);
+      originalVideoTrackRef.current = null;
     } catch (error) {
       console.error('Error stopping screen share:', error);
     }
@@ -555,7 +893,7 @@ export const useVideoCall = ({
    */
   const toggleScreenShare = useCallback(async () => {
     const stream = localStreamRef.current;
-    if (!stream || !peerConnectionRef.current) return;
+    if (!stream) return;
 
     try {
       if (isScreenSharing) {
@@ -567,39 +905,31 @@ export const useVideoCall = ({
           throw new Error('Screen sharing is not supported on this device.');
         }
 
+        const currentVideoTrack = stream.getVideoTracks()[0];
+        if (!currentVideoTrack) {
+          // No video track (audio-only calls)
+          throw new Error('No video track to replace for screen sharing.');
+        }
+
         // Start screen sharing
         const screenStream = await navigator.mediaDevices.getDisplayMedia({
           video: true,
           audio: false,
         });
-
         const screenTrack = screenStream.getVideoTracks()[0];
-        const currentVideoTrack = stream.getVideoTracks()[0];
 
-        // Save original video track
+        // Save original video track, then send the screen to every peer
         originalVideoTrackRef.current = currentVideoTrack;
+        await replaceTrack(screenTrack);
+        stream.removeTrack(currentVideoTrack);
+        stream.addTrack(screenTrack);
+        setLocalStream(stream);
+        setIsScreenSharing(true);
 
-        // Replace video track with screen track
-        const sender = peerConnectionRef.current
-          .getSenders()
-          .find((s) => s.track?.kind === 'video');
-
-        if (sender) {
-          await sender.replaceTrack(screenTrack);
-          stream.removeTrack(currentVideoTrack);
-          stream.addTrack(screenTrack);
-          setLocalStream(stream);
-          setIsScreenSharing(true);
-
-          // Handle when user stops sharing via browser UI
-          screenTrack.onended = () => {
-            stopScreenShare();
-          };
-        } else {
-          // No video sender (shouldn't happen in video calls)
-          screenTrack.stop();
-          throw new Error('No video track to replace for screen sharing.');
-        }
+        // Handle when user stops sharing via browser UI
+        screenTrack.onended = () => {
+          stopScreenShare();
+        };
       }
     } catch (error) {
       console.error('Error toggling screen share:', error);
@@ -622,35 +952,14 @@ export const useVideoCall = ({
    */
   const endCall = useCallback(() => {
     console.log('useVideoCall - endCall() called');
-    // Stop all tracks via ref so we always get the latest stream
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach((track) => track.stop());
-      localStreamRef.current = null;
-    }
-
-    // Stop the saved camera track if screen sharing was active
-    if (originalVideoTrackRef.current) {
-      originalVideoTrackRef.current.stop();
-      originalVideoTrackRef.current = null;
-    }
-
-    // Close peer connection – this triggers 'closed' state which we intentionally ignore
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
-    }
-
-    setLocalStream(null);
-    setRemoteStream(null);
-    setIsAudioEnabled(true);
-    setIsVideoEnabled(mediaType === 'video');
-    setIsScreenSharing(false);
-  }, [mediaType]); // Bug 8 fix: capture mediaType for correct reset
+    cleanup();
+  }, [cleanup]);
 
   // Cleanup on unmount only (not when endCall changes)
   useEffect(() => {
     const signals = processedSignalsRef.current;
-    const candidates = iceCandidateQueueRef.current;
+    const peers = peersRef.current;
+    const pendingCandidates = pendingIceCandidatesRef.current;
     return () => {
       console.log('useVideoCall - Cleaning up on unmount');
       // Stop all tracks using ref to get current value
@@ -665,28 +974,73 @@ export const useVideoCall = ({
         originalVideoTrackRef.current = null;
       }
 
-      // Close peer connection
-      if (peerConnectionRef.current) {
-        peerConnectionRef.current.close();
-        peerConnectionRef.current = null;
+      // Stop the background effect and its camera track
+      if (backgroundProcessorRef.current) {
+        backgroundProcessorRef.current.stop();
+        backgroundProcessorRef.current.sourceTrack.stop();
+        backgroundProcessorRef.current = null;
       }
 
-      // Clear processed signals and ICE candidate queue
+      // Close peer connections
+      peers.forEach((peer) => {
+        clearReconnectTimers(peer);
+        peer.connection.close();
+      });
+      peers.clear();
+
+      // Clear processed signals and queued ICE candidates
       signals.clear();
-      candidates.length = 0;
+      pendingCandidates.clear();
     };
   }, []); // Empty deps - only run on unmount
 
+  // Hold: pause every sender's encodings (the local tracks keep their mute
+  // state for when the call resumes) and silence what the others send
+  useEffect(() => {
+    peersRef.current.forEach((peer) => {
+      peer.connection.getSenders().forEach((sender) => {
+        const parameters = sender.getParameters();
+        if (!parameters.encodings?.length) return;
+
+        parameters.encodings.forEach((encoding) => {
+          encoding.active = !isOnHold;
+        });
+        sender.setParameters(parameters).catch((error) => {
+          console.debug('Could not update sender for hold:', error);
+        });
+      });
+    });
+
+    Object.values(remoteStreams).forEach((stream) => {
+      stream.getTracks().forEach((track) => {
+        track.enabled = !isOnHold;
+      });
+    });
+  }, [isOnHold, remoteStreams]);
+
+  // Remote streams in participant order
+  const orderedRemoteStreams = participants
+    .map((id) => remoteStreams[id])
+    .filter((stream): stream is MediaStream => !!stream);
+
   return {
     localStream,
-    remoteStream,
+    remoteStream: orderedRemoteStreams[0] || null,
+    remoteStreams,
     isAudioEnabled,
     isVideoEnabled,
     isScreenSharing,
     isScreenSharingSupported,
+    callStats,
+    qualityReport,
+    reconnectingPeerIds,
+    backgroundEffect,
+    isBackgroundEffectSupported,
     toggleAudio,
     toggleVideo,
     toggleScreenShare,
+    switchDevice,
+    setBackgroundEffect,
     startCall,
     endCall,
   };
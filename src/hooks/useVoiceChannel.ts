@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useVideoCall } from './useVideoCall';
+import { useVoiceParticipants } from './useVoiceParticipants';
+import {
+  getVoiceChannelCallId,
+  joinVoiceChannel,
+  leaveVoiceChannel,
+  clearVoiceChannelSignals,
+  updateVoiceState,
+} from '../lib/voiceChannelService';
+
+/**
+ * Connect the current user to a room's voice channel. Audio flows over the
+ * same mesh as group calls, with the live roster as the participant list.
+ * The user leaves the channel when the component using this hook unmounts.
+ */
+export const useVoiceChannel = (roomId: string, autoJoin = true) => {
+  const { currentUser, userDoc } = useAuth();
+  const userId = currentUser?.uid || '';
+  const { participants, loading } = useVoiceParticipants(roomId);
+
+  // isJoined: the user wants to be connected; isReady: leftover signals are cleared
+  const [isJoined, setIsJoined] = useState(autoJoin);
+  const [isReady, setIsReady] = useState(false);
+  const [isDeafened, setIsDeafened] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Whether deafening muted the microphone (undeafening unmutes it again)
+  const mutedByDeafenRef = useRef(false);
+
+  const participantIds = useMemo(
+    () => participants.map((participant) => participant.userId),
+    [participants]
+  );
+
+  const { remoteStreams, isAudioEnabled, toggleAudio, startCall, endCall } = useVideoCall({
+    callId: isReady ? getVoiceChannelCallId(roomId) : null,
+    userId,
+    mediaType: 'audio',
+    participantIds,
+  });
+
+  // Keep the latest profile without reconnecting when it changes
+  const userName = userDoc?.displayName || currentUser?.email || 'Anonymous';
+  const avatarUrl = userDoc?.photoURL;
+  const profileRef = useRef({ userName, avatarUrl });
+  useEffect(() => {
+    profileRef.current = { userName, avatarUrl };
+  }, [userName, avatarUrl]);
+
+  // Clear leftover signals before listening for new ones
+  useEffect(() => {
+    if (!isJoined || isReady || !userId) return;
+
+    let cancelled = false;
+    clearVoiceChannelSignals(roomId, userId)
+      .then(() => {
+        if (!cancelled) setIsReady(true);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to connect to voice channel');
+        setIsJoined(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isJoined, isReady, roomId, userId]);
+
+  // Start the microphone, then appear in the roster; leave it again when disconnecting
+  useEffect(() => {
+    if (!isReady || !userId) return;
+
+    let cancelled = false;
+    const connect = async () => {
+      try {
+        await startCall();
+        if (cancelled) return;
+        const { userName: name, avatarUrl: avatar } = profileRef.current;
+        await joinVoiceChannel(roomId, userId, name, avatar);
+      } catch (err) {
+        if (cancelled) return;
+        endCall();
+        setError(err instanceof Error ? err.message : 'Failed to join voice channel');
+        setIsReady(false);
+        setIsJoined(false);
+      }
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      leaveVoiceChannel(roomId, userId).catch(() => undefined);
+    };
+  }, [isReady, roomId, userId, startCall, endCall]);
+
+  const join = useCallback(() => {
+    setError(null);
+    setIsJoined(true);
+  }, []);
+
+  const leave = useCallback(() => {
+    endCall();
+    mutedByDeafenRef.current = false;
+    setIsDeafened(false);
+    setIsReady(false);
+    setIsJoined(false);
+  }, [endCall]);
+
+  const toggleMute = useCallback(async (): Promise<boolean> => {
+    const nextMuted = isAudioEnabled;
+    toggleAudio();
+
+    // Unmuting also undeafens
+    const nextDeafened = nextMuted && isDeafened;
+    mutedByDeafenRef.current = false;
+    setIsDeafened(nextDeafened);
+
+    try {
+      setError(null);
+      await updateVoiceState(roomId, userId, { isMuted: nextMuted, isDeafened: nextDeafened });
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update voice state';
+      setError(message);
+      return false;
+    }
+  }, [isAudioEnabled, isDeafened, toggleAudio, roomId, userId]);
+
+  const toggleDeafen = useCallback(async (): Promise<boolean> => {
+    const nextDeafened = !isDeafened;
+    let nextMuted = !isAudioEnabled;
+
+    // Deafening mutes the microphone too
+    if (nextDeafened && isAudioEnabled) {
+      toggleAudio();
+      mutedByDeafenRef.current = true;
+      nextMuted = true;
+    } else if (!nextDeafened && mutedByDeafenRef.current) {
+      toggleAudio();
+      mutedByDeafenRef.current = false;
+      nextMuted = false;
+    }
+    setIsDeafened(nextDeafened);
+
+    try {
+      setError(null);
+      await updateVoiceState(roomId, userId, { isMuted: nextMuted, isDeafened: nextDeafened });
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update voice state';
+      setError(message);
+      return false;
+    }
+  }, [isAudioEnabled, isDeafened, toggleAudio, roomId, userId]);
+
+  const isConnected = isReady && participantIds.includes(userId);
+
+  return {
+    participants,
+    remoteStreams,
+    loading,
+    error,
+    isConnected,
+    isConnecting: isJoined && !isConnected,
+    isMuted: !isAudioEnabled,
+    isDeafened,
+    join,
+    leave,
+    toggleMute,
+    toggleDeafen,
+  };
+};
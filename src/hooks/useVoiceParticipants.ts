@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { subscribeToVoiceParticipants } from '../lib/voiceChannelService';
+import type { VoiceParticipant } from '../types/call';
+
+/**
+ * Live roster of who is connected to a room's voice channel
+ */
+export const useVoiceParticipants = (roomId: string | undefined) => {
+  const [participants, setParticipants] = useState<VoiceParticipant[]>([]);
+  const [loading, setLoading] = useState(!!roomId);
+
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    const unsubscribe = subscribeToVoiceParticipants(roomId, (voiceParticipants) => {
+      setParticipants(voiceParticipants);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [roomId]);
+
+  return {
+    participants,
+    loading,
+  };
+};
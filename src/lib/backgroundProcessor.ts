@@ -0,0 +1,221 @@
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import type { BackgroundEffect } from '../types/call';
+
+// Self-host these (see .env.example) to avoid depending on the CDNs
+const WASM_URL =
+  import.meta.env.VITE_SEGMENTATION_WASM_URL ||
+  'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm';
+const MODEL_URL =
+  import.meta.env.VITE_SEGMENTATION_MODEL_URL ||
+  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite';
+
+const FRAME_RATE = 24;
+const BLUR_RADIUS_PX = 12;
+
+// Built-in virtual backgrounds (served from public/backgrounds)
+export const BACKGROUND_IMAGES = [
+  { name: 'Calm', url: '/backgrounds/calm.svg' },
+  { name: 'Sunset', url: '/backgrounds/sunset.svg' },
+  { name: 'Hills', url: '/backgrounds/hills.svg' },
+];
+
+/**
+ * Runs a camera track through person segmentation and draws the result onto a
+ * canvas, whose stream replaces the camera track in the call
+ */
+export interface BackgroundProcessor {
+  track: MediaStreamTrack; // Processed output
+  sourceTrack: MediaStreamTrack; // The camera track; stop() leaves it running
+  getEffect: () => BackgroundEffect;
+  setEffect: (effect: BackgroundEffect) => void;
+  stop: () => void;
+}
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+/**
+ * Load the segmentation model once and share it between processors. It runs
+ * on the CPU so it behaves the same on machines without a usable GPU.
+ */
+const getSegmenter = (): Promise<ImageSegmenter> => {
+  if (!segmenterPromise) {
+    segmenterPromise = (async () => {
+      // Loaded on demand: the library is large and most calls don't need it
+      const { FilesetResolver, ImageSegmenter } = await import('@mediapipe/tasks-vision');
+      const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+      return ImageSegmenter.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: MODEL_URL, delegate: 'CPU' },
+        runningMode: 'VIDEO',
+        outputConfidenceMasks: true,
+        outputCategoryMask: false,
+      });
+    })();
+    // Allow a retry after a failed download
+    segmenterPromise.catch(() => {
+      segmenterPromise = null;
+    });
+  }
+  return segmenterPromise;
+};
+
+/**
+ * Whether this browser can process and re-stream camera video
+ */
+export const isBackgroundProcessingSupported = (): boolean =>
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype &&
+  typeof WebAssembly !== 'undefined';
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load background image: ${url}`));
+    image.src = url;
+  });
+
+/**
+ * Draw an image scaled to cover the whole canvas, cropping the overflow
+ */
+const drawCover = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  context.drawImage(
+    image,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+};
+
+const createCanvas = () => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D is not available');
+  return { canvas, context };
+};
+
+export const createBackgroundProcessor = async (
+  sourceTrack: MediaStreamTrack,
+  effect: BackgroundEffect
+): Promise<BackgroundProcessor> => {
+  try {
+    const segmenter = await getSegmenter();
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream([sourceTrack]);
+    await video.play();
+
+    // Output frame, the person cut out of the camera frame, and the segmentation mask
+    const output = createCanvas();
+    const person = createCanvas();
+    const mask = createCanvas();
+    let maskImage: ImageData | null = null;
+
+    let currentEffect = effect;
+    let backgroundImage: HTMLImageElement | null = null;
+
+    const setEffect = (next: BackgroundEffect) => {
+      currentEffect = next;
+      backgroundImage = null;
+      if (next.type === 'image') {
+        loadImage(next.imageUrl)
+          .then((image) => {
+            if (currentEffect === next) backgroundImage = image;
+          })
+          .catch((error) => console.error('Error loading background image:', error));
+      }
+    };
+    setEffect(effect);
+
+    const drawFrame = () => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+
+      const width = video.videoWidth;
+      const height = video.videoHeight;
+      if (output.canvas.width !== width || output.canvas.height !== height) {
+        output.canvas.width = person.canvas.width = width;
+        output.canvas.height = person.canvas.height = height;
+      }
+
+      const result = segmenter.segmentForVideo(video, performance.now());
+      const confidenceMask = result.confidenceMasks?.[0];
+      if (!confidenceMask || currentEffect.type === 'none') {
+        result.close();
+        output.context.drawImage(video, 0, 0, width, height);
+        return;
+      }
+
+      // Person confidence becomes the mask's alpha channel
+      if (
+        !maskImage ||
+        maskImage.width !== confidenceMask.width ||
+        maskImage.height !== confidenceMask.height
+      ) {
+        mask.canvas.width = confidenceMask.width;
+        mask.canvas.height = confidenceMask.height;
+        maskImage = mask.context.createImageData(confidenceMask.width, confidenceMask.height);
+      }
+      const confidences = confidenceMask.getAsFloat32Array();
+      for (let i = 0; i < confidences.length; i++) {
+        maskImage.data[i * 4 + 3] = confidences[i] * 255;
+      }
+      result.close();
+      mask.context.putImageData(maskImage, 0, 0);
+
+      person.context.globalCompositeOperation = 'copy';
+      person.context.drawImage(video, 0, 0, width, height);
+      person.context.globalCompositeOperation = 'destination-in';
+      person.context.drawImage(mask.canvas, 0, 0, width, height);
+
+      if (currentEffect.type === 'blur') {
+        output.context.filter = `blur(${BLUR_RADIUS_PX}px)`;
+        output.context.drawImage(video, 0, 0, width, height);
+        output.context.filter = 'none';
+      } else if (backgroundImage) {
+        drawCover(output.context, backgroundImage, width, height);
+      } else {
+        // Image still loading
+        output.context.fillStyle = '#1f2937';
+        output.context.fillRect(0, 0, width, height);
+      }
+      output.context.drawImage(person.canvas, 0, 0);
+    };
+
+    // setInterval rather than requestAnimationFrame, which stops in background tabs
+    const interval = setInterval(() => {
+      try {
+        drawFrame();
+      } catch (error) {
+        console.debug('Background frame skipped:', error);
+      }
+    }, 1000 / FRAME_RATE);
+
+    const track = output.canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+
+    return {
+      track,
+      sourceTrack,
+      getEffect: () => currentEffect,
+      setEffect,
+      stop: () => {
+        clearInterval(interval);
+        track.stop();
+        video.srcObject = null;
+      },
+    };
+  } catch (error) {
+    console.error('Error starting background processor:', error);
+    throw new Error('Failed to start background effect');
+  }
+};
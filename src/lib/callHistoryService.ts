@@ -10,7 +10,7 @@ import {
   getDocs,
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import type { CallLog, MediaType, CallOutcome } from '../types/call';
+import type { CallLog, MediaType, CallOutcome, CallQualityReport } from '../types/call';
 
 /**
  * Create a call log entry
@@ -27,6 +27,7 @@ export const createCallLog = async (data: {
   mediaType: MediaType;
   outcome: CallOutcome;
   duration?: number;
+  quality?: CallQualityReport;
   timestamp: Date;
 }): Promise<void> => {
   try {
@@ -49,6 +50,11 @@ export const createCallLog = async (data: {
     if (data.callerAvatar != null) doc.callerAvatar = data.callerAvatar;
     if (data.calleeAvatar != null) doc.calleeAvatar = data.calleeAvatar;
     if (data.duration != null) doc.duration = data.duration;
+    if (data.quality != null) {
+      doc.quality = Object.fromEntries(
+        Object.entries(data.quality).filter(([, value]) => value !== undefined)
+      );
+    }
 
     await addDoc(callLogsRef, doc);
 
@@ -118,6 +124,7 @@ export const subscribeToUserCallLogs = (
       direction: (data.callerId as string) === userId ? 'outgoing' : 'incoming',
       outcome: data.outcome as CallOutcome,
       duration: data.duration as number | undefined,
+      quality: data.quality as CallQualityReport | undefined,
       timestamp: (data.timestamp as { toDate: () => Date })?.toDate() || new Date(),
       createdAt: (data.createdAt as { toDate: () => Date })?.toDate() || new Date(),
     };
@@ -228,6 +235,7 @@ export const subscribeToRoomCallLogs = (
       direction,
       outcome: data.outcome as CallOutcome,
       duration: data.duration as number | undefined,
+      quality: data.quality as CallQualityReport | undefined,
       timestamp: (data.timestamp as { toDate: () => Date })?.toDate() || new Date(),
       createdAt: (data.createdAt as { toDate: () => Date })?.toDate() || new Date(),
     };
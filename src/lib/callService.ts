@@ -10,17 +10,119 @@ import {
   getDocs,
   deleteDoc,
   getDoc,
+  arrayUnion,
+  arrayRemove,
+  runTransaction,
+  writeBatch,
 } from 'firebase/firestore';
+import type { DocumentData, DocumentSnapshot } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import type {
   Call,
+  CallParticipant,
   CreateCallData,
   CallSignal,
   CallOffer,
   CallAnswer,
+  CallTransfer,
   IceCandidate,
 } from '../types/call';
 
+// Every participant holds a peer connection to every other one, so keep group calls small
+export const MAX_GROUP_CALL_PARTICIPANTS = 6;
+
+/**
+ * Convert a Firestore call document to the Call type
+ */
+const toCall = (docSnapshot: DocumentSnapshot<DocumentData>): Call => {
+  const data = docSnapshot.data() || {};
+  const participantDetails: Record<string, CallParticipant> = {};
+  Object.entries((data.participantDetails || {}) as Record<string, DocumentData>).forEach(
+    ([userId, details]) => {
+      participantDetails[userId] = {
+        name: details.name,
+        avatar: details.avatar || undefined,
+        joinedAt: details.joinedAt?.toDate(),
+      };
+    }
+  );
+
+  return {
+    id: docSnapshot.id,
+    roomId: data.roomId,
+    callerId: data.callerId,
+    callerName: data.callerName,
+    callerAvatar: data.callerAvatar,
+    calleeId: data.calleeId,
+    calleeName: data.calleeName,
+    calleeAvatar: data.calleeAvatar,
+    type: data.type || '1-on-1',
+    mediaType: data.mediaType || 'video',
+    status: data.status,
+    invitedIds: data.invitedIds || [data.callerId, data.calleeId],
+    participants: data.participants || [],
+    participantDetails,
+    recording: data.recording
+      ? {
+          userId: data.recording.userId,
+          userName: data.recording.userName,
+          startedAt: data.recording.startedAt?.toDate(),
+          consentedIds: data.recording.consentedIds || [],
+        }
+      : undefined,
+    heldBy: data.heldBy || [],
+    transfer: data.transfer
+      ? {
+          requestedBy: data.transfer.requestedBy,
+          requestedByName: data.transfer.requestedByName,
+          targetId: data.transfer.targetId,
+          targetName: data.transfer.targetName,
+          targetAvatar: data.transfer.targetAvatar || undefined,
+        }
+      : undefined,
+    transferredBy: data.transferredBy || undefined,
+    startedAt: data.startedAt?.toDate(),
+    endedAt: data.endedAt?.toDate(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+  };
+};
+
+/**
+ * Firestore data for a new call. The caller joins it straight away; 1-on-1
+ * calls ring the callee, group calls ring every invited room member.
+ */
+const buildCallDocument = (
+  callerId: string,
+  callerName: string,
+  data: CreateCallData,
+  callerAvatar?: string
+) => {
+  const type = data.type || '1-on-1';
+  return {
+    roomId: data.roomId,
+    callerId,
+    callerName,
+    callerAvatar: callerAvatar || null,
+    calleeId: data.calleeId,
+    calleeName: data.calleeName,
+    calleeAvatar: data.calleeAvatar || null,
+    type,
+    mediaType: data.mediaType || 'video',
+    status: 'ringing',
+    invitedIds:
+      type === 'group'
+        ? Array.from(new Set([callerId, ...(data.invitedIds || [])]))
+        : [callerId, data.calleeId],
+    participants: [callerId],
+    participantDetails: {
+      [callerId]: { name: callerName, avatar: callerAvatar || null, joinedAt: serverTimestamp() },
+    },
+    heldBy: [],
+    ...(data.transferredBy && { transferredBy: data.transferredBy }),
+    createdAt: serverTimestamp(),
+  };
+};
+
 /**
  * Create a new call
  */
@@ -31,34 +133,12 @@ export const createCall = async (
   callerAvatar?: string
 ): Promise<string> => {
   try {
-    const callsRef = collection(db, 'calls');
-    const newCall = {
-      roomId: data.roomId,
-      callerId,
-      callerName,
-      callerAvatar: callerAvatar || null,
-      calleeId: data.calleeId,
-      calleeName: data.calleeName,
-      calleeAvatar: data.calleeAvatar || null,
-      type: '1-on-1',
-      mediaType: data.mediaType || 'video',
-      status: 'ringing',
-      createdAt: serverTimestamp(),
-    };
-
-    const docRef = await addDoc(callsRef, newCall);
-
-    // Auto-cancel call after 60 seconds if not answered
-    setTimeout(async () => {
-      try {
-        const callDoc = await getDoc(doc(db, 'calls', docRef.id));
-        if (callDoc.exists() && callDoc.data().status === 'ringing') {
-          await updateCallStatus(docRef.id, 'rejected');
-        }
-      } catch (error) {
-        console.debug('Call timeout cleanup failed:', error);
-      }
-    }, 60000);
+    // Unanswered calls are marked 'missed' (and logged) by the callTimeouts
+    // Cloud Function, so they stop ringing even if the caller closes the tab
+    const docRef = await addDoc(
+      collection(db, 'calls'),
+      buildCallDocument(callerId, callerName, data, callerAvatar)
+    );
 
     return docRef.id;
   } catch (error) {
@@ -77,7 +157,7 @@ export const updateCallStatus = async (callId: string, status: Call['status']):
 
     if (status === 'connected') {
       updates.startedAt = serverTimestamp();
-    } else if (status === 'ended' || status === 'rejected') {
+    } else if (status === 'ended' || status === 'rejected' || status === 'missed') {
       updates.endedAt = serverTimestamp();
     }
 
@@ -88,6 +168,160 @@ export const updateCallStatus = async (callId: string, status: Call['status']):
   }
 };
 
+/**
+ * Ask the other participants to allow the user to record the call, or clear
+ * the user's request (null) when their recording stops. One participant
+ * records at a time: a request is refused while someone else still in the
+ * call is recording, and clearing leaves another user's recording alone.
+ */
+export const setCallRecording = async (
+  callId: string,
+  userId: string,
+  recording: { userName: string } | null
+): Promise<void> => {
+  try {
+    const callRef = doc(db, 'calls', callId);
+
+    await runTransaction(db, async (transaction) => {
+      const callSnap = await transaction.get(callRef);
+      if (!callSnap.exists()) {
+        throw new Error('Call has ended');
+      }
+
+      const call = toCall(callSnap);
+      const current = call.recording;
+      const isOthersRecording =
+        !!current && current.userId !== userId && call.participants.includes(current.userId);
+
+      if (!recording) {
+        if (current?.userId === userId) {
+          transaction.update(callRef, { recording: null });
+        }
+        return;
+      }
+
+      if (isOthersRecording) {
+        throw new Error(`${current.userName} is already recording this call`);
+      }
+
+      transaction.update(callRef, {
+        recording: {
+          userId,
+          userName: recording.userName,
+          startedAt: serverTimestamp(),
+          consentedIds: [userId],
+        },
+      });
+    });
+  } catch (error) {
+    console.error('Error updating call recording:', error);
+    throw error;
+  }
+};
+
+/**
+ * Allow the call's current recording to include the user
+ */
+export const consentToCallRecording = async (callId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'calls', callId), {
+      'recording.consentedIds': arrayUnion(userId),
+    });
+  } catch (error) {
+    console.error('Error consenting to call recording:', error);
+    throw new Error('Failed to allow recording');
+  }
+};
+
+/**
+ * Put a call on hold for everyone in it. Either party can hold; the call
+ * stays on hold until everyone who held it resumes.
+ */
+export const holdCall = async (callId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'calls', callId), { heldBy: arrayUnion(userId) });
+  } catch (error) {
+    console.error('Error holding call:', error);
+    throw new Error('Failed to hold call');
+  }
+};
+
+/**
+ * Take a call off hold (from this user's side)
+ */
+export const resumeCall = async (callId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'calls', callId), { heldBy: arrayRemove(userId) });
+  } catch (error) {
+    console.error('Error resuming call:', error);
+    throw new Error('Failed to resume call');
+  }
+};
+
+/**
+ * Ask the other party of a 1-on-1 call to be transferred to someone else.
+ * Their client places the new call (see completeCallTransfer), since calls
+ * can only be created by their caller.
+ */
+export const requestCallTransfer = async (
+  callId: string,
+  transfer: CallTransfer
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'calls', callId), {
+      transfer: { ...transfer, targetAvatar: transfer.targetAvatar || null },
+    });
+  } catch (error) {
+    console.error('Error requesting call transfer:', error);
+    throw new Error('Failed to transfer call');
+  }
+};
+
+/**
+ * Carry out a transfer requested by the other party: ring the transfer target
+ * from the user's direct room with them and end the original call, in one write
+ */
+export const completeCallTransfer = async (
+  call: Call,
+  callerId: string,
+  callerName: string,
+  roomId: string,
+  callerAvatar?: string
+): Promise<string> => {
+  try {
+    if (!call.transfer) {
+      throw new Error('Call has no pending transfer');
+    }
+
+    const newCallRef = doc(collection(db, 'calls'));
+    const batch = writeBatch(db);
+    batch.set(
+      newCallRef,
+      buildCallDocument(
+        callerId,
+        callerName,
+        {
+          roomId,
+          calleeId: call.transfer.targetId,
+          calleeName: call.transfer.targetName,
+          calleeAvatar: call.transfer.targetAvatar,
+          mediaType: call.mediaType,
+          transferredBy: call.transfer.requestedByName,
+        },
+        callerAvatar
+      )
+    );
+    batch.update(doc(db, 'calls', call.id), { status: 'ended', endedAt: serverTimestamp() });
+    await batch.commit();
+
+    deleteSignalsLater(call.id);
+    return newCallRef.id;
+  } catch (error) {
+    console.error('Error completing call transfer:', error);
+    throw new Error('Failed to complete call transfer');
+  }
+};
+
 /**
  * Subscribe to a specific call
  */
@@ -101,23 +335,7 @@ export const subscribeToCall = (
     callRef,
     (docSnapshot) => {
       if (docSnapshot.exists()) {
-        const data = docSnapshot.data();
-        callback({
-          id: docSnapshot.id,
-          roomId: data.roomId,
-          callerId: data.callerId,
-          callerName: data.callerName,
-          callerAvatar: data.callerAvatar,
-          calleeId: data.calleeId,
-          calleeName: data.calleeName,
-          calleeAvatar: data.calleeAvatar,
-          type: data.type,
-          mediaType: data.mediaType || 'video',
-          status: data.status,
-          startedAt: data.startedAt?.toDate(),
-          endedAt: data.endedAt?.toDate(),
-          createdAt: data.createdAt?.toDate() || new Date(),
-        });
+        callback(toCall(docSnapshot));
       } else {
         callback(null);
       }
@@ -131,43 +349,34 @@ export const subscribeToCall = (
 };
 
 /**
- * Subscribe to incoming calls for a user
+ * Subscribe to incoming calls for a user: ringing calls they are invited to,
+ * plus group calls that started less than a minute ago and they haven't joined
  */
 export const subscribeToIncomingCalls = (
   userId: string,
   callback: (calls: Call[]) => void
 ): (() => void) => {
   const callsRef = collection(db, 'calls');
-  const q = query(callsRef, where('calleeId', '==', userId), where('status', '==', 'ringing'));
+  const q = query(
+    callsRef,
+    where('invitedIds', 'array-contains', userId),
+    where('status', 'in', ['ringing', 'connected'])
+  );
 
   const unsubscribe = onSnapshot(
     q,
     (querySnapshot) => {
-      const calls: Call[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        calls.push({
-          id: doc.id,
-          roomId: data.roomId,
-          callerId: data.callerId,
-          callerName: data.callerName,
-          callerAvatar: data.callerAvatar,
-          calleeId: data.calleeId,
-          calleeName: data.calleeName,
-          calleeAvatar: data.calleeAvatar,
-          type: data.type,
-          mediaType: data.mediaType || 'video',
-          status: data.status,
-          startedAt: data.startedAt?.toDate(),
-          endedAt: data.endedAt?.toDate(),
-          createdAt: data.createdAt?.toDate() || new Date(),
-        });
-      });
-      console.log(
-        'subscribeToIncomingCalls - Firestore update:',
-        calls.length,
-        'calls with status=ringing'
-      );
+      const now = Date.now();
+      const calls = querySnapshot.docs
+        .map(toCall)
+        .filter(
+          (call) =>
+            call.callerId !== userId &&
+            !call.participants.includes(userId) &&
+            (call.status === 'ringing' ||
+              (call.type === 'group' && now - call.createdAt.getTime() < 60000))
+        );
+      console.log('subscribeToIncomingCalls - Firestore update:', calls.length, 'incoming calls');
       callback(calls);
     },
     (error) => {
@@ -179,13 +388,44 @@ export const subscribeToIncomingCalls = (
 };
 
 /**
- * Send WebRTC offer
+ * Subscribe to the ongoing group call in a room, if any (only calls the user was invited to)
+ */
+export const subscribeToActiveRoomCall = (
+  roomId: string,
+  userId: string,
+  callback: (call: Call | null) => void
+): (() => void) => {
+  const callsRef = collection(db, 'calls');
+  const q = query(
+    callsRef,
+    where('roomId', '==', roomId),
+    where('invitedIds', 'array-contains', userId),
+    where('status', 'in', ['ringing', 'connected'])
+  );
+
+  const unsubscribe = onSnapshot(
+    q,
+    (querySnapshot) => {
+      const groupCall = querySnapshot.docs.map(toCall).find((call) => call.type === 'group');
+      callback(groupCall || null);
+    },
+    (error) => {
+      console.error('Error subscribing to active room call:', error);
+    }
+  );
+
+  return unsubscribe;
+};
+
+/**
+ * Send WebRTC offer (set iceRestart to renegotiate an existing connection)
  */
 export const sendOffer = async (
   callId: string,
   senderId: string,
   receiverId: string,
-  offer: CallOffer
+  offer: CallOffer,
+  iceRestart = false
 ): Promise<void> => {
   try {
     const signalsRef = collection(db, 'calls', callId, 'signals');
@@ -195,6 +435,7 @@ export const sendOffer = async (
       receiverId,
       type: 'offer',
       offer,
+      iceRestart,
       createdAt: serverTimestamp(),
     });
   } catch (error) {
@@ -277,6 +518,7 @@ export const subscribeToSignals = (
             receiverId: data.receiverId,
             type: data.type,
             offer: data.offer,
+            iceRestart: data.iceRestart || false,
             answer: data.answer,
             iceCandidate: data.iceCandidate,
             createdAt: data.createdAt?.toDate() || new Date(),
@@ -292,38 +534,43 @@ export const subscribeToSignals = (
   return unsubscribe;
 };
 
+/**
+ * Delete a finished call's signals after a delay (both sides may still be
+ * reading them)
+ */
+const deleteSignalsLater = (callId: string) => {
+  setTimeout(async () => {
+    try {
+      // Check if call document still exists before cleaning up
+      const callRef = doc(db, 'calls', callId);
+      const callSnap = await getDoc(callRef);
+
+      if (callSnap.exists()) {
+        const signalsRef = collection(db, 'calls', callId, 'signals');
+        const signalsSnapshot = await getDocs(signalsRef);
+
+        if (!signalsSnapshot.empty) {
+          const deletePromises = signalsSnapshot.docs.map((doc) => deleteDoc(doc.ref));
+          await Promise.all(deletePromises);
+        }
+      }
+    } catch (error) {
+      // Silently ignore cleanup errors as they're non-critical
+      console.debug(
+        'Signal cleanup skipped:',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }, 5000);
+};
+
 /**
  * End a call and cleanup
  */
 export const endCall = async (callId: string): Promise<void> => {
   try {
-    // Update call status
     await updateCallStatus(callId, 'ended');
-
-    // Optional: Clean up signals after a delay
-    setTimeout(async () => {
-      try {
-        // Check if call document still exists before cleaning up
-        const callRef = doc(db, 'calls', callId);
-        const callSnap = await getDoc(callRef);
-
-        if (callSnap.exists()) {
-          const signalsRef = collection(db, 'calls', callId, 'signals');
-          const signalsSnapshot = await getDocs(signalsRef);
-
-          if (!signalsSnapshot.empty) {
-            const deletePromises = signalsSnapshot.docs.map((doc) => deleteDoc(doc.ref));
-            await Promise.all(deletePromises);
-          }
-        }
-      } catch (error) {
-        // Silently ignore cleanup errors as they're non-critical
-        console.debug(
-          'Signal cleanup skipped:',
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-      }
-    }, 5000);
+    deleteSignalsLater(callId);
   } catch (error) {
     console.error('Error ending call:', error);
     throw new Error('Failed to end call');
@@ -331,34 +578,106 @@ export const endCall = async (callId: string): Promise<void> => {
 };
 
 /**
- * Accept an incoming call
+ * Accept an incoming call, or join a group call that is already in progress
  */
-export const acceptCall = async (callId: string): Promise<void> => {
+export const acceptCall = async (
+  callId: string,
+  userId: string,
+  userName: string,
+  userAvatar?: string
+): Promise<void> => {
   try {
     console.log('acceptCall - Checking if call still exists:', callId);
-    // First check if the call still exists and is in ringing status
     const callRef = doc(db, 'calls', callId);
-    const callSnap = await getDoc(callRef);
 
-    if (!callSnap.exists()) {
-      console.log('acceptCall - Call no longer exists:', callId);
-      throw new Error('Call has ended');
-    }
+    await runTransaction(db, async (transaction) => {
+      const callSnap = await transaction.get(callRef);
 
-    const callData = callSnap.data();
-    if (callData.status !== 'ringing') {
-      console.log('acceptCall - Call status is not ringing:', callData.status);
-      throw new Error(`Call is ${callData.status}`);
-    }
+      if (!callSnap.exists()) {
+        console.log('acceptCall - Call no longer exists:', callId);
+        throw new Error('Call has ended');
+      }
+
+      const call = toCall(callSnap);
+      const canJoin =
+        call.status === 'ringing' || (call.type === 'group' && call.status === 'connected');
+      if (!canJoin) {
+        console.log('acceptCall - Call cannot be joined, status:', call.status);
+        throw new Error(`Call is ${call.status}`);
+      }
+
+      if (
+        call.type === 'group' &&
+        !call.participants.includes(userId) &&
+        call.participants.length >= MAX_GROUP_CALL_PARTICIPANTS
+      ) {
+        throw new Error('Call is full');
+      }
+
+      const updates: Record<string, unknown> = {
+        participants: arrayUnion(userId),
+        [`participantDetails.${userId}`]: {
+          name: userName,
+          avatar: userAvatar || null,
+          joinedAt: serverTimestamp(),
+        },
+      };
 
-    console.log('acceptCall - Updating call status to connected:', callId);
-    await updateCallStatus(callId, 'connected');
+      // The first answer connects the call
+      if (call.status === 'ringing') {
+        console.log('acceptCall - Updating call status to connected:', callId);
+        updates.status = 'connected';
+        updates.startedAt = serverTimestamp();
+      }
+
+      transaction.update(callRef, updates);
+    });
   } catch (error) {
     console.error('Error accepting call:', error);
     throw error;
   }
 };
 
+/**
+ * Delete the signals addressed to a user in a call
+ */
+export const clearSignals = async (callId: string, userId: string): Promise<void> => {
+  const signalsRef = collection(db, 'calls', callId, 'signals');
+  const signalsSnapshot = await getDocs(query(signalsRef, where('receiverId', '==', userId)));
+  await Promise.all(signalsSnapshot.docs.map((signal) => deleteDoc(signal.ref)));
+};
+
+/**
+ * Leave a group call. The call carries on until its last participant leaves.
+ * Signals addressed to the user are removed so that rejoining starts clean.
+ */
+export const leaveCall = async (callId: string, userId: string): Promise<void> => {
+  try {
+    const callRef = doc(db, 'calls', callId);
+
+    await runTransaction(db, async (transaction) => {
+      const callSnap = await transaction.get(callRef);
+      if (!callSnap.exists()) return;
+
+      const call = toCall(callSnap);
+      const remaining = call.participants.filter((id) => id !== userId);
+      const updates: Record<string, unknown> = { participants: remaining };
+
+      if (remaining.length === 0 && call.status !== 'ended') {
+        updates.status = 'ended';
+        updates.endedAt = serverTimestamp();
+      }
+
+      transaction.update(callRef, updates);
+    });
+
+    await clearSignals(callId, userId);
+  } catch (error) {
+    console.error('Error leaving call:', error);
+    throw new Error('Failed to leave call');
+  }
+};
+
 /**
  * Reject an incoming call
  */
@@ -0,0 +1,179 @@
+import type { CallQuality, CallQualityReport, CallStats, CandidateType } from '../types/call';
+
+/**
+ * Cumulative counters and current readings from one getStats() report
+ */
+export interface StatsSnapshot {
+  timestamp: number; // ms
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+  jitter: number; // ms, worst inbound stream
+  rtt?: number; // ms
+  candidateType?: CandidateType;
+}
+
+// Minimal shapes of the stats entries we read (lib.dom types them loosely)
+interface RtpStats {
+  type: string;
+  id: string;
+  bytesReceived?: number;
+  bytesSent?: number;
+  packetsReceived?: number;
+  packetsLost?: number;
+  jitter?: number; // Seconds
+  roundTripTime?: number; // Seconds
+}
+
+interface CandidatePairStats {
+  type: 'candidate-pair';
+  id: string;
+  state?: string;
+  nominated?: boolean;
+  selected?: boolean; // Firefox
+  localCandidateId?: string;
+  remoteCandidateId?: string;
+  currentRoundTripTime?: number; // Seconds
+}
+
+interface TransportStats {
+  type: 'transport';
+  selectedCandidatePairId?: string;
+}
+
+interface CandidateStats {
+  type: 'local-candidate' | 'remote-candidate';
+  candidateType?: CandidateType;
+}
+
+/**
+ * Read the counters we track out of an RTCStatsReport
+ */
+export const parseStatsReport = (report: RTCStatsReport, timestamp: number): StatsSnapshot => {
+  const snapshot: StatsSnapshot = {
+    timestamp,
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    jitter: 0,
+  };
+
+  let selectedPairId: string | undefined;
+  let remoteInboundRtt: number | undefined;
+
+  report.forEach((entry: RtpStats) => {
+    if (entry.type === 'inbound-rtp') {
+      snapshot.bytesReceived += entry.bytesReceived || 0;
+      snapshot.packetsReceived += entry.packetsReceived || 0;
+      snapshot.packetsLost += entry.packetsLost || 0;
+      snapshot.jitter = Math.max(snapshot.jitter, (entry.jitter || 0) * 1000);
+    } else if (entry.type === 'outbound-rtp') {
+      snapshot.bytesSent += entry.bytesSent || 0;
+    } else if (entry.type === 'remote-inbound-rtp' && entry.roundTripTime !== undefined) {
+      remoteInboundRtt = entry.roundTripTime * 1000;
+    } else if (entry.type === 'transport') {
+      selectedPairId = (entry as unknown as TransportStats).selectedCandidatePairId;
+    }
+  });
+
+  // The transport names the selected pair; otherwise fall back to the nominated one
+  let selectedPair: CandidatePairStats | undefined;
+  report.forEach((entry: CandidatePairStats) => {
+    if (entry.type !== 'candidate-pair' || selectedPair) return;
+    const isSelected = selectedPairId
+      ? entry.id === selectedPairId
+      : entry.selected || (entry.nominated && entry.state === 'succeeded');
+    if (isSelected) selectedPair = entry;
+  });
+
+  if (selectedPair) {
+    if (selectedPair.currentRoundTripTime !== undefined) {
+      snapshot.rtt = selectedPair.currentRoundTripTime * 1000;
+    }
+
+    const local: CandidateStats | undefined = selectedPair.localCandidateId
+      ? report.get(selectedPair.localCandidateId)
+      : undefined;
+    const remote: CandidateStats | undefined = selectedPair.remoteCandidateId
+      ? report.get(selectedPair.remoteCandidateId)
+      : undefined;
+    snapshot.candidateType =
+      local?.candidateType === 'relay' || remote?.candidateType === 'relay'
+        ? 'relay'
+        : local?.candidateType;
+  }
+
+  if (snapshot.rtt === undefined) snapshot.rtt = remoteInboundRtt;
+
+  return snapshot;
+};
+
+/**
+ * Estimate a mean opinion score (1-5) with a simplified ITU-T E-model
+ */
+export const getQualityScore = (packetLoss: number, jitter: number, rtt = 0): number => {
+  const effectiveLatency = rtt / 2 + jitter * 2 + 10;
+  let rating =
+    effectiveLatency < 160 ? 93.2 - effectiveLatency / 40 : 93.2 - (effectiveLatency - 120) / 10;
+  rating -= packetLoss * 100 * 2.5;
+  rating = Math.min(100, Math.max(0, rating));
+
+  const mos = 1 + 0.035 * rating + 0.000007 * rating * (rating - 60) * (100 - rating);
+  return Math.round(Math.min(5, Math.max(1, mos)) * 10) / 10;
+};
+
+/**
+ * Bucket a quality score for display
+ */
+export const getCallQuality = (score: number): CallQuality => {
+  if (score >= 4) return 'good';
+  if (score >= 3) return 'fair';
+  return 'poor';
+};
+
+/**
+ * Turn two consecutive snapshots into rates and a quality score
+ */
+export const computeCallStats = (current: StatsSnapshot, previous?: StatsSnapshot): CallStats => {
+  const elapsedSeconds = previous ? (current.timestamp - previous.timestamp) / 1000 : 0;
+  const toKbps = (bytes: number) =>
+    elapsedSeconds > 0 ? Math.max(0, Math.round((bytes * 8) / 1000 / elapsedSeconds)) : 0;
+
+  const received = current.packetsReceived - (previous?.packetsReceived || 0);
+  const lost = current.packetsLost - (previous?.packetsLost || 0);
+  const packetLoss = received + lost > 0 ? Math.max(0, lost) / (received + lost) : 0;
+
+  return {
+    bitrateIn: toKbps(current.bytesReceived - (previous?.bytesReceived || 0)),
+    bitrateOut: toKbps(current.bytesSent - (previous?.bytesSent || 0)),
+    packetLoss,
+    jitter: Math.round(current.jitter),
+    rtt: current.rtt !== undefined ? Math.round(current.rtt) : undefined,
+    candidateType: current.candidateType,
+    score: getQualityScore(packetLoss, current.jitter, current.rtt),
+  };
+};
+
+/**
+ * Summarise the samples collected during a call (null if there are none)
+ */
+export const summarizeCallQuality = (samples: CallStats[]): CallQualityReport | null => {
+  if (samples.length === 0) return null;
+
+  const average = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0) / values.length;
+  const rttSamples = samples.flatMap((sample) => (sample.rtt !== undefined ? [sample.rtt] : []));
+  const score = Math.round(average(samples.map((sample) => sample.score)) * 10) / 10;
+
+  return {
+    score,
+    quality: getCallQuality(score),
+    packetLoss: Math.round(average(samples.map((sample) => sample.packetLoss)) * 1000) / 1000,
+    jitter: Math.round(average(samples.map((sample) => sample.jitter))),
+    rtt: rttSamples.length > 0 ? Math.round(average(rttSamples)) : undefined,
+    bitrate: Math.round(average(samples.map((sample) => sample.bitrateIn))),
+    candidateType: samples[samples.length - 1].candidateType,
+  };
+};
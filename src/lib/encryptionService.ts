@@ -0,0 +1,404 @@
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { MessageEncryption } from '../types/message';
+import type { EncryptionKeyBackup } from '../types/encryption';
+
+/**
+ * End-to-end encryption for direct rooms. Every user has an ECDH (P-256) key
+ * pair: the public key is published on their user document, the private key
+ * stays on the device (and in the passphrase-protected backup they download).
+ * Both members of a direct room derive the same AES-GCM key from their own
+ * private key and the other member's public key, so only they can read it.
+ */
+
+// Room list / notification text for encrypted messages
+export const ENCRYPTED_MESSAGE_PREVIEW = '🔒 Encrypted message';
+
+// Shown instead of content this device has no key for
+export const UNDECRYPTABLE_MESSAGE_TEXT = "🔒 This message can't be decrypted on this device";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const KEY_ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const BACKUP_ITERATIONS = 310000;
+const SHARED_KEY_INFO = 'vchat-direct-message-v1';
+
+interface DeviceKeys {
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+const deviceKeysKey = (userId: string) => `encryptionKeys:${userId}`;
+const verifiedKeysKey = (userId: string) => `verifiedKeys:${userId}`;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const getDeviceKeys = (userId: string): DeviceKeys | null => {
+  try {
+    const saved = localStorage.getItem(deviceKeysKey(userId));
+    return saved ? (JSON.parse(saved) as DeviceKeys) : null;
+  } catch (error) {
+    console.debug('Ignoring unreadable encryption keys:', error);
+    return null;
+  }
+};
+
+/**
+ * Public key of the key pair stored on this device, if any
+ */
+export const getDevicePublicKey = (userId: string): string | null =>
+  getDeviceKeys(userId)?.publicKey || null;
+
+/**
+ * Keep a key pair on this device and publish its public key
+ */
+const installKeys = async (userId: string, keys: DeviceKeys): Promise<void> => {
+  localStorage.setItem(deviceKeysKey(userId), JSON.stringify(keys));
+  await updateDoc(doc(db, 'users', userId), {
+    publicKey: keys.publicKey,
+    publicKeyUpdatedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Generate a new key pair for the user on this device and publish the public
+ * key. Messages encrypted for an earlier key can only be read where that key is.
+ */
+export const createEncryptionKeys = async (userId: string): Promise<string> => {
+  try {
+    const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['deriveBits']);
+    const keys: DeviceKeys = {
+      publicKey: toBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+      privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    };
+    await installKeys(userId, keys);
+    return keys.publicKey;
+  } catch (error) {
+    console.error('Error creating encryption keys:', error);
+    throw new Error('Failed to set up encryption');
+  }
+};
+
+const deriveBackupKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Export this device's private key, encrypted with a passphrase, as the JSON
+ * of an EncryptionKeyBackup
+ */
+export const exportKeyBackup = async (userId: string, passphrase: string): Promise<string> => {
+  const keys = getDeviceKeys(userId);
+  if (!keys) {
+    throw new Error('There is no encryption key on this device to back up');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  try {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const backupKey = await deriveBackupKey(passphrase, salt, BACKUP_ITERATIONS);
+    const encryptedPrivateKey = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      backupKey,
+      encoder.encode(JSON.stringify(keys.privateKey))
+    );
+
+    const backup: EncryptionKeyBackup = {
+      version: 1,
+      userId,
+      publicKey: keys.publicKey,
+      encryptedPrivateKey: toBase64(encryptedPrivateKey),
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      iterations: BACKUP_ITERATIONS,
+      createdAt: new Date().toISOString(),
+    };
+    return JSON.stringify(backup, null, 2);
+  } catch (error) {
+    console.error('Error exporting key backup:', error);
+    throw new Error('Failed to create key backup');
+  }
+};
+
+/**
+ * Restore a key backup on this device (and publish its public key again, in
+ * case another device replaced it). Returns the public key.
+ */
+export const importKeyBackup = async (
+  userId: string,
+  backupJson: string,
+  passphrase: string
+): Promise<string> => {
+  let backup: EncryptionKeyBackup;
+  try {
+    backup = JSON.parse(backupJson) as EncryptionKeyBackup;
+  } catch {
+    throw new Error('This file is not a key backup');
+  }
+  if (backup.version !== 1 || !backup.encryptedPrivateKey || !backup.publicKey) {
+    throw new Error('This file is not a key backup');
+  }
+  if (backup.userId !== userId) {
+    throw new Error('This key backup belongs to another account');
+  }
+
+  let privateKey: JsonWebKey;
+  try {
+    const backupKey = await deriveBackupKey(passphrase, fromBase64(backup.salt), backup.iterations);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.iv) },
+      backupKey,
+      fromBase64(backup.encryptedPrivateKey)
+    );
+    privateKey = JSON.parse(decoder.decode(decrypted)) as JsonWebKey;
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged');
+  }
+
+  try {
+    await installKeys(userId, { publicKey: backup.publicKey, privateKey });
+    return backup.publicKey;
+  } catch (error) {
+    console.error('Error restoring key backup:', error);
+    throw new Error('Failed to restore key backup');
+  }
+};
+
+// Shared keys by `${ownPublicKey}:${otherPublicKey}`
+const sharedKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * The AES-GCM key two users share: ECDH between one's private key and the
+ * other's public key, stretched with HKDF
+ */
+const getSharedKey = (keys: DeviceKeys, otherPublicKey: string): Promise<CryptoKey> => {
+  const cacheKey = `${keys.publicKey}:${otherPublicKey}`;
+  let sharedKey = sharedKeys.get(cacheKey);
+
+  if (!sharedKey) {
+    sharedKey = (async () => {
+      const privateKey = await crypto.subtle.importKey(
+        'jwk',
+        keys.privateKey,
+        KEY_ALGORITHM,
+        false,
+        ['deriveBits']
+      );
+      const publicKey = await crypto.subtle.importKey(
+        'raw',
+        fromBase64(otherPublicKey),
+        KEY_ALGORITHM,
+        false,
+        []
+      );
+      const secret = await crypto.subtle.deriveBits(
+        { name: 'ECDH', public: publicKey },
+        privateKey,
+        256
+      );
+      const secretKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+      return crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(32),
+          info: encoder.encode(SHARED_KEY_INFO),
+        },
+        secretKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    })();
+    sharedKeys.set(cacheKey, sharedKey);
+    sharedKey.catch(() => sharedKeys.delete(cacheKey));
+  }
+
+  return sharedKey;
+};
+
+// Ties the ciphertext to the two keys it was encrypted between
+const toAdditionalData = (encryption: Omit<MessageEncryption, 'iv'>) =>
+  encoder.encode(`${encryption.senderKey}:${encryption.recipientKey}`);
+
+/**
+ * Encrypt message content for the other member of a direct room
+ */
+export const encryptMessageContent = async (
+  userId: string,
+  recipientKey: string,
+  content: string
+): Promise<{ content: string; encryption: MessageEncryption }> => {
+  const keys = getDeviceKeys(userId);
+  if (!keys) {
+    throw new Error('Set up encryption on this device to send messages in this conversation');
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const keyPair = { senderKey: keys.publicKey, recipientKey };
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: toAdditionalData(keyPair) },
+    await getSharedKey(keys, recipientKey),
+    encoder.encode(content)
+  );
+
+  return {
+    content: toBase64(ciphertext),
+    encryption: { ...keyPair, iv: toBase64(iv) },
+  };
+};
+
+/**
+ * Identify a piece of encrypted content by the key pair, IV and ciphertext
+ * together, so content can't be mistaken for another with a reused IV
+ */
+export const getEncryptedContentKey = (content: string, encryption: MessageEncryption): string =>
+  `${encryption.senderKey}:${encryption.recipientKey}:${encryption.iv}:${content}`;
+
+// Decrypted content by getEncryptedContentKey()
+const plaintexts = new Map<string, string>();
+
+/**
+ * Decrypt the content of an encrypted message. Works for messages the user
+ * sent as well as received, as long as this device has the key they used.
+ */
+export const decryptMessageContent = async (
+  userId: string,
+  content: string,
+  encryption: MessageEncryption
+): Promise<string> => {
+  const cacheKey = getEncryptedContentKey(content, encryption);
+  const cached = plaintexts.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const keys = getDeviceKeys(userId);
+  const otherPublicKey =
+    keys?.publicKey === encryption.senderKey
+      ? encryption.recipientKey
+      : keys?.publicKey === encryption.recipientKey
+        ? encryption.senderKey
+        : null;
+  if (!keys || !otherPublicKey) {
+    throw new Error('This device has no key for this message');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(encryption.iv),
+      additionalData: toAdditionalData(encryption),
+    },
+    await getSharedKey(keys, otherPublicKey),
+    fromBase64(content)
+  );
+
+  const decrypted = decoder.decode(plaintext);
+  plaintexts.set(cacheKey, decrypted);
+  return decrypted;
+};
+
+/**
+ * 30 digits identifying a user's public key
+ */
+const getKeyFingerprint = async (userId: string, publicKey: string): Promise<string> => {
+  const hash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', encoder.encode(`${userId}:${publicKey}`))
+  );
+
+  // Six chunks of five bytes, each read as a number and reduced to five digits
+  let digits = '';
+  for (let offset = 0; offset < 30; offset += 5) {
+    const chunk = hash.slice(offset, offset + 5).reduce((value, byte) => value * 256 + byte, 0);
+    digits += String(chunk % 100000).padStart(5, '0');
+  }
+  return digits;
+};
+
+/**
+ * The safety number of two users' keys: both see the same 60 digits, and
+ * comparing them (in person or on a call) proves no one swapped a key.
+ * Formatted in groups of five.
+ */
+export const getSafetyNumber = async (
+  userId: string,
+  publicKey: string,
+  otherUserId: string,
+  otherPublicKey: string
+): Promise<string> => {
+  const fingerprints = await Promise.all([
+    getKeyFingerprint(userId, publicKey).then((digits) => ({ userId, digits })),
+    getKeyFingerprint(otherUserId, otherPublicKey).then((digits) => ({
+      userId: otherUserId,
+      digits,
+    })),
+  ]);
+
+  const digits = fingerprints
+    .sort((a, b) => a.userId.localeCompare(b.userId))
+    .map((fingerprint) => fingerprint.digits)
+    .join('');
+  return digits.match(/.{5}/g)?.join(' ') || digits;
+};
+
+/**
+ * Contacts' public keys the user has verified, by contact ID (kept on this device)
+ */
+export const getVerifiedKeys = (userId: string): Record<string, string> => {
+  try {
+    const saved = localStorage.getItem(verifiedKeysKey(userId));
+    return saved ? (JSON.parse(saved) as Record<string, string>) : {};
+  } catch (error) {
+    console.debug('Ignoring unreadable verified keys:', error);
+    return {};
+  }
+};
+
+/**
+ * Mark a contact's public key as verified, or clear the verification (null)
+ */
+export const setKeyVerified = (
+  userId: string,
+  contactId: string,
+  publicKey: string | null
+): void => {
+  const verifiedKeys = getVerifiedKeys(userId);
+  if (publicKey) {
+    verifiedKeys[contactId] = publicKey;
+  } else {
+    delete verifiedKeys[contactId];
+  }
+  localStorage.setItem(verifiedKeysKey(userId), JSON.stringify(verifiedKeys));
+};
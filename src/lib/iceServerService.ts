@@ -0,0 +1,182 @@
+import { auth } from '../config/firebase';
+
+/**
+ * Short-lived TURN credentials, as issued by a coturn-style REST API
+ */
+export interface TurnCredentials {
+  urls: string[];
+  username: string;
+  credential: string;
+  ttl: number; // Seconds the credentials stay valid
+}
+
+/**
+ * Supplies TURN credentials when a call starts. Returns null when no TURN
+ * relay is configured.
+ */
+export type TurnCredentialProvider = () => Promise<TurnCredentials | null>;
+
+// Used when VITE_STUN_URLS is not set
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+
+// Refetch credentials this long before they expire, so a call never starts with stale ones
+const CREDENTIAL_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Split a comma-separated list of ICE server URLs
+ */
+const parseUrls = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+/**
+ * ICE servers from the environment: STUN servers (VITE_STUN_URLS) plus a TURN
+ * relay with long-lived credentials (VITE_TURN_URLS, VITE_TURN_USERNAME,
+ * VITE_TURN_CREDENTIAL), if configured
+ */
+export const getStaticIceServers = (): RTCIceServer[] => {
+  const stunUrls = parseUrls(import.meta.env.VITE_STUN_URLS);
+  const iceServers: RTCIceServer[] = [{ urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS }];
+
+  const turnUrls = parseUrls(import.meta.env.VITE_TURN_URLS);
+  const username = import.meta.env.VITE_TURN_USERNAME;
+  const credential = import.meta.env.VITE_TURN_CREDENTIAL;
+  if (turnUrls.length > 0 && username && credential) {
+    iceServers.push({ urls: turnUrls, username, credential });
+  }
+
+  return iceServers;
+};
+
+/**
+ * Default provider: requests credentials from the endpoint in
+ * VITE_TURN_CREDENTIALS_URL, authenticated with the user's Firebase ID token.
+ * The endpoint answers in the coturn REST API format
+ * (`{ username, password, ttl, uris }`); VITE_TURN_URLS is used when it
+ * doesn't list the relay URLs. Without an endpoint, no credentials are fetched.
+ */
+const restCredentialProvider: TurnCredentialProvider = async () => {
+  const credentialsUrl = import.meta.env.VITE_TURN_CREDENTIALS_URL;
+  if (!credentialsUrl) return null;
+
+  const idToken = await auth.currentUser?.getIdToken();
+  const response = await fetch(credentialsUrl, {
+    headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
+  });
+  if (!response.ok) {
+    throw new Error(`TURN credentials endpoint responded with ${response.status}`);
+  }
+
+  const data = await response.json();
+  const urls: string[] = data.uris?.length ? data.uris : parseUrls(import.meta.env.VITE_TURN_URLS);
+  if (urls.length === 0) {
+    throw new Error('TURN credentials endpoint returned no relay URLs');
+  }
+
+  return {
+    urls,
+    username: data.username,
+    credential: data.password,
+    ttl: Number(data.ttl) || 0,
+  };
+};
+
+/**
+ * Provider that signs credentials with a coturn `static-auth-secret`
+ * (`use-auth-secret` mode): the username is `<expiry>:<userId>` and the
+ * credential is its base64 HMAC-SHA1. Only use it where the secret is not
+ * shipped to browsers, e.g. behind a credentials endpoint or in local
+ * development.
+ */
+export const createTurnSecretCredentialProvider = (options: {
+  secret: string;
+  urls: string[];
+  ttl?: number; // Seconds, defaults to one day
+  userId?: string;
+}): TurnCredentialProvider => {
+  const { secret, urls, ttl = 24 * 60 * 60, userId = 'vchat' } = options;
+
+  return async () => {
+    const expiry = Math.floor(Date.now() / 1000) + ttl;
+    const username = `${expiry}:${userId}`;
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-1' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(username));
+    const credential = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+    return { urls, username, credential, ttl };
+  };
+};
+
+let turnCredentialProvider: TurnCredentialProvider = restCredentialProvider;
+let cachedConfiguration: { configuration: RTCConfiguration; expiresAt: number } | null = null;
+
+/**
+ * Replace the provider used to obtain TURN credentials
+ */
+export const setTurnCredentialProvider = (provider: TurnCredentialProvider): void => {
+  turnCredentialProvider = provider;
+  cachedConfiguration = null;
+};
+
+/**
+ * Restore the default endpoint-backed provider
+ */
+export const resetTurnCredentialProvider = (): void => {
+  turnCredentialProvider = restCredentialProvider;
+  cachedConfiguration = null;
+};
+
+/**
+ * Build the RTCPeerConnection configuration. Credentials are reused until
+ * shortly before they expire. If the provider fails, calls fall back to the
+ * static servers (which may not get through restrictive NATs).
+ */
+export const getRtcConfiguration = async (): Promise<RTCConfiguration> => {
+  if (cachedConfiguration && cachedConfiguration.expiresAt > Date.now()) {
+    return cachedConfiguration.configuration;
+  }
+
+  const iceServers = getStaticIceServers();
+  const configuration: RTCConfiguration = {
+    iceServers,
+    iceCandidatePoolSize: 10,
+  };
+
+  // 'relay' forces all media through TURN (hides users' IP addresses)
+  if (import.meta.env.VITE_ICE_TRANSPORT_POLICY === 'relay') {
+    configuration.iceTransportPolicy = 'relay';
+  }
+
+  try {
+    const turnCredentials = await turnCredentialProvider();
+    if (turnCredentials) {
+      iceServers.push({
+        urls: turnCredentials.urls,
+        username: turnCredentials.username,
+        credential: turnCredentials.credential,
+      });
+    }
+
+    cachedConfiguration = {
+      configuration,
+      expiresAt: turnCredentials
+        ? Date.now() + turnCredentials.ttl * 1000 - CREDENTIAL_REFRESH_MARGIN_MS
+        : Infinity,
+    };
+  } catch (error) {
+    // Not cached, so the next call tries again
+    console.error('Error fetching TURN credentials:', error);
+  }
+
+  return configuration;
+};
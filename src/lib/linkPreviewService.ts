@@ -0,0 +1,128 @@
+import { parseMarkdown } from './markdown';
+import type { MarkdownBlock, MarkdownInline } from './markdown';
+import type { LinkPreview } from '../types/message';
+
+/**
+ * Fetches preview metadata for a URL. Return null when there is nothing to show.
+ */
+export type LinkPreviewFetcher = (url: string) => Promise<LinkPreview | null>;
+
+/**
+ * Parse Open Graph (and fallback <title>/description) metadata out of an HTML page
+ */
+export const parseOpenGraph = (html: string, url: string): LinkPreview | null => {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const content = page
+        .querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+        ?.getAttribute('content')
+        ?.trim();
+      if (content) return content;
+    }
+    return undefined;
+  };
+
+  const title = meta('og:title', 'twitter:title') || page.title.trim() || undefined;
+  const description = meta('og:description', 'twitter:description', 'description');
+  const image = meta('og:image', 'twitter:image');
+  const siteName = meta('og:site_name');
+
+  if (!title && !description) return null;
+
+  // Only keep http(s) images, resolved against the page URL
+  let imageUrl: string | undefined;
+  if (image) {
+    try {
+      const resolved = new URL(image, url);
+      if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+        imageUrl = resolved.href;
+      }
+    } catch {
+      imageUrl = undefined;
+    }
+  }
+
+  return {
+    url,
+    title: title?.substring(0, 200),
+    description: description?.substring(0, 300),
+    image: imageUrl,
+    siteName,
+  };
+};
+
+/**
+ * Default fetcher: loads the page through the proxy configured in
+ * VITE_LINK_PREVIEW_PROXY_URL (browsers can't fetch arbitrary sites because
+ * of CORS). The proxy receives `?url=<encoded url>` and returns the page HTML.
+ * Without a proxy, no previews are generated.
+ */
+const proxyFetcher: LinkPreviewFetcher = async (url) => {
+  const proxyUrl = import.meta.env.VITE_LINK_PREVIEW_PROXY_URL;
+  if (!proxyUrl) return null;
+
+  const response = await fetch(`${proxyUrl}?url=${encodeURIComponent(url)}`);
+  if (!response.ok) {
+    throw new Error(`Link preview proxy responded with ${response.status}`);
+  }
+
+  return parseOpenGraph(await response.text(), url);
+};
+
+let linkPreviewFetcher: LinkPreviewFetcher = proxyFetcher;
+
+/**
+ * Replace the fetcher used to unfurl links (e.g. a local stub)
+ */
+export const setLinkPreviewFetcher = (fetcher: LinkPreviewFetcher): void => {
+  linkPreviewFetcher = fetcher;
+};
+
+/**
+ * Restore the default proxy-backed fetcher
+ */
+export const resetLinkPreviewFetcher = (): void => {
+  linkPreviewFetcher = proxyFetcher;
+};
+
+/**
+ * Extract the URLs linked in message content (URLs inside code are ignored)
+ */
+export const extractUrls = (content: string): string[] => {
+  const urls: string[] = [];
+
+  const visitInline = (nodes: MarkdownInline[]) => {
+    nodes.forEach((node) => {
+      if (node.type === 'link') urls.push(node.href);
+      if (node.type === 'bold' || node.type === 'italic') visitInline(node.children);
+    });
+  };
+
+  const visitBlocks = (blocks: MarkdownBlock[]) => {
+    blocks.forEach((block) => {
+      if (block.type === 'paragraph') visitInline(block.children);
+      if (block.type === 'list') block.items.forEach(visitInline);
+      if (block.type === 'blockquote') visitBlocks(block.children);
+    });
+  };
+
+  visitBlocks(parseMarkdown(content));
+  return [...new Set(urls)];
+};
+
+/**
+ * Fetch a preview for the first URL in the content, if any
+ */
+export const fetchLinkPreview = async (content: string): Promise<LinkPreview | null> => {
+  const [url] = extractUrls(content);
+  if (!url) return null;
+
+  try {
+    return await linkPreviewFetcher(url);
+  } catch (error) {
+    console.error('Error fetching link preview:', error);
+    return null;
+  }
+};
@@ -0,0 +1,197 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import cpp from 'highlight.js/lib/languages/cpp';
+import css from 'highlight.js/lib/languages/css';
+import diff from 'highlight.js/lib/languages/diff';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('cpp', cpp);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('diff', diff);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('rust', rust);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('yaml', yaml);
+
+/**
+ * Inline Markdown nodes. Text is never interpreted as HTML.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownInline[] }
+  | { type: 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string };
+
+/**
+ * Block-level Markdown nodes
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'codeBlock'; language?: string; code: string }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] };
+
+const FENCE_PATTERN = /^\s*```\s*([\w+#-]*)\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+/;
+
+// Inline code, bold, italic and bare URLs, in order of precedence
+const INLINE_PATTERN =
+  /`([^`\n]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<![\p{L}\p{N}_])_([^_\s](?:[^_]*[^_\s])?)_(?![\p{L}\p{N}_])|(https?:\/\/[^\s<>]+)/u;
+
+// Punctuation that usually ends a sentence rather than a URL
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+/**
+ * Parse inline formatting (bold, italic, inline code and auto-linked URLs)
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      pushText(rest);
+      break;
+    }
+
+    pushText(rest.substring(0, match.index));
+    let consumed = match[0].length;
+    const [, code, boldStars, boldUnderscores, italicStars, italicUnderscores, url] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (boldStars !== undefined || boldUnderscores !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(boldStars ?? boldUnderscores) });
+    } else if (italicStars !== undefined || italicUnderscores !== undefined) {
+      nodes.push({ type: 'italic', children: parseInline(italicStars ?? italicUnderscores) });
+    } else if (url !== undefined) {
+      const href = url.replace(URL_TRAILING_PUNCTUATION, '');
+      consumed = href.length;
+      nodes.push({ type: 'link', href });
+    }
+
+    rest = rest.substring(match.index + consumed);
+  }
+
+  return nodes;
+};
+
+const isBlockStart = (line: string) =>
+  FENCE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  UNORDERED_ITEM_PATTERN.test(line) ||
+  ORDERED_ITEM_PATTERN.test(line);
+
+/**
+ * Parse a supported subset of Markdown: paragraphs, fenced code blocks,
+ * ordered/unordered lists and blockquotes, with inline formatting.
+ * Raw HTML is not supported and is kept as plain text.
+ */
+export const parseMarkdown = (content: string): MarkdownBlock[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Blank lines separate blocks
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block (an unclosed fence runs to the end of the message)
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: 'codeBlock',
+        language: fence[1] || undefined,
+        code: codeLines.join('\n'),
+      });
+      continue;
+    }
+
+    // Blockquote
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(lines[i].replace(QUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    // List
+    const ordered = ORDERED_ITEM_PATTERN.test(line);
+    if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        items.push(parseInline(lines[i].replace(itemPattern, '')));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    // Paragraph: consecutive lines, keeping single line breaks
+    const paragraphLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraphLines.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Syntax-highlight code, returning escaped HTML with highlight.js classes.
+ * Unknown or missing languages are auto-detected.
+ */
+export const highlightCode = (code: string, language?: string): string => {
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return hljs.highlightAuto(code).value;
+};
@@ -0,0 +1,138 @@
+import type { MediaDeviceList, MediaDevicePreferences, MediaType } from '../types/call';
+
+const preferencesKey = (userId: string) => `mediaDevices:${userId}`;
+
+/**
+ * The user's remembered devices. Device IDs are specific to this browser, so
+ * they are kept in localStorage rather than on the user document.
+ */
+export const getMediaDevicePreferences = (userId: string): MediaDevicePreferences => {
+  try {
+    const saved = localStorage.getItem(preferencesKey(userId));
+    return saved ? (JSON.parse(saved) as MediaDevicePreferences) : {};
+  } catch (error) {
+    console.debug('Ignoring unreadable media device preferences:', error);
+    return {};
+  }
+};
+
+/**
+ * Remember device choices (merged with the saved ones)
+ */
+export const saveMediaDevicePreferences = (
+  userId: string,
+  preferences: MediaDevicePreferences
+): MediaDevicePreferences => {
+  const merged = { ...getMediaDevicePreferences(userId), ...preferences };
+  localStorage.setItem(preferencesKey(userId), JSON.stringify(merged));
+  return merged;
+};
+
+/**
+ * List the available microphones, cameras and speakers. Labels are empty
+ * until the user has granted media permission once.
+ */
+export const listMediaDevices = async (): Promise<MediaDeviceList> => {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      audioInputs: devices.filter((device) => device.kind === 'audioinput'),
+      videoInputs: devices.filter((device) => device.kind === 'videoinput'),
+      audioOutputs: devices.filter((device) => device.kind === 'audiooutput'),
+    };
+  } catch (error) {
+    console.error('Error listing media devices:', error);
+    throw new Error('Failed to list media devices');
+  }
+};
+
+/**
+ * Subscribe to devices being plugged in or removed
+ */
+export const subscribeToDeviceChanges = (callback: () => void): (() => void) => {
+  navigator.mediaDevices.addEventListener('devicechange', callback);
+  return () => navigator.mediaDevices.removeEventListener('devicechange', callback);
+};
+
+/**
+ * Whether the browser can route audio to a chosen speaker (not Firefox/Safari on iOS)
+ */
+export const isAudioOutputSelectionSupported = (): boolean =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+/**
+ * Play a media element through the chosen speaker (no-op where unsupported)
+ */
+export const applyAudioOutput = async (
+  element: HTMLMediaElement,
+  deviceId: string | undefined
+): Promise<void> => {
+  if (!deviceId || !isAudioOutputSelectionSupported()) return;
+
+  try {
+    await element.setSinkId(deviceId);
+  } catch (error) {
+    console.debug('Could not switch audio output:', error);
+  }
+};
+
+/**
+ * getUserMedia constraints for a call, using the chosen devices if any
+ */
+export const getCallMediaConstraints = (
+  mediaType: MediaType,
+  preferences: MediaDevicePreferences
+): MediaStreamConstraints => ({
+  audio: {
+    ...(preferences.audioInputId && { deviceId: { exact: preferences.audioInputId } }),
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+  video:
+    mediaType === 'video'
+      ? {
+          ...(preferences.videoInputId
+            ? { deviceId: { exact: preferences.videoInputId } }
+            : { facingMode: 'user' }),
+          width: { ideal: 1280, min: 320 },
+          height: { ideal: 720, min: 240 },
+        }
+      : false,
+});
+
+/**
+ * Report a stream's microphone level (0–1) about ten times a second
+ */
+export const subscribeToAudioLevel = (
+  stream: MediaStream,
+  callback: (level: number) => void
+): (() => void) => {
+  if (stream.getAudioTracks().length === 0) return () => {};
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  const source = audioContext.createMediaStreamSource(stream);
+  source.connect(analyser);
+
+  const samples = new Uint8Array(analyser.fftSize);
+  const interval = setInterval(() => {
+    analyser.getByteTimeDomainData(samples);
+    // Root mean square of the waveform, scaled so normal speech fills most of the meter
+    let sum = 0;
+    for (const sample of samples) {
+      const value = (sample - 128) / 128;
+      sum += value * value;
+    }
+    callback(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+  }, 100);
+
+  return () => {
+    clearInterval(interval);
+    source.disconnect();
+    audioContext.close().catch(() => {
+      // Already closed
+    });
+  };
+};
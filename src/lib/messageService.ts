@@ -1,6 +1,6 @@
 import {
   collection,
-  addDoc,
+  collectionGroup,
   query,
   orderBy,
   limit,
@@ -9,45 +9,196 @@ import {
   updateDoc,
   serverTimestamp,
   getDoc,
+  getDocFromCache,
+  getDocs,
+  startAfter,
+  documentId,
+  increment,
+  where,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
 } from 'firebase/firestore';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import type { Message, SendMessageData } from '../types/message';
+import { fetchLinkPreview } from './linkPreviewService';
+import { encryptMessageContent, ENCRYPTED_MESSAGE_PREVIEW } from './encryptionService';
+import type {
+  Message,
+  MessageEncryption,
+  MessageRevision,
+  SendMessageData,
+} from '../types/message';
+import type { UserDoc } from '../types/user';
 
 /**
- * Send a message to a room
+ * Number of messages loaded per page (live tail and each older page)
+ */
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * What a deleted message (and the room or thread preview of it) shows instead
+ */
+const DELETED_MESSAGE_CONTENT = '[deleted]';
+
+/**
+ * A page of a room's messages, and where to continue for the page before it
+ */
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  cursor: QueryDocumentSnapshot<DocumentData> | null; // The oldest message's document
+}
+
+/**
+ * Newest first; the document ID breaks ties between messages sent in the same instant
+ */
+const newestFirst = [orderBy('createdAt', 'desc'), orderBy(documentId(), 'desc')];
+
+/**
+ * Turn a newest-first query result into a page
+ */
+const toMessagePage = (docs: QueryDocumentSnapshot<DocumentData>[]): MessagePage => ({
+  messages: docs.map(toMessage).reverse(),
+  cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+});
+
+/**
+ * Convert a Firestore message document into a Message
+ */
+const toMessage = (doc: QueryDocumentSnapshot<DocumentData>): Message => {
+  // Local (not yet acknowledged) writes get an estimate instead of a null timestamp
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    roomId: data.roomId,
+    senderId: data.senderId,
+    senderName: data.senderName,
+    senderAvatar: data.senderAvatar,
+    content: data.content,
+    type: data.type,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate(),
+    reactions: data.reactions,
+    replyTo: data.replyTo,
+    mentions: data.mentions,
+    linkPreview: data.linkPreview || undefined,
+    threadId: data.threadId,
+    threadReplyCount: data.threadReplyCount,
+    lastThreadReplyAt: data.lastThreadReplyAt?.toDate(),
+    lastThreadReply: data.lastThreadReply,
+    isEdited: data.isEdited,
+    isDeleted: data.isDeleted,
+    encryption: data.encryption || undefined,
+  };
+};
+
+/**
+ * Reference to a message document; thread replies live under their root message
+ */
+const messageDocRef = (roomId: string, messageId: string, threadId?: string) =>
+  threadId
+    ? doc(db, 'rooms', roomId, 'messages', threadId, 'replies', messageId)
+    : doc(db, 'rooms', roomId, 'messages', messageId);
+
+/**
+ * Unfurl the first URL in a text message and store the preview on it.
+ * Runs after the message is sent so a slow site never delays delivery.
+ */
+const attachLinkPreview = async (messageRef: DocumentReference, content: string) => {
+  const preview = await fetchLinkPreview(content);
+  if (!preview) return;
+
+  try {
+    // Firestore rejects undefined values
+    const linkPreview = Object.fromEntries(
+      Object.entries(preview).filter(([, value]) => value !== undefined)
+    );
+    await updateDoc(messageRef, { linkPreview });
+  } catch (error) {
+    console.error('Error saving link preview:', error);
+  }
+};
+
+/**
+ * The content to store for a new or edited message: encrypted for the other
+ * member in an end-to-end encrypted direct room, as is everywhere else
+ */
+const prepareContent = async (
+  roomId: string,
+  senderId: string,
+  content: string
+): Promise<{ content: string; encryption: MessageEncryption | null }> => {
+  // The sidebar's room subscription keeps the room cached; encryption is never turned off
+  const roomRef = doc(db, 'rooms', roomId);
+  const roomDoc = await getDocFromCache(roomRef).catch(() => getDoc(roomRef));
+  const room = roomDoc.data();
+  if (!room?.encrypted) return { content, encryption: null };
+
+  const recipientId = (room.members as string[]).find((memberId) => memberId !== senderId);
+  const recipientDoc = recipientId ? await getDoc(doc(db, 'users', recipientId)) : null;
+  const recipientKey = recipientDoc?.data()?.publicKey;
+  if (!recipientKey) {
+    throw new Error('The other member has no encryption key');
+  }
+
+  return encryptMessageContent(senderId, recipientKey, content);
+};
+
+/**
+ * Generate the ID for a message before it is sent (see the outbox)
+ */
+export const createMessageId = (roomId: string): string =>
+  doc(collection(db, 'rooms', roomId, 'messages')).id;
+
+/**
+ * Send a message to a room. Pass a pre-generated messageId to make resending
+ * the same message idempotent.
  */
 export const sendMessage = async (
   roomId: string,
   userId: string,
   userName: string,
   messageData: SendMessageData,
-  avatarUrl?: string
+  avatarUrl?: string,
+  messageId?: string
 ): Promise<string> => {
   try {
-    const messagesRef = collection(db, 'rooms', roomId, 'messages');
+    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId || createMessageId(roomId));
+    const { content, encryption } = await prepareContent(roomId, userId, messageData.content);
     const newMessage = {
       roomId,
       senderId: userId,
       senderName: userName,
       senderAvatar: avatarUrl || null,
-      content: messageData.content,
+      content,
       type: messageData.type || 'text',
       createdAt: serverTimestamp(),
       replyTo: messageData.replyTo || null,
+      // Mentions would show the message in the Mentions inbox, which can't decrypt it
+      mentions: encryption ? [] : messageData.mentions || [],
+      encryption,
       isEdited: false,
       isDeleted: false,
     };
 
-    const docRef = await addDoc(messagesRef, newMessage);
-
-    // Update room's lastMessage and lastMessageAt
-    const roomRef = doc(db, 'rooms', roomId);
-    await updateDoc(roomRef, {
-      lastMessage: messageData.content.substring(0, 100),
+    // One batch, so the room's lastMessage, lastMessageAt and message count (for
+    // unread badges) never get out of step with the message
+    const batch = writeBatch(db);
+    batch.set(messageRef, newMessage);
+    batch.update(doc(db, 'rooms', roomId), {
+      lastMessage: encryption ? ENCRYPTED_MESSAGE_PREVIEW : messageData.content.substring(0, 100),
       lastMessageAt: serverTimestamp(),
+      lastMessageId: messageRef.id,
+      messageCount: increment(1),
     });
+    await batch.commit();
 
-    return docRef.id;
+    // Previews are stored in plain text, so encrypted messages don't get one
+    if (newMessage.type === 'text' && !encryption) {
+      attachLinkPreview(messageRef, messageData.content);
+    }
+
+    return messageRef.id;
   } catch (error) {
     console.error('Error sending message:', error);
     throw new Error('Failed to send message');
@@ -55,40 +206,24 @@ export const sendMessage = async (
 };
 
 /**
- * Subscribe to messages in a room
+ * Subscribe to the latest messages in a room (the live tail)
+ * Older messages are loaded on demand with fetchOlderMessages. The callback is
+ * told whether the messages came from the offline cache; it is called again
+ * once the server has answered, even if nothing changed.
  */
 export const subscribeToMessages = (
   roomId: string,
-  callback: (messages: Message[]) => void,
-  messageLimit: number = 100
+  callback: (page: MessagePage, fromCache: boolean) => void,
+  messageLimit: number = MESSAGE_PAGE_SIZE
 ): (() => void) => {
   const messagesRef = collection(db, 'rooms', roomId, 'messages');
-  const q = query(messagesRef, orderBy('createdAt', 'desc'), limit(messageLimit));
+  const q = query(messagesRef, ...newestFirst, limit(messageLimit));
 
   const unsubscribe = onSnapshot(
     q,
+    { includeMetadataChanges: true },
     (querySnapshot) => {
-      const messages: Message[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        messages.push({
-          id: doc.id,
-          roomId: data.roomId,
-          senderId: data.senderId,
-          senderName: data.senderName,
-          senderAvatar: data.senderAvatar,
-          content: data.content,
-          type: data.type,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate(),
-          reactions: data.reactions,
-          replyTo: data.replyTo,
-          isEdited: data.isEdited,
-          isDeleted: data.isDeleted,
-        });
-      });
-      // Reverse to show oldest first
-      callback(messages.reverse());
+      callback(toMessagePage(querySnapshot.docs), querySnapshot.metadata.fromCache);
     },
     (error) => {
       // Only log permission errors at warning level since they're expected when not a member
@@ -104,20 +239,220 @@ export const subscribeToMessages = (
 };
 
 /**
- * Edit a message
+ * Fetch the page of messages sent before the given cursor (the document of the
+ * oldest message already loaded), or the newest page without one. Paging from
+ * the document keeps the server's full timestamp precision.
+ */
+export const fetchOlderMessages = async (
+  roomId: string,
+  cursor: QueryDocumentSnapshot<DocumentData> | null,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> => {
+  try {
+    const messagesRef = collection(db, 'rooms', roomId, 'messages');
+    const q = cursor
+      ? query(messagesRef, ...newestFirst, startAfter(cursor), limit(pageSize))
+      : query(messagesRef, ...newestFirst, limit(pageSize));
+
+    const querySnapshot = await getDocs(q);
+    return toMessagePage(querySnapshot.docs);
+  } catch (error) {
+    console.error('Error fetching older messages:', error);
+    throw new Error('Failed to load older messages');
+  }
+};
+
+/**
+ * Send a reply in a message thread
+ * Replies are stored under the root message so they stay out of the main channel
+ */
+export const sendThreadReply = async (
+  roomId: string,
+  rootId: string,
+  userId: string,
+  userName: string,
+  messageData: SendMessageData,
+  avatarUrl?: string
+): Promise<string> => {
+  try {
+    const repliesRef = collection(db, 'rooms', roomId, 'messages', rootId, 'replies');
+    const type = messageData.type || 'text';
+    const { content, encryption } = await prepareContent(roomId, userId, messageData.content);
+    const newReply = {
+      roomId,
+      threadId: rootId,
+      senderId: userId,
+      senderName: userName,
+      senderAvatar: avatarUrl || null,
+      content,
+      type,
+      createdAt: serverTimestamp(),
+      replyTo: null,
+      mentions: encryption ? [] : messageData.mentions || [],
+      encryption,
+      isEdited: false,
+      isDeleted: false,
+    };
+
+    // One batch, so the root message's reply count and last reply preview
+    // always match the replies
+    const replyRef = doc(repliesRef);
+    const batch = writeBatch(db);
+    batch.set(replyRef, newReply);
+    batch.update(doc(db, 'rooms', roomId, 'messages', rootId), {
+      threadReplyCount: increment(1),
+      lastThreadReplyAt: serverTimestamp(),
+      lastThreadReply: {
+        senderName: userName,
+        content: encryption ? ENCRYPTED_MESSAGE_PREVIEW : messageData.content.substring(0, 100),
+        type,
+      },
+      lastThreadReplyId: replyRef.id,
+    });
+    await batch.commit();
+
+    if (type === 'text' && !encryption) {
+      attachLinkPreview(replyRef, messageData.content);
+    }
+
+    return replyRef.id;
+  } catch (error) {
+    console.error('Error sending thread reply:', error);
+    throw new Error('Failed to send reply');
+  }
+};
+
+/**
+ * Subscribe to all replies in a message thread (oldest first)
+ */
+export const subscribeToThread = (
+  roomId: string,
+  rootId: string,
+  callback: (replies: Message[]) => void
+): (() => void) => {
+  const repliesRef = collection(db, 'rooms', roomId, 'messages', rootId, 'replies');
+  const q = query(repliesRef, orderBy('createdAt', 'asc'));
+
+  const unsubscribe = onSnapshot(
+    q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(toMessage));
+    },
+    (error) => {
+      console.error('Error subscribing to thread:', error);
+    }
+  );
+
+  return unsubscribe;
+};
+
+/**
+ * Fetch all replies in a message thread (oldest first)
+ */
+export const fetchThreadReplies = async (roomId: string, rootId: string): Promise<Message[]> => {
+  try {
+    const repliesRef = collection(db, 'rooms', roomId, 'messages', rootId, 'replies');
+    const querySnapshot = await getDocs(query(repliesRef, orderBy('createdAt', 'asc')));
+    return querySnapshot.docs.map(toMessage);
+  } catch (error) {
+    console.error('Error fetching thread replies:', error);
+    throw new Error('Failed to load thread replies');
+  }
+};
+
+/**
+ * Replace a message's content, recording the previous content in its
+ * history subcollection in the same batch. The message points at the new
+ * revision (lastRevisionId), which the security rules use to require one.
+ * Other documents showing the message (previews) can be updated in the batch too.
+ */
+const reviseMessage = async (
+  messageRef: DocumentReference,
+  action: MessageRevision['action'],
+  editorId: string,
+  editorName: string,
+  changes: DocumentData,
+  previewUpdates: [DocumentReference, DocumentData][] = []
+): Promise<void> => {
+  const messageDoc = await getDoc(messageRef);
+  if (!messageDoc.exists()) {
+    throw new Error('Message not found');
+  }
+
+  const revisionRef = doc(collection(messageRef, 'history'));
+  const batch = writeBatch(db);
+  batch.set(revisionRef, {
+    content: messageDoc.data().content,
+    encryption: messageDoc.data().encryption || null,
+    action,
+    editedBy: editorId,
+    editedByName: editorName,
+    editedAt: serverTimestamp(),
+  });
+  batch.update(messageRef, {
+    ...changes,
+    lastRevisionId: revisionRef.id,
+    updatedAt: serverTimestamp(),
+  });
+  previewUpdates.forEach(([ref, previewChanges]) => batch.update(ref, previewChanges));
+  await batch.commit();
+};
+
+/**
+ * The update to a thread's last reply preview when that reply is revised, if
+ * the reply is still the thread's latest
+ */
+const getThreadPreviewUpdates = async (
+  roomId: string,
+  threadId: string,
+  replyId: string,
+  preview: DocumentData
+): Promise<[DocumentReference, DocumentData][]> => {
+  const rootRef = doc(db, 'rooms', roomId, 'messages', threadId);
+  const rootDoc = await getDoc(rootRef);
+  if (rootDoc.data()?.lastThreadReplyId !== replyId) return [];
+
+  const changes = Object.fromEntries(
+    Object.entries(preview).map(([field, value]) => [`lastThreadReply.${field}`, value])
+  );
+  return [[rootRef, changes]];
+};
+
+/**
+ * Edit a message (the previous content is kept in its edit history). In an
+ * encrypted room the new content is encrypted too, and no mentions are stored.
+ * Editing a thread's latest reply updates the thread's preview of it.
  */
 export const editMessage = async (
   roomId: string,
   messageId: string,
-  newContent: string
+  newContent: string,
+  mentions: string[],
+  editorId: string,
+  editorName: string,
+  threadId?: string
 ): Promise<void> => {
   try {
-    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId);
-    await updateDoc(messageRef, {
-      content: newContent,
-      isEdited: true,
-      updatedAt: serverTimestamp(),
-    });
+    const messageRef = messageDocRef(roomId, messageId, threadId);
+    const { content, encryption } = await prepareContent(roomId, editorId, newContent);
+    const previewUpdates = threadId
+      ? await getThreadPreviewUpdates(roomId, threadId, messageId, {
+          content: encryption ? ENCRYPTED_MESSAGE_PREVIEW : newContent.substring(0, 100),
+        })
+      : [];
+    await reviseMessage(
+      messageRef,
+      'edit',
+      editorId,
+      editorName,
+      {
+        content,
+        encryption,
+        mentions: encryption ? [] : mentions,
+        isEdited: true,
+      },
+      previewUpdates
+    );
   } catch (error) {
     console.error('Error editing message:', error);
     throw new Error('Failed to edit message');
@@ -125,22 +460,161 @@ export const editMessage = async (
 };
 
 /**
- * Delete a message
+ * Delete a message (the sender's own, or anyone's for room moderators)
+ * The content is replaced for everyone, along with its link preview, mentions
+ * and the room's (or thread's) preview when it is the latest message; room
+ * moderators can still see it in the history
  */
-export const deleteMessage = async (roomId: string, messageId: string): Promise<void> => {
+export const deleteMessage = async (
+  roomId: string,
+  messageId: string,
+  editorId: string,
+  editorName: string,
+  threadId?: string
+): Promise<void> => {
   try {
-    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId);
-    await updateDoc(messageRef, {
-      content: '[deleted]',
-      isDeleted: true,
-      updatedAt: serverTimestamp(),
-    });
+    const messageRef = messageDocRef(roomId, messageId, threadId);
+
+    let previewUpdates: [DocumentReference, DocumentData][] = [];
+    if (threadId) {
+      previewUpdates = await getThreadPreviewUpdates(roomId, threadId, messageId, {
+        content: DELETED_MESSAGE_CONTENT,
+        type: 'text',
+      });
+    } else {
+      const roomRef = doc(db, 'rooms', roomId);
+      const roomDoc = await getDoc(roomRef);
+      if (roomDoc.data()?.lastMessageId === messageId) {
+        previewUpdates = [[roomRef, { lastMessage: DELETED_MESSAGE_CONTENT }]];
+      }
+    }
+
+    await reviseMessage(
+      messageRef,
+      'delete',
+      editorId,
+      editorName,
+      {
+        content: DELETED_MESSAGE_CONTENT,
+        encryption: null,
+        linkPreview: null,
+        mentions: [],
+        isDeleted: true,
+      },
+      previewUpdates
+    );
   } catch (error) {
     console.error('Error deleting message:', error);
     throw new Error('Failed to delete message');
   }
 };
 
+/**
+ * Get the revision history of a message (oldest first)
+ * Deletion revisions are only readable by room moderators, so they must be requested explicitly
+ */
+export const getMessageHistory = async (
+  roomId: string,
+  messageId: string,
+  includeDeleted: boolean = false,
+  threadId?: string
+): Promise<MessageRevision[]> => {
+  try {
+    const historyRef = collection(messageDocRef(roomId, messageId, threadId), 'history');
+    const q = includeDeleted
+      ? query(historyRef, orderBy('editedAt', 'asc'))
+      : query(historyRef, where('action', '==', 'edit'), orderBy('editedAt', 'asc'));
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((revisionDoc) => {
+      const data = revisionDoc.data();
+      return {
+        id: revisionDoc.id,
+        content: data.content,
+        action: data.action,
+        editedBy: data.editedBy,
+        editedByName: data.editedByName,
+        editedAt: data.editedAt?.toDate() || new Date(),
+        encryption: data.encryption || undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error getting message history:', error);
+    throw new Error('Failed to load message history');
+  }
+};
+
+/**
+ * Pin a message to the top of its room
+ * Allowed for moderators and above, or every member when the room's pinPermission is 'members'
+ */
+export const pinMessage = async (roomId: string, messageId: string): Promise<void> => {
+  try {
+    const roomRef = doc(db, 'rooms', roomId);
+    await updateDoc(roomRef, {
+      pinnedMessageIds: arrayUnion(messageId),
+    });
+  } catch (error) {
+    console.error('Error pinning message:', error);
+    throw new Error('Failed to pin message');
+  }
+};
+
+/**
+ * Unpin a message
+ */
+export const unpinMessage = async (roomId: string, messageId: string): Promise<void> => {
+  try {
+    const roomRef = doc(db, 'rooms', roomId);
+    await updateDoc(roomRef, {
+      pinnedMessageIds: arrayRemove(messageId),
+    });
+  } catch (error) {
+    console.error('Error unpinning message:', error);
+    throw new Error('Failed to unpin message');
+  }
+};
+
+/**
+ * Get messages of a room by ID (e.g. the pinned messages), in the given order
+ * Messages that no longer exist are skipped
+ */
+export const getMessagesByIds = async (
+  roomId: string,
+  messageIds: string[]
+): Promise<Message[]> => {
+  try {
+    const snapshots = await Promise.all(
+      messageIds.map((messageId) => getDoc(messageDocRef(roomId, messageId)))
+    );
+    return snapshots
+      .filter((snapshot) => snapshot.exists())
+      .map((snapshot) => toMessage(snapshot as QueryDocumentSnapshot<DocumentData>));
+  } catch (error) {
+    console.error('Error getting messages:', error);
+    throw new Error('Failed to load messages');
+  }
+};
+
+/**
+ * Remove the link preview from a message (the sender dismissed it)
+ */
+export const dismissLinkPreview = async (
+  roomId: string,
+  messageId: string,
+  threadId?: string
+): Promise<void> => {
+  try {
+    const messageRef = messageDocRef(roomId, messageId, threadId);
+    await updateDoc(messageRef, {
+      linkPreview: null,
+    });
+  } catch (error) {
+    console.error('Error dismissing link preview:', error);
+    throw new Error('Failed to dismiss link preview');
+  }
+};
+
 /**
  * Toggle reaction on a message
  * If user already reacted with this emoji, remove it; otherwise add it
@@ -150,10 +624,11 @@ export const toggleReaction = async (
   messageId: string,
   emoji: string,
   userId: string,
-  userName: string
+  userName: string,
+  threadId?: string
 ): Promise<void> => {
   try {
-    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId);
+    const messageRef = messageDocRef(roomId, messageId, threadId);
     const messageDoc = await getDoc(messageRef);
 
     if (!messageDoc.exists()) {
@@ -189,3 +664,81 @@ export const toggleReaction = async (
     throw new Error('Failed to toggle reaction');
   }
 };
+
+/**
+ * Regular expression matching `@displayName` for any of the given names. The
+ * longest name wins ("@Bob Smith" is Bob Smith, not Bob), and a name must end
+ * at a word boundary ("@Alice" doesn't mention "Al").
+ */
+export const createMentionPattern = (names: string[]): RegExp => {
+  const escaped = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`@(${escaped.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+};
+
+/**
+ * Get the IDs of the users mentioned as `@displayName` in the message content
+ */
+export const getMentionedUserIds = (content: string, users: UserDoc[]): string[] => {
+  const named = users.filter((user) => user.displayName);
+  if (named.length === 0) return [];
+
+  const pattern = createMentionPattern(named.map((user) => user.displayName));
+  const mentionedNames = new Set(
+    Array.from(content.matchAll(pattern), (match) => match[1].toLowerCase())
+  );
+  return named
+    .filter((user) => mentionedNames.has(user.displayName.toLowerCase()))
+    .map((user) => user.uid);
+};
+
+/**
+ * Subscribe to the most recent messages (including thread replies) that
+ * mention a user, across every room. Newest first.
+ */
+export const subscribeToMentions = (
+  userId: string,
+  callback: (messages: Message[]) => void,
+  messageLimit: number = MESSAGE_PAGE_SIZE
+): (() => void) => {
+  let channelMessages: Message[] = [];
+  let threadReplies: Message[] = [];
+
+  const emit = () => {
+    callback(
+      [...channelMessages, ...threadReplies]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, messageLimit)
+    );
+  };
+
+  const subscribeToGroup = (group: string, onMessages: (messages: Message[]) => void) =>
+    onSnapshot(
+      query(
+        collectionGroup(db, group),
+        where('mentions', 'array-contains', userId),
+        orderBy('createdAt', 'desc'),
+        limit(messageLimit)
+      ),
+      (querySnapshot) => {
+        onMessages(querySnapshot.docs.map(toMessage).filter((message) => !message.isDeleted));
+        emit();
+      },
+      (error) => {
+        console.error('Error subscribing to mentions:', error);
+      }
+    );
+
+  const unsubscribeMessages = subscribeToGroup('messages', (messages) => {
+    channelMessages = messages;
+  });
+  const unsubscribeReplies = subscribeToGroup('replies', (messages) => {
+    threadReplies = messages;
+  });
+
+  return () => {
+    unsubscribeMessages();
+    unsubscribeReplies();
+  };
+};
@@ -0,0 +1,268 @@
+import {
+  collection,
+  doc,
+  query,
+  orderBy,
+  limit,
+  onSnapshot,
+  setDoc,
+  deleteDoc,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { getMessaging, getToken, deleteToken, isSupported } from 'firebase/messaging';
+import app, { db } from '../config/firebase';
+import { isServiceWorkerSupported, registerServiceWorker } from './serviceWorkerService';
+import type { AppNotification, NotificationLevel, PushStatus } from '../types/notification';
+
+export const NOTIFICATION_PAGE_SIZE = 50;
+
+// Public key of the project's Web Push certificate (Cloud Messaging settings)
+const VAPID_KEY = import.meta.env.VITE_FIREBASE_VAPID_KEY;
+
+const pushTokenKey = (userId: string) => `pushToken:${userId}`;
+
+/**
+ * Convert Firestore document to AppNotification type
+ */
+const toNotification = (docSnap: QueryDocumentSnapshot<DocumentData>): AppNotification => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    type: data.type,
+    roomId: data.roomId,
+    messageId: data.messageId || undefined,
+    threadId: data.threadId || undefined,
+    callId: data.callId || undefined,
+    actorId: data.actorId,
+    actorName: data.actorName,
+    actorAvatar: data.actorAvatar || undefined,
+    title: data.title,
+    body: data.body || '',
+    read: data.read || false,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+  };
+};
+
+/**
+ * Where a notification leads in the app
+ */
+export const getNotificationPath = (notification: AppNotification): string => {
+  if (notification.type === 'missedCall') return '/calls';
+
+  const messageId = notification.threadId || notification.messageId;
+  return messageId
+    ? `/chat/${notification.roomId}?highlight=${messageId}`
+    : `/chat/${notification.roomId}`;
+};
+
+/**
+ * Subscribe to a user's most recent notifications (newest first)
+ */
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (notifications: AppNotification[]) => void,
+  notificationLimit: number = NOTIFICATION_PAGE_SIZE
+): (() => void) => {
+  const q = query(
+    collection(db, 'users', userId, 'notifications'),
+    orderBy('createdAt', 'desc'),
+    limit(notificationLimit)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(toNotification));
+    },
+    (error) => {
+      console.error('Error subscribing to notifications:', error);
+    }
+  );
+};
+
+/**
+ * Mark notifications as read
+ */
+export const markNotificationsRead = async (
+  userId: string,
+  notificationIds: string[]
+): Promise<void> => {
+  if (notificationIds.length === 0) return;
+
+  try {
+    const batch = writeBatch(db);
+    notificationIds.forEach((notificationId) => {
+      batch.update(doc(db, 'users', userId, 'notifications', notificationId), { read: true });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    throw new Error('Failed to mark notifications as read');
+  }
+};
+
+/**
+ * Remove a notification from the notification centre
+ */
+export const deleteNotification = async (userId: string, notificationId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'notifications', notificationId));
+  } catch (error) {
+    console.error('Error deleting notification:', error);
+    throw new Error('Failed to delete notification');
+  }
+};
+
+/**
+ * Subscribe to a user's per-room notification levels. Rooms without an entry
+ * use 'all'.
+ */
+export const subscribeToNotificationLevels = (
+  userId: string,
+  callback: (levels: Record<string, NotificationLevel>) => void
+): (() => void) => {
+  return onSnapshot(
+    collection(db, 'users', userId, 'notificationPreferences'),
+    (querySnapshot) => {
+      const levels: Record<string, NotificationLevel> = {};
+      querySnapshot.forEach((docSnap) => {
+        levels[docSnap.id] = docSnap.data().level;
+      });
+      callback(levels);
+    },
+    (error) => {
+      console.error('Error subscribing to notification preferences:', error);
+    }
+  );
+};
+
+/**
+ * Choose how much a room notifies the user
+ */
+export const setRoomNotificationLevel = async (
+  userId: string,
+  roomId: string,
+  level: NotificationLevel
+): Promise<void> => {
+  try {
+    const preferenceRef = doc(db, 'users', userId, 'notificationPreferences', roomId);
+    if (level === 'all') {
+      // The default; no need to keep a document for it
+      await deleteDoc(preferenceRef);
+    } else {
+      await setDoc(preferenceRef, { level, updatedAt: serverTimestamp() });
+    }
+  } catch (error) {
+    console.error('Error setting notification level:', error);
+    throw new Error('Failed to update notification settings');
+  }
+};
+
+/**
+ * Whether this browser can receive push notifications (and the app is configured for it)
+ */
+export const isPushSupported = async (): Promise<boolean> => {
+  if (!VAPID_KEY || !isServiceWorkerSupported() || !('Notification' in window)) {
+    return false;
+  }
+
+  try {
+    return await isSupported();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Push notification state for this device
+ */
+export const getPushStatus = async (userId: string): Promise<PushStatus> => {
+  if (!(await isPushSupported())) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  return Notification.permission === 'granted' && localStorage.getItem(pushTokenKey(userId))
+    ? 'enabled'
+    : 'disabled';
+};
+
+/**
+ * Ask for notification permission and register this device for push
+ * notifications. The token is stored under the user so the Cloud Functions can
+ * reach every device they are signed in on. Calling it again refreshes the token.
+ */
+export const enablePushNotifications = async (userId: string): Promise<void> => {
+  if (!(await isPushSupported())) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in the browser settings.');
+  }
+
+  try {
+    const registration = await registerServiceWorker();
+    const token = await getToken(getMessaging(app), {
+      vapidKey: VAPID_KEY,
+      serviceWorkerRegistration: registration,
+    });
+
+    await setDoc(doc(db, 'users', userId, 'pushTokens', token), {
+      token,
+      userAgent: navigator.userAgent,
+      updatedAt: serverTimestamp(),
+    });
+
+    // Tokens rotate; drop the one this device registered before
+    const previousToken = localStorage.getItem(pushTokenKey(userId));
+    if (previousToken && previousToken !== token) {
+      await deleteDoc(doc(db, 'users', userId, 'pushTokens', previousToken));
+    }
+    localStorage.setItem(pushTokenKey(userId), token);
+  } catch (error) {
+    console.error('Error enabling push notifications:', error);
+    throw new Error('Failed to enable push notifications');
+  }
+};
+
+/**
+ * Stop push notifications to this device (e.g. when signing out)
+ */
+export const disablePushNotifications = async (userId: string): Promise<void> => {
+  const token = localStorage.getItem(pushTokenKey(userId));
+  if (!token) return;
+
+  try {
+    localStorage.removeItem(pushTokenKey(userId));
+    await deleteDoc(doc(db, 'users', userId, 'pushTokens', token));
+    await deleteToken(getMessaging(app));
+  } catch (error) {
+    console.error('Error disabling push notifications:', error);
+    throw new Error('Failed to disable push notifications');
+  }
+};
+
+/**
+ * Show a system notification from the page itself, for background tabs on
+ * devices without push. Uses the notification ID as the tag, so it replaces
+ * rather than duplicates one the service worker already showed.
+ */
+export const showBrowserNotification = (
+  notification: AppNotification,
+  onClick: () => void
+): void => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const browserNotification = new Notification(notification.title, {
+    body: notification.body,
+    tag: notification.id,
+    icon: notification.actorAvatar || '/vite.svg',
+  });
+  browserNotification.onclick = () => {
+    window.focus();
+    onClick();
+    browserNotification.close();
+  };
+};
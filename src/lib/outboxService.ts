@@ -0,0 +1,206 @@
+import { doc, getDocFromCache, waitForPendingWrites } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { createMessageId, sendMessage } from './messageService';
+import type { OutboxMessage, SendMessageData } from '../types/message';
+
+/**
+ * The outbox holds the user's messages from the moment they press send until
+ * the server acknowledges them, so they show up straight away and survive a
+ * flaky connection or a reload. Firestore itself queues writes made while
+ * offline and sends them when the connection returns; the outbox tracks them
+ * and keeps the ones the server rejected for a manual retry.
+ */
+
+type OutboxListener = (messages: OutboxMessage[]) => void;
+
+const outboxKey = (userId: string) => `outbox:${userId}`;
+
+const listeners = new Map<string, Set<OutboxListener>>(); // Keyed by user ID
+
+// Messages this tab is currently sending
+const inFlightIds = new Set<string>();
+
+const readOutbox = (userId: string): OutboxMessage[] => {
+  try {
+    const saved = localStorage.getItem(outboxKey(userId));
+    if (!saved) return [];
+    return (JSON.parse(saved) as OutboxMessage[]).map((message) => ({
+      ...message,
+      createdAt: new Date(message.createdAt),
+    }));
+  } catch (error) {
+    console.debug('Ignoring unreadable outbox:', error);
+    return [];
+  }
+};
+
+const notify = (userId: string) => {
+  const messages = readOutbox(userId);
+  listeners.get(userId)?.forEach((listener) => listener(messages));
+};
+
+const writeOutbox = (userId: string, messages: OutboxMessage[]) => {
+  if (messages.length === 0) {
+    localStorage.removeItem(outboxKey(userId));
+  } else {
+    localStorage.setItem(outboxKey(userId), JSON.stringify(messages));
+  }
+  notify(userId);
+};
+
+const updateOutboxMessage = (
+  userId: string,
+  messageId: string,
+  update: (message: OutboxMessage) => OutboxMessage | null
+) => {
+  const messages = readOutbox(userId).flatMap((message) => {
+    if (message.id !== messageId) return [message];
+    const updated = update(message);
+    return updated ? [updated] : [];
+  });
+  writeOutbox(userId, messages);
+};
+
+// Keep other tabs' outbox views in sync
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (!event.key?.startsWith('outbox:')) return;
+    notify(event.key.slice('outbox:'.length));
+  });
+}
+
+/**
+ * Subscribe to the user's unsent messages in a room (oldest first)
+ */
+export const subscribeToOutbox = (
+  userId: string,
+  roomId: string,
+  callback: (messages: OutboxMessage[]) => void
+): (() => void) => {
+  const listener: OutboxListener = (messages) =>
+    callback(
+      messages
+        .filter((message) => message.roomId === roomId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    );
+
+  const userListeners = listeners.get(userId) || new Set<OutboxListener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  listener(readOutbox(userId));
+
+  return () => {
+    userListeners.delete(listener);
+  };
+};
+
+/**
+ * Send an outbox message and remove it once the server has it. Offline, the
+ * write waits in Firestore's queue; a rejected write marks the message failed.
+ */
+const deliver = async (message: OutboxMessage): Promise<void> => {
+  if (inFlightIds.has(message.id)) return;
+  inFlightIds.add(message.id);
+
+  try {
+    await sendMessage(
+      message.roomId,
+      message.senderId,
+      message.senderName,
+      message.data,
+      message.senderAvatar,
+      message.id
+    );
+    updateOutboxMessage(message.senderId, message.id, () => null);
+  } catch (error) {
+    console.error('Error delivering outbox message:', error);
+    const reason = error instanceof Error ? error.message : 'Failed to send message';
+    updateOutboxMessage(message.senderId, message.id, (current) => ({
+      ...current,
+      status: 'failed',
+      error: reason,
+    }));
+  } finally {
+    inFlightIds.delete(message.id);
+  }
+};
+
+/**
+ * Put a message in the outbox and start sending it. Returns the message ID.
+ */
+export const queueMessage = (
+  roomId: string,
+  userId: string,
+  userName: string,
+  messageData: SendMessageData,
+  avatarUrl?: string
+): string => {
+  const message: OutboxMessage = {
+    id: createMessageId(roomId),
+    roomId,
+    senderId: userId,
+    senderName: userName,
+    senderAvatar: avatarUrl || undefined,
+    data: messageData,
+    createdAt: new Date(),
+    status: 'sending',
+  };
+
+  writeOutbox(userId, [...readOutbox(userId), message]);
+  deliver(message);
+  return message.id;
+};
+
+/**
+ * Send a failed message again
+ */
+export const retryOutboxMessage = (userId: string, messageId: string): void => {
+  const message = readOutbox(userId).find((entry) => entry.id === messageId);
+  if (!message || inFlightIds.has(messageId)) return;
+
+  const retrying: OutboxMessage = { ...message, status: 'sending', error: undefined };
+  updateOutboxMessage(userId, messageId, () => retrying);
+  deliver(retrying);
+};
+
+/**
+ * Drop a failed message without sending it
+ */
+export const discardOutboxMessage = (userId: string, messageId: string): void => {
+  if (inFlightIds.has(messageId)) return;
+  updateOutboxMessage(userId, messageId, () => null);
+};
+
+/**
+ * Retry every failed message, e.g. when the connection comes back
+ */
+export const retryFailedMessages = (userId: string): void => {
+  readOutbox(userId)
+    .filter((message) => message.status === 'failed')
+    .forEach((message) => retryOutboxMessage(userId, message.id));
+};
+
+/**
+ * Pick up messages a previous session was still sending. If Firestore's
+ * persisted cache already has the message, its own queue is sending it, so
+ * only wait for that; otherwise send it again.
+ */
+export const resumeOutbox = async (userId: string): Promise<void> => {
+  const sending = readOutbox(userId).filter(
+    (message) => message.status === 'sending' && !inFlightIds.has(message.id)
+  );
+
+  for (const message of sending) {
+    try {
+      await getDocFromCache(doc(db, 'rooms', message.roomId, 'messages', message.id));
+      inFlightIds.add(message.id);
+      waitForPendingWrites(db)
+        .then(() => updateOutboxMessage(userId, message.id, () => null))
+        .catch((error) => console.debug('Waiting for queued message stopped:', error))
+        .finally(() => inFlightIds.delete(message.id));
+    } catch {
+      // Not in the cache: the earlier attempt never reached Firestore
+      deliver(message);
+    }
+  }
+};
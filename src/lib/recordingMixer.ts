@@ -0,0 +1,163 @@
+// Size and frame rate of the recorded video
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 24;
+
+// Preferred recording formats, best first
+const VIDEO_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+/**
+ * Mixes several call streams into one recordable stream: audio through a Web
+ * Audio graph and video as a grid drawn onto a canvas
+ */
+export interface RecordingMixer {
+  stream: MediaStream;
+  setSources: (streams: MediaStream[]) => void; // The local stream first, then remote ones
+  stop: () => void;
+}
+
+/**
+ * Pick the first recording format the browser supports ('' lets it choose)
+ */
+export const getRecordingMimeType = (includeVideo: boolean): string =>
+  (includeVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES).find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  ) || '';
+
+/**
+ * Draw a video scaled to fit its tile, letterboxed on black
+ */
+const drawTile = (
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  context.fillStyle = '#111827';
+  context.fillRect(x, y, width, height);
+
+  const track = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+  const hasFrame =
+    video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+    video.videoWidth > 0 &&
+    !!track?.enabled &&
+    !track.muted;
+  if (!hasFrame) return;
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  context.drawImage(
+    video,
+    x + (width - drawWidth) / 2,
+    y + (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+};
+
+/**
+ * Create a mixer. Frames are drawn on a timer rather than with
+ * requestAnimationFrame, which stops while the tab is in the background.
+ */
+export const createRecordingMixer = (includeVideo: boolean): RecordingMixer => {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const audioSources = new Map<MediaStream, MediaStreamAudioSourceNode>();
+  const videos = new Map<MediaStream, HTMLVideoElement>();
+  let sources: MediaStream[] = [];
+
+  const tracks: MediaStreamTrack[] = [...destination.stream.getAudioTracks()];
+  let drawInterval: ReturnType<typeof setInterval> | undefined;
+
+  if (includeVideo) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    const context = canvas.getContext('2d');
+
+    if (context) {
+      drawInterval = setInterval(() => {
+        const count = Math.max(sources.length, 1);
+        const columns = Math.ceil(Math.sqrt(count));
+        const rows = Math.ceil(count / columns);
+        const tileWidth = CANVAS_WIDTH / columns;
+        const tileHeight = CANVAS_HEIGHT / rows;
+
+        context.fillStyle = '#000';
+        context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        sources.forEach((source, index) => {
+          const video = videos.get(source);
+          if (!video) return;
+          const column = index % columns;
+          const row = Math.floor(index / columns);
+          drawTile(context, video, column * tileWidth, row * tileHeight, tileWidth, tileHeight);
+        });
+      }, 1000 / FRAME_RATE);
+
+      tracks.push(...canvas.captureStream(FRAME_RATE).getVideoTracks());
+    }
+  }
+
+  const setSources = (streams: MediaStream[]) => {
+    sources = streams;
+
+    // Drop streams that left
+    audioSources.forEach((node, stream) => {
+      if (!streams.includes(stream)) {
+        node.disconnect();
+        audioSources.delete(stream);
+      }
+    });
+    videos.forEach((video, stream) => {
+      if (!streams.includes(stream)) {
+        video.srcObject = null;
+        videos.delete(stream);
+      }
+    });
+
+    // Add new ones
+    streams.forEach((stream) => {
+      if (!audioSources.has(stream) && stream.getAudioTracks().length > 0) {
+        const node = audioContext.createMediaStreamSource(stream);
+        node.connect(destination);
+        audioSources.set(stream, node);
+      }
+
+      if (includeVideo && !videos.has(stream)) {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        video.play().catch((err) => {
+          console.debug('Recording mixer video playback prevented:', err.name);
+        });
+        videos.set(stream, video);
+      }
+    });
+  };
+
+  const stop = () => {
+    clearInterval(drawInterval);
+    tracks.forEach((track) => track.stop());
+    audioSources.forEach((node) => node.disconnect());
+    audioSources.clear();
+    videos.forEach((video) => {
+      video.srcObject = null;
+    });
+    videos.clear();
+    audioContext.close().catch(() => {
+      // Already closed
+    });
+  };
+
+  return { stream: new MediaStream(tracks), setSources, stop };
+};
@@ -13,9 +13,68 @@ import {
   onSnapshot,
   arrayUnion,
   arrayRemove,
+  serverTimestamp,
+  deleteField,
+  setDoc,
 } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import type { Room, CreateRoomData, RoomType } from '../types/room';
+import type { Room, CreateRoomData, RoomType, RoomReadState, RoomRole } from '../types/room';
+
+/**
+ * Minimum time between two writes of a member's read marker for a room, so a
+ * busy room doesn't cost a write per message
+ */
+export const READ_MARKER_INTERVAL_MS = 10000;
+
+// Higher roles can do everything lower ones can
+const ROOM_ROLE_RANK: Record<RoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Convert a Firestore read marker into a RoomReadState
+ */
+const toReadState = (data: DocumentData): RoomReadState => ({
+  lastReadAt: data.lastReadAt?.toDate(),
+  readCount: data.readCount || 0,
+});
+
+/**
+ * Convert Firestore room data into a Room
+ */
+const toRoom = (id: string, data: DocumentData): Room => {
+  const readState: Record<string, RoomReadState> = {};
+  Object.entries((data.readState || {}) as Record<string, DocumentData>).forEach(
+    ([userId, state]) => {
+      readState[userId] = toReadState(state);
+    }
+  );
+
+  return {
+    id,
+    name: data.name,
+    type: data.type,
+    members: data.members,
+    createdBy: data.createdBy,
+    createdAt: data.createdAt.toDate(),
+    description: data.description,
+    avatarUrl: data.avatarUrl,
+    lastMessageAt: data.lastMessageAt?.toDate(),
+    lastMessage: data.lastMessage,
+    lastMessageId: data.lastMessageId,
+    messageCount: data.messageCount || 0,
+    readState,
+    pinnedMessageIds: data.pinnedMessageIds || [],
+    pinPermission: data.pinPermission || 'admins',
+    encrypted: data.encrypted || false,
+    // Rooms from before roles existed are owned by their creator
+    roles: data.roles || { [data.createdBy]: 'owner' },
+  };
+};
 
 /**
  * Create a new room
@@ -28,6 +87,7 @@ export const createRoom = async (roomData: CreateRoomData, userId: string): Prom
       type: roomData.type,
       members: [userId, ...(roomData.members || [])],
       createdBy: userId,
+      roles: { [userId]: 'owner' },
       createdAt: Timestamp.now(),
       description: roomData.description || '',
       lastMessageAt: Timestamp.now(),
@@ -51,18 +111,7 @@ export const getRoom = async (roomId: string): Promise<Room | null> => {
 
     if (roomSnap.exists()) {
       const data = roomSnap.data();
-      return {
-        id: roomSnap.id,
-        name: data.name,
-        type: data.type,
-        members: data.members,
-        createdBy: data.createdBy,
-        createdAt: data.createdAt.toDate(),
-        description: data.description,
-        avatarUrl: data.avatarUrl,
-        lastMessageAt: data.lastMessageAt?.toDate(),
-        lastMessage: data.lastMessage,
-      };
+      return toRoom(roomSnap.id, data);
     }
     return null;
   } catch (error) {
@@ -88,18 +137,7 @@ export const getUserRooms = async (userId: string): Promise<Room[]> => {
 
     querySnapshot.forEach((doc) => {
       const data = doc.data();
-      rooms.push({
-        id: doc.id,
-        name: data.name,
-        type: data.type,
-        members: data.members,
-        createdBy: data.createdBy,
-        createdAt: data.createdAt.toDate(),
-        description: data.description,
-        avatarUrl: data.avatarUrl,
-        lastMessageAt: data.lastMessageAt?.toDate(),
-        lastMessage: data.lastMessage,
-      });
+      rooms.push(toRoom(doc.id, data));
     });
 
     return rooms;
@@ -111,7 +149,7 @@ export const getUserRooms = async (userId: string): Promise<Room[]> => {
 
 /**
  * Subscribe to user's rooms in real-time
- * Includes both rooms where user is a member AND all public rooms
+ * Includes both rooms where user is a member AND all public and voice rooms
  */
 export const subscribeToUserRooms = (
   userId: string,
@@ -152,18 +190,7 @@ export const subscribeToUserRooms = (
       memberRooms = [];
       querySnapshot.forEach((doc) => {
         const data = doc.data();
-        memberRooms.push({
-          id: doc.id,
-          name: data.name,
-          type: data.type,
-          members: data.members,
-          createdBy: data.createdBy,
-          createdAt: data.createdAt.toDate(),
-          description: data.description,
-          avatarUrl: data.avatarUrl,
-          lastMessageAt: data.lastMessageAt?.toDate(),
-          lastMessage: data.lastMessage,
-        });
+        memberRooms.push(toRoom(doc.id, data));
       });
       console.log('Member rooms:', memberRooms.length, memberRooms);
       mergeAndCallback();
@@ -175,10 +202,10 @@ export const subscribeToUserRooms = (
     }
   );
 
-  // Subscribe to all public rooms
+  // Subscribe to all public and voice rooms (anyone can join them)
   const publicQuery = query(
     roomsRef,
-    where('type', '==', 'public'),
+    where('type', 'in', ['public', 'voice']),
     orderBy('lastMessageAt', 'desc')
   );
 
@@ -188,18 +215,7 @@ export const subscribeToUserRooms = (
       publicRooms = [];
       querySnapshot.forEach((doc) => {
         const data = doc.data();
-        publicRooms.push({
-          id: doc.id,
-          name: data.name,
-          type: data.type,
-          members: data.members,
-          createdBy: data.createdBy,
-          createdAt: data.createdAt.toDate(),
-          description: data.description,
-          avatarUrl: data.avatarUrl,
-          lastMessageAt: data.lastMessageAt?.toDate(),
-          lastMessage: data.lastMessage,
-        });
+        publicRooms.push(toRoom(doc.id, data));
       });
       console.log('Public rooms:', publicRooms.length, publicRooms);
       mergeAndCallback();
@@ -231,6 +247,176 @@ export const updateRoom = async (roomId: string, updates: Partial<Room>): Promis
   }
 };
 
+/**
+ * Turn on end-to-end encryption for a direct room. Either member can; it can't
+ * be turned off, and only messages sent from then on are encrypted.
+ */
+export const enableRoomEncryption = async (roomId: string): Promise<void> => {
+  try {
+    const roomRef = doc(db, 'rooms', roomId);
+    await updateDoc(roomRef, { encrypted: true });
+  } catch (error) {
+    console.error('Error enabling room encryption:', error);
+    throw new Error('Failed to turn on encryption');
+  }
+};
+
+/**
+ * Mark a room as read up to its current message count. The marker lives under
+ * the user (users/{uid}/readState/{roomId}), so it doesn't write to the room.
+ */
+export const markRoomRead = async (
+  roomId: string,
+  userId: string,
+  messageCount: number
+): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'users', userId, 'readState', roomId), {
+      lastReadAt: serverTimestamp(),
+      readCount: messageCount,
+    });
+  } catch (error) {
+    console.error('Error marking room as read:', error);
+    throw new Error('Failed to mark room as read');
+  }
+};
+
+/**
+ * Subscribe to the user's read markers, keyed by room ID
+ */
+export const subscribeToReadStates = (
+  userId: string,
+  callback: (readStates: Record<string, RoomReadState>) => void
+): (() => void) => {
+  const unsubscribe = onSnapshot(
+    collection(db, 'users', userId, 'readState'),
+    (querySnapshot) => {
+      callback(
+        Object.fromEntries(
+          querySnapshot.docs.map((readStateDoc) => [
+            readStateDoc.id,
+            toReadState(readStateDoc.data()),
+          ])
+        )
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to read states:', error);
+    }
+  );
+
+  return unsubscribe;
+};
+
+/**
+ * Subscribe to another member's read marker for a room (e.g. for "Seen")
+ */
+export const subscribeToMemberReadState = (
+  roomId: string,
+  userId: string,
+  callback: (readState: RoomReadState | null) => void
+): (() => void) => {
+  const unsubscribe = onSnapshot(
+    doc(db, 'users', userId, 'readState', roomId),
+    (docSnapshot) => {
+      callback(docSnapshot.exists() ? toReadState(docSnapshot.data()) : null);
+    },
+    (error) => {
+      console.error('Error subscribing to read state:', error);
+    }
+  );
+
+  return unsubscribe;
+};
+
+/**
+ * Number of messages in a room the user has not read yet. Falls back to the
+ * marker rooms kept before read markers moved under the user.
+ */
+export const getUnreadCount = (
+  room: Room,
+  userId: string,
+  readState: RoomReadState | undefined
+): number => {
+  if (!room.members.includes(userId)) return 0;
+  const readCount = (readState || room.readState?.[userId])?.readCount || 0;
+  return Math.max(0, (room.messageCount || 0) - readCount);
+};
+
+/**
+ * A user's role in a room; non-members have no privileges (mirrors firestore.rules)
+ */
+export const getRoomRole = (room: Room, userId: string): RoomRole => {
+  if (!room.members.includes(userId)) return 'member';
+  return room.roles?.[userId] || 'member';
+};
+
+/**
+ * Whether a user's role in a room is at least the given one
+ */
+export const hasRoomRole = (room: Room, userId: string, role: RoomRole): boolean =>
+  ROOM_ROLE_RANK[getRoomRole(room, userId)] >= ROOM_ROLE_RANK[role];
+
+/**
+ * Whether a user may pin messages in a room (mirrors firestore.rules)
+ */
+export const canPinMessages = (room: Room, userId: string): boolean => {
+  if (!room.members.includes(userId)) return false;
+  return (
+    hasRoomRole(room, userId, 'moderator') ||
+    room.type === 'direct' ||
+    room.pinPermission === 'members'
+  );
+};
+
+/**
+ * Change a member's role (owner only). Plain members are removed from the role
+ * map. The whole map is written, so rooms from before roles keep their owner.
+ */
+export const setRoomMemberRole = async (
+  room: Room,
+  userId: string,
+  role: Exclude<RoomRole, 'owner'>
+): Promise<void> => {
+  try {
+    const roles = { ...room.roles };
+    if (role === 'member') {
+      delete roles[userId];
+    } else {
+      roles[userId] = role;
+    }
+
+    const roomRef = doc(db, 'rooms', room.id);
+    await updateDoc(roomRef, { roles });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw new Error('Failed to update member role');
+  }
+};
+
+/**
+ * Hand a room over to another member (owner only); the previous owner stays on as an admin
+ */
+export const transferRoomOwnership = async (room: Room, newOwnerId: string): Promise<void> => {
+  if (!room.members.includes(newOwnerId)) {
+    throw new Error('The new owner must be a member of the room');
+  }
+
+  try {
+    const roles: Record<string, RoomRole> = {};
+    Object.entries(room.roles || {}).forEach(([userId, role]) => {
+      roles[userId] = role === 'owner' ? 'admin' : role;
+    });
+    roles[newOwnerId] = 'owner';
+
+    const roomRef = doc(db, 'rooms', room.id);
+    await updateDoc(roomRef, { roles });
+  } catch (error) {
+    console.error('Error transferring room ownership:', error);
+    throw new Error('Failed to transfer ownership');
+  }
+};
+
 /**
  * Add member to room
  */
@@ -247,13 +433,14 @@ export const addRoomMember = async (roomId: string, userId: string): Promise<voi
 };
 
 /**
- * Remove member from room
+ * Remove member from room (their role goes with them)
  */
 export const removeRoomMember = async (roomId: string, userId: string): Promise<void> => {
   try {
     const roomRef = doc(db, 'rooms', roomId);
     await updateDoc(roomRef, {
       members: arrayRemove(userId),
+      [`roles.${userId}`]: deleteField(),
     });
   } catch (error) {
     console.error('Error removing member:', error);
@@ -288,9 +475,9 @@ export const joinRoom = async (roomId: string, userId: string): Promise<void> =>
 
     const roomData = roomSnap.data();
 
-    // Only allow joining public rooms
-    if (roomData.type !== 'public') {
-      throw new Error('Can only join public rooms');
+    // Only allow joining public and voice rooms
+    if (roomData.type !== 'public' && roomData.type !== 'voice') {
+      throw new Error('Can only join public or voice rooms');
     }
 
     // Add user to members
@@ -340,6 +527,7 @@ export const createDirectMessage = async (
       type: 'direct' as RoomType,
       members: [currentUserId, otherUserId],
       createdBy: currentUserId,
+      roles: { [currentUserId]: 'owner' },
       createdAt: Timestamp.now(),
       description: '',
       lastMessageAt: Timestamp.now(),
@@ -0,0 +1,127 @@
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  doc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { ScheduledMessage, SendMessageData } from '../types/message';
+
+/**
+ * Convert Firestore document to ScheduledMessage type
+ */
+const toScheduledMessage = (docSnap: QueryDocumentSnapshot<DocumentData>): ScheduledMessage => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    roomId: data.roomId,
+    senderId: data.senderId,
+    senderName: data.senderName,
+    senderAvatar: data.senderAvatar || undefined,
+    content: data.content,
+    type: data.type || 'text',
+    mentions: data.mentions || [],
+    sendAt: (data.sendAt as Timestamp)?.toDate() || new Date(),
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+    status: data.status || 'pending',
+    error: data.error || undefined,
+  };
+};
+
+/**
+ * Queue a message to be sent to a room at a later time. The `scheduledMessages`
+ * Cloud Function sends it when it comes due, whether or not the sender is online.
+ */
+export const scheduleMessage = async (
+  roomId: string,
+  userId: string,
+  userName: string,
+  messageData: SendMessageData,
+  sendAt: Date,
+  avatarUrl?: string
+): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(db, 'scheduledMessages'), {
+      roomId,
+      senderId: userId,
+      senderName: userName,
+      senderAvatar: avatarUrl || null,
+      content: messageData.content,
+      type: messageData.type || 'text',
+      mentions: messageData.mentions || [],
+      sendAt: Timestamp.fromDate(sendAt),
+      createdAt: serverTimestamp(),
+      status: 'pending',
+    });
+
+    return docRef.id;
+  } catch (error) {
+    console.error('Error scheduling message:', error);
+    throw new Error('Failed to schedule message');
+  }
+};
+
+/**
+ * Change the content or send time of a scheduled message. Failed messages are
+ * queued again.
+ */
+export const updateScheduledMessage = async (
+  scheduledMessageId: string,
+  updates: { content?: string; mentions?: string[]; sendAt?: Date }
+): Promise<void> => {
+  try {
+    const changes: Record<string, unknown> = { status: 'pending', error: null };
+    if (updates.content !== undefined) changes.content = updates.content;
+    if (updates.mentions !== undefined) changes.mentions = updates.mentions;
+    if (updates.sendAt !== undefined) changes.sendAt = Timestamp.fromDate(updates.sendAt);
+
+    await updateDoc(doc(db, 'scheduledMessages', scheduledMessageId), changes);
+  } catch (error) {
+    console.error('Error updating scheduled message:', error);
+    throw new Error('Failed to update scheduled message');
+  }
+};
+
+/**
+ * Cancel a scheduled message before it is sent
+ */
+export const cancelScheduledMessage = async (scheduledMessageId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'scheduledMessages', scheduledMessageId));
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error);
+    throw new Error('Failed to cancel scheduled message');
+  }
+};
+
+/**
+ * Subscribe to a user's scheduled messages (soonest first)
+ */
+export const subscribeToScheduledMessages = (
+  userId: string,
+  callback: (messages: ScheduledMessage[]) => void
+): (() => void) => {
+  const q = query(
+    collection(db, 'scheduledMessages'),
+    where('senderId', '==', userId),
+    orderBy('sendAt', 'asc')
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map(toScheduledMessage));
+    },
+    (error) => {
+      console.error('Error subscribing to scheduled messages:', error);
+    }
+  );
+};
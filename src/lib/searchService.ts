@@ -0,0 +1,212 @@
+import {
+  fetchOlderMessages,
+  fetchThreadReplies,
+  MESSAGE_PAGE_SIZE,
+  type MessagePage,
+} from './messageService';
+import type { Message, MessageType } from '../types/message';
+
+/**
+ * Maximum number of recent messages indexed per room
+ */
+export const SEARCH_MESSAGES_PER_ROOM = 1000;
+
+/**
+ * Client-side inverted index over messages and thread replies fetched from the
+ * user's rooms. Messages are keyed by `${roomId}/${messageId}`.
+ */
+export interface MessageSearchIndex {
+  messages: Map<string, Message>;
+  tokens: Map<string, Set<string>>;
+  threadReplyCounts: Map<string, number>; // Reply count of each thread whose replies are indexed
+  roomsIndexedAt: Map<string, Date>; // When each indexed room was last known to be up to date
+}
+
+export interface MessageSearchFilters {
+  roomIds?: string[]; // Only messages from these rooms (the ones the user is still in)
+  roomId?: string;
+  senderId?: string;
+  from?: Date;
+  to?: Date;
+  type?: MessageType;
+}
+
+/**
+ * Split text into lowercase, accent-free word tokens
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+};
+
+/**
+ * Create an empty search index
+ */
+export const createSearchIndex = (): MessageSearchIndex => ({
+  messages: new Map(),
+  tokens: new Map(),
+  threadReplyCounts: new Map(),
+  roomsIndexedAt: new Map(),
+});
+
+const searchIndexes = new Map<string, MessageSearchIndex>(); // Keyed by user ID
+
+/**
+ * The user's search index. It is kept for the rest of the session, so coming
+ * back to search only fetches what changed since.
+ */
+export const getSearchIndex = (userId: string): MessageSearchIndex => {
+  let index = searchIndexes.get(userId);
+  if (!index) {
+    index = createSearchIndex();
+    searchIndexes.set(userId, index);
+  }
+  return index;
+};
+
+/**
+ * Remove a message and its words from the index
+ */
+const removeFromSearchIndex = (index: MessageSearchIndex, key: string): void => {
+  const message = index.messages.get(key);
+  if (!message) return;
+
+  index.messages.delete(key);
+  tokenize(message.content).forEach((token) => {
+    const keys = index.tokens.get(token);
+    keys?.delete(key);
+    if (keys?.size === 0) index.tokens.delete(token);
+  });
+};
+
+/**
+ * Add messages to the index. Re-adding a message replaces its previous version,
+ * and one that has since been deleted is removed.
+ */
+export const addToSearchIndex = (index: MessageSearchIndex, messages: Message[]): void => {
+  messages.forEach((message) => {
+    const key = `${message.roomId}/${message.id}`;
+    removeFromSearchIndex(index, key);
+
+    // Encrypted content only exists in plain text on the members' devices
+    if (message.isDeleted || message.type === 'system' || message.encryption) return;
+
+    index.messages.set(key, message);
+
+    // Image/file messages hold a download URL, so only text content is tokenized
+    if (message.type !== 'text') return;
+
+    tokenize(message.content).forEach((token) => {
+      let keys = index.tokens.get(token);
+      if (!keys) {
+        keys = new Set();
+        index.tokens.set(token, keys);
+      }
+      keys.add(key);
+    });
+  });
+};
+
+/**
+ * Search the index. Every query word must match (the last word as a prefix, so
+ * results update while typing). An empty query returns every message that
+ * passes the filters. Results are newest first.
+ */
+export const searchMessageIndex = (
+  index: MessageSearchIndex,
+  queryText: string,
+  filters: MessageSearchFilters = {},
+  maxResults: number = 200
+): Message[] => {
+  const queryTokens = tokenize(queryText);
+
+  // Message keys matching each query word
+  const matchesPerToken = queryTokens.map((queryToken, i) => {
+    const isLast = i === queryTokens.length - 1;
+    const matches = new Set<string>();
+
+    index.tokens.forEach((keys, token) => {
+      if (token === queryToken || (isLast && token.startsWith(queryToken))) {
+        keys.forEach((key) => matches.add(key));
+      }
+    });
+
+    return matches;
+  });
+
+  const candidates: Message[] = [];
+  index.messages.forEach((message, key) => {
+    if (matchesPerToken.every((matches) => matches.has(key))) {
+      candidates.push(message);
+    }
+  });
+
+  return candidates
+    .filter((message) => {
+      if (filters.roomIds && !filters.roomIds.includes(message.roomId)) return false;
+      if (filters.roomId && message.roomId !== filters.roomId) return false;
+      if (filters.senderId && message.senderId !== filters.senderId) return false;
+      if (filters.type && message.type !== filters.type) return false;
+      if (filters.from && message.createdAt < filters.from) return false;
+      if (filters.to && message.createdAt > filters.to) return false;
+      return true;
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, maxResults);
+};
+
+/**
+ * Fetch the replies of the given messages' threads that have gained replies
+ * since they were last indexed, and note the new reply counts. A reply's own
+ * edits and deletions don't touch its thread, so they show up the next time
+ * the thread gets a reply or the index is rebuilt.
+ */
+export const fetchNewThreadReplies = async (
+  index: MessageSearchIndex,
+  messages: Message[]
+): Promise<Message[]> => {
+  const changedThreads = messages.filter((message) => {
+    const key = `${message.roomId}/${message.id}`;
+    return (message.threadReplyCount || 0) !== (index.threadReplyCounts.get(key) || 0);
+  });
+
+  const replies = await Promise.all(
+    changedThreads.map(async (message) => {
+      const threadReplies = await fetchThreadReplies(message.roomId, message.id);
+      index.threadReplyCounts.set(`${message.roomId}/${message.id}`, message.threadReplyCount || 0);
+      return threadReplies;
+    })
+  );
+
+  return replies.flat();
+};
+
+/**
+ * Fetch the most recent messages of a room for indexing, or only the ones sent
+ * since the given time when the room is already indexed
+ */
+export const fetchSearchableMessages = async (
+  roomId: string,
+  maxMessages: number = SEARCH_MESSAGES_PER_ROOM,
+  since?: Date
+): Promise<Message[]> => {
+  const messages: Message[] = [];
+  let cursor: MessagePage['cursor'] = null;
+
+  while (messages.length < maxMessages) {
+    const page: MessagePage = await fetchOlderMessages(roomId, cursor);
+    if (!page.cursor) break;
+
+    messages.push(...page.messages);
+    cursor = page.cursor;
+
+    if (page.messages.length < MESSAGE_PAGE_SIZE) break;
+    if (since && page.messages[page.messages.length - 1].createdAt < since) break;
+  }
+
+  return messages;
+};
@@ -0,0 +1,96 @@
+// The app's service worker: offline app shell and push notifications (public/sw.js)
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// How often an open tab checks for a new deploy
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Whether this browser supports service workers (and so installing the app)
+ */
+export const isServiceWorkerSupported = (): boolean => 'serviceWorker' in navigator;
+
+/**
+ * Register the service worker, or get the existing registration. Its precache
+ * list is an imported script, so update checks must bypass the HTTP cache for
+ * it too.
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration> => {
+  if (!isServiceWorkerSupported()) {
+    throw new Error('Service workers are not supported in this browser');
+  }
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL, { updateViaCache: 'none' });
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+    throw new Error('Failed to register service worker');
+  }
+};
+
+/**
+ * Register the service worker and report when a new build has installed and
+ * is waiting to take over. Checks for a new build every hour and whenever the
+ * tab comes back into view. The first install (no controller yet) is not an update.
+ */
+export const subscribeToServiceWorkerUpdates = (
+  callback: (waiting: ServiceWorker) => void
+): (() => void) => {
+  if (!isServiceWorkerSupported()) return () => {};
+
+  let registration: ServiceWorkerRegistration | null = null;
+  let cancelled = false;
+
+  const reportIfWaiting = () => {
+    if (!cancelled && registration?.waiting && navigator.serviceWorker.controller) {
+      callback(registration.waiting);
+    }
+  };
+
+  const handleUpdateFound = () => {
+    const installing = registration?.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed') reportIfWaiting();
+    });
+  };
+
+  const checkForUpdate = () => {
+    registration?.update().catch((error) => {
+      console.debug('Service worker update check skipped:', error);
+    });
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') checkForUpdate();
+  };
+
+  registerServiceWorker()
+    .then((registered) => {
+      if (cancelled) return;
+      registration = registered;
+      registration.addEventListener('updatefound', handleUpdateFound);
+      reportIfWaiting();
+    })
+    .catch(() => {
+      // Logged by registerServiceWorker; the app works without it
+    });
+
+  const interval = window.setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return () => {
+    cancelled = true;
+    registration?.removeEventListener('updatefound', handleUpdateFound);
+    window.clearInterval(interval);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+/**
+ * Let the waiting service worker take over, then reload onto the new build
+ */
+export const applyServiceWorkerUpdate = (waiting: ServiceWorker): void => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), {
+    once: true,
+  });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+};
@@ -8,19 +8,24 @@ export interface UploadProgress {
   error?: string;
 }
 
+// Where a room's uploads go: chat attachments, or call recordings (which are
+// allowed to be much larger)
+export type UploadFolder = 'files' | 'recordings';
+
 /**
  * Upload a file to Firebase Storage
  */
 export const uploadFile = (
   file: File,
   roomId: string,
-  onProgress: (progress: UploadProgress) => void
+  onProgress: (progress: UploadProgress) => void,
+  folder: UploadFolder = 'files'
 ): Promise<string> => {
   return new Promise((resolve, reject) => {
     // Create a unique filename
     const timestamp = Date.now();
     const filename = `${timestamp}_${file.name}`;
-    const storageRef = ref(storage, `rooms/${roomId}/files/${filename}`);
+    const storageRef = ref(storage, `rooms/${roomId}/${folder}/${filename}`);
 
     const uploadTask = uploadBytesResumable(storageRef, file);
 
@@ -33,6 +33,7 @@ export const getUser = async (userId: string): Promise<UserDoc | null> => {
         bio: data.bio,
         createdAt: data.createdAt?.toDate(),
         lastSeen: data.lastSeen?.toDate(),
+        publicKey: data.publicKey,
       };
     }
     return null;
@@ -64,6 +65,7 @@ export const getAllUsers = async (limitCount: number = 100): Promise<UserDoc[]>
         bio: data.bio,
         createdAt: data.createdAt?.toDate(),
         lastSeen: data.lastSeen?.toDate(),
+        publicKey: data.publicKey,
       });
     });
 
@@ -103,6 +105,7 @@ export const searchUsers = async (searchTerm: string): Promise<UserDoc[]> => {
         bio: data.bio,
         createdAt: data.createdAt?.toDate(),
         lastSeen: data.lastSeen?.toDate(),
+        publicKey: data.publicKey,
       });
     });
 
@@ -135,6 +138,7 @@ export const subscribeToUsers = (callback: (users: UserDoc[]) => void): (() => v
           bio: data.bio,
           createdAt: data.createdAt?.toDate(),
           lastSeen: data.lastSeen?.toDate(),
+          publicKey: data.publicKey,
         });
       });
       callback(users);
@@ -147,6 +151,42 @@ export const subscribeToUsers = (callback: (users: UserDoc[]) => void): (() => v
   return unsubscribe;
 };
 
+/**
+ * Subscribe to a single user's document (e.g. to follow their published encryption key)
+ */
+export const subscribeToUser = (
+  userId: string,
+  callback: (user: UserDoc | null) => void
+): (() => void) => {
+  const unsubscribe = onSnapshot(
+    doc(db, 'users', userId),
+    (userSnap) => {
+      if (!userSnap.exists()) {
+        callback(null);
+        return;
+      }
+
+      const data = userSnap.data();
+      callback({
+        uid: userSnap.id,
+        email: data.email,
+        displayName: data.displayName,
+        photoURL: data.photoURL,
+        status: data.status,
+        bio: data.bio,
+        createdAt: data.createdAt?.toDate(),
+        lastSeen: data.lastSeen?.toDate(),
+        publicKey: data.publicKey,
+      });
+    },
+    (error) => {
+      console.error('Error subscribing to user:', error);
+    }
+  );
+
+  return unsubscribe;
+};
+
 /**
  * Update user profile
  */
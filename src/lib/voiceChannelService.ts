@@ -0,0 +1,139 @@
+import {
+  ref,
+  set,
+  update,
+  remove,
+  onValue,
+  off,
+  onDisconnect,
+  serverTimestamp,
+  type DataSnapshot,
+} from 'firebase/database';
+import { rtdb } from '../config/firebase';
+import { clearSignals } from './callService';
+import type { VoiceParticipant } from '../types/call';
+
+interface VoiceParticipantData {
+  name: string;
+  avatar?: string | null;
+  isMuted?: boolean;
+  isDeafened?: boolean;
+  joinedAt?: number;
+}
+
+/**
+ * ID under which a voice channel's WebRTC signals are exchanged. Voice
+ * channels have no call document, so nobody is ever rung.
+ */
+export const getVoiceChannelCallId = (roomId: string): string => `voice_${roomId}`;
+
+/**
+ * Add the user to a room's voice channel roster. The entry is removed
+ * automatically if the user disconnects (e.g. closes the tab).
+ */
+export const joinVoiceChannel = async (
+  roomId: string,
+  userId: string,
+  userName: string,
+  avatarUrl?: string
+): Promise<void> => {
+  try {
+    const participantRef = ref(rtdb, `rooms/${roomId}/voice/${userId}`);
+
+    await onDisconnect(participantRef).remove();
+    await set(participantRef, {
+      name: userName,
+      avatar: avatarUrl || null,
+      isMuted: false,
+      isDeafened: false,
+      joinedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error joining voice channel:', error);
+    throw new Error('Failed to join voice channel');
+  }
+};
+
+/**
+ * Remove the user from a room's voice channel roster, along with any signals
+ * still addressed to them
+ */
+export const leaveVoiceChannel = async (roomId: string, userId: string): Promise<void> => {
+  try {
+    const participantRef = ref(rtdb, `rooms/${roomId}/voice/${userId}`);
+
+    await remove(participantRef);
+    await onDisconnect(participantRef).cancel();
+    await clearSignals(getVoiceChannelCallId(roomId), userId);
+  } catch (error) {
+    console.error('Error leaving voice channel:', error);
+    throw new Error('Failed to leave voice channel');
+  }
+};
+
+/**
+ * Remove signals left over from an earlier session (e.g. after a crash), so
+ * that they aren't answered when the user connects again
+ */
+export const clearVoiceChannelSignals = async (roomId: string, userId: string): Promise<void> => {
+  try {
+    await clearSignals(getVoiceChannelCallId(roomId), userId);
+  } catch (error) {
+    console.error('Error clearing voice channel signals:', error);
+    throw new Error('Failed to connect to voice channel');
+  }
+};
+
+/**
+ * Publish the user's mute/deafen state to the roster
+ */
+export const updateVoiceState = async (
+  roomId: string,
+  userId: string,
+  state: { isMuted?: boolean; isDeafened?: boolean }
+): Promise<void> => {
+  try {
+    await update(ref(rtdb, `rooms/${roomId}/voice/${userId}`), state);
+  } catch (error) {
+    console.error('Error updating voice state:', error);
+    throw new Error('Failed to update voice state');
+  }
+};
+
+/**
+ * Subscribe to who is connected to a room's voice channel (earliest joined first)
+ */
+export const subscribeToVoiceParticipants = (
+  roomId: string,
+  callback: (participants: VoiceParticipant[]) => void
+): (() => void) => {
+  const voiceRef = ref(rtdb, `rooms/${roomId}/voice`);
+
+  const handleValue = (snapshot: DataSnapshot) => {
+    const voiceData = (snapshot.val() || {}) as Record<string, VoiceParticipantData>;
+
+    const participants = Object.entries(voiceData)
+      .map(([userId, data]) => ({
+        userId,
+        name: data.name,
+        avatar: data.avatar || undefined,
+        isMuted: !!data.isMuted,
+        isDeafened: !!data.isDeafened,
+        joinedAt: new Date(data.joinedAt || 0),
+      }))
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+
+    callback(participants);
+  };
+
+  const handleError = (error: Error) => {
+    console.error('Error subscribing to voice channel:', error);
+  };
+
+  onValue(voiceRef, handleValue, handleError);
+
+  // Return unsubscribe function
+  return () => {
+    off(voiceRef, 'value', handleValue);
+  };
+};
@@ -1,10 +1,16 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { subscribeToUserCallLogs } from '../lib/callHistoryService';
-import type { CallLog } from '../types/call';
+import type { CallLog, CallQuality } from '../types/call';
 import { Phone, PhoneIncoming, PhoneOutgoing, PhoneMissed, Video, Clock } from 'lucide-react';
 import { Card } from '../components/ui/Card';
 
+const QUALITY_LABELS: Record<CallQuality, { text: string; className: string }> = {
+  good: { text: 'Good quality', className: 'text-green-600 dark:text-green-400' },
+  fair: { text: 'Fair quality', className: 'text-yellow-600 dark:text-yellow-400' },
+  poor: { text: 'Poor quality', className: 'text-red-600 dark:text-red-400' },
+};
+
 export default function CallHistory() {
   const { currentUser } = useAuth();
   const [callLogs, setCallLogs] = useState<CallLog[]>([]);
@@ -75,7 +81,8 @@ export default function CallHistory() {
       case 'completed':
         return formatDuration(log.duration);
       case 'missed':
-        return 'Missed';
+        // Logged once by the call timeouts function for both sides
+        return log.direction === 'outgoing' ? 'No answer' : 'Missed';
       case 'no-answer':
         return 'No answer';
       case 'rejected':
@@ -87,6 +94,20 @@ export default function CallHistory() {
     }
   };
 
+  // Connection details shown when hovering the quality label
+  const getQualityDetails = (log: CallLog) => {
+    if (!log.quality) return '';
+
+    const details = [
+      `Score ${log.quality.score.toFixed(1)}/5`,
+      `${(log.quality.packetLoss * 100).toFixed(1)}% packet loss`,
+      `${log.quality.jitter} ms jitter`,
+    ];
+    if (log.quality.rtt !== undefined) details.push(`${log.quality.rtt} ms round trip`);
+    if (log.quality.candidateType === 'relay') details.push('relayed via TURN');
+    return details.join(', ');
+  };
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -192,6 +213,17 @@ export default function CallHistory() {
                         <span>{log.direction === 'incoming' ? 'Incoming' : 'Outgoing'}</span>
                         <span>•</span>
                         <span>{getOutcomeText(log)}</span>
+                        {log.outcome === 'completed' && log.quality && (
+                          <>
+                            <span>•</span>
+                            <span
+                              className={QUALITY_LABELS[log.quality.quality].className}
+                              title={getQualityDetails(log)}
+                            >
+                              {QUALITY_LABELS[log.quality.quality].text}
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -1,27 +1,56 @@
-import { useParams } from 'react-router-dom';
-import { useState, useEffect } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useMessages } from '../hooks/useMessages';
 import { useRooms } from '../hooks/useRooms';
+import { useReadStates } from '../hooks/useReadStates';
+import { useMemberReadState } from '../hooks/useMemberReadState';
+import { useRoomMembers } from '../hooks/useRoomMembers';
+import { useScheduledMessages } from '../hooks/useScheduledMessages';
+import { useNotificationLevels } from '../hooks/useNotificationLevels';
+import { useEncryptionKeys } from '../hooks/useEncryptionKeys';
 import { useCall } from '../context/CallContext';
 import { setTypingStatus, subscribeToTyping, type TypingUser } from '../lib/typingService';
 import { uploadFile, isImageFile, type UploadProgress } from '../lib/uploadService';
-import { joinRoom } from '../lib/roomService';
+import { joinRoom, canPinMessages, hasRoomRole, READ_MARKER_INTERVAL_MS } from '../lib/roomService';
 import { getUser } from '../lib/userService';
+import { getMentionedUserIds } from '../lib/messageService';
 import { subscribeToRoomCallLogs } from '../lib/callHistoryService';
+import { subscribeToActiveRoomCall, MAX_GROUP_CALL_PARTICIPANTS } from '../lib/callService';
 import type { Message } from '../types/message';
 import type { UserDoc } from '../types/user';
-import type { CallLog } from '../types/call';
+import type { Call, CallLog, MediaType } from '../types/call';
 import MessageList from '../components/chat/MessageList';
 import MessageInput from '../components/chat/MessageInput';
 import TypingIndicator from '../components/chat/TypingIndicator';
 import RoomSettings from '../components/chat/RoomSettings';
+import MessageHistoryModal from '../components/chat/MessageHistoryModal';
+import PinnedMessagesPanel from '../components/chat/PinnedMessagesPanel';
+import ScheduledMessagesList from '../components/chat/ScheduledMessagesList';
+import ThreadPanel from '../components/chat/ThreadPanel';
+import VoiceChannelPanel from '../components/video/VoiceChannelPanel';
+import GreenRoom from '../components/video/GreenRoom';
+import NotificationLevelMenu from '../components/chat/NotificationLevelMenu';
+import RoomEncryptionButton from '../components/chat/RoomEncryptionButton';
+
+interface PendingCall {
+  mediaType: MediaType;
+  title: string;
+  confirmLabel: string;
+  onJoin: () => void;
+}
 
 const ChatRoom = () => {
   const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const highlightMessageId = searchParams.get('highlight');
   const { currentUser, userDoc } = useAuth();
   const { rooms } = useRooms();
-  const { initiateCall, currentCall } = useCall();
+  const { readStates, loading: readStatesLoading, markRoomRead } = useReadStates();
+  const { initiateCall, acceptCall, currentCall } = useCall();
+  const { getLevel: getNotificationLevel, setLevel: setNotificationLevel } =
+    useNotificationLevels();
+  const { status: encryptionStatus } = useEncryptionKeys();
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -30,6 +59,17 @@ const ChatRoom = () => {
   const [otherUser, setOtherUser] = useState<UserDoc | null>(null);
   const [isInitiatingCall, setIsInitiatingCall] = useState(false);
   const [callLogs, setCallLogs] = useState<CallLog[]>([]);
+  const [activeRoomCall, setActiveRoomCall] = useState<Call | null>(null);
+  const [isJoiningCall, setIsJoiningCall] = useState(false);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [isPinnedOpen, setIsPinnedOpen] = useState(false);
+  // Call waiting in the green room for the user to check their devices
+  const [pendingCall, setPendingCall] = useState<PendingCall | null>(null);
+  // Last-read marker captured when the room was opened, for the "new messages" divider
+  const [readMarker, setReadMarker] = useState<{ roomId: string; lastReadAt: Date | null } | null>(
+    null
+  );
 
   // Find the current room
   const currentRoom = rooms.find((room) => room.id === roomId);
@@ -38,12 +78,144 @@ const ChatRoom = () => {
   const isMember =
     currentRoom && currentUser ? currentRoom.members.includes(currentUser.uid) : false;
 
+  // Moderators and above can view deleted content and delete other members' messages
+  const isRoomModerator =
+    !!currentRoom && !!currentUser && hasRoomRole(currentRoom, currentUser.uid, 'moderator');
+
+  // An encrypted room needs this device to hold the user's key to send messages
+  const isEncrypted = !!currentRoom?.encrypted;
+  const canSendEncrypted = encryptionStatus === 'ready';
+
+  const pinnedMessageIds = currentRoom?.pinnedMessageIds || [];
+  const canPin = currentRoom && currentUser ? canPinMessages(currentRoom, currentUser.uid) : false;
+
+  const myReadState =
+    currentRoom && currentUser
+      ? readStates[currentRoom.id] || currentRoom.readState?.[currentUser.uid]
+      : undefined;
+
+  // Capture the read marker before this visit marks the room as read
+  if (currentRoom && isMember && !readStatesLoading && readMarker?.roomId !== currentRoom.id) {
+    setReadMarker({ roomId: currentRoom.id, lastReadAt: myReadState?.lastReadAt || null });
+  }
+
   // Determine the effective roomId to pass to useMessages
   // Only pass roomId if user is a member, otherwise pass undefined to prevent subscription
   const effectiveRoomId = isMember ? roomId : undefined;
 
-  const { messages, loading, sendMessage, toggleReaction, editMessage, deleteMessage } =
-    useMessages(effectiveRoomId);
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasMore,
+    loadOlder,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    editMessage,
+    deleteMessage,
+    dismissLinkPreview,
+    pinMessage,
+    unpinMessage,
+  } = useMessages(effectiveRoomId);
+
+  const {
+    scheduledMessages,
+    error: scheduledMessagesError,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  } = useScheduledMessages(effectiveRoomId);
+
+  // Members can be @mentioned (everyone except yourself)
+  const { members } = useRoomMembers(isMember ? currentRoom?.members : undefined);
+  const mentionCandidates = members.filter((member) => member.uid !== currentUser?.uid);
+
+  // "Seen" receipt for the latest message in direct rooms
+  const latestMessage = messages[messages.length - 1];
+  const { readState: otherUserReadState } = useMemberReadState(
+    isMember && currentRoom?.type === 'direct' ? roomId : undefined,
+    otherUser?.uid
+  );
+  const otherUserReadAt = otherUser
+    ? (otherUserReadState || currentRoom?.readState?.[otherUser.uid])?.lastReadAt
+    : undefined;
+  const seenBy =
+    currentRoom?.type === 'direct' &&
+    otherUser &&
+    latestMessage &&
+    latestMessage.senderId === currentUser?.uid &&
+    otherUserReadAt &&
+    otherUserReadAt >= latestMessage.createdAt
+      ? [otherUser]
+      : [];
+
+  // Root message of the open thread (kept live through the messages subscription)
+  const threadRootMessage = threadRootId ? messages.find((m) => m.id === threadRootId) : undefined;
+
+  const historyMessage = historyMessageId
+    ? messages.find((m) => m.id === historyMessageId)
+    : undefined;
+
+  // Mark the room as read while it is open and new messages arrive, at most
+  // once per READ_MARKER_INTERVAL_MS; a write still waiting when the room is
+  // left goes out straight away
+  const roomMessageCount = currentRoom?.messageCount || 0;
+  const myReadCount = myReadState?.readCount;
+  const lastReadMarkAtRef = useRef(0);
+  const pendingReadMarkRef = useRef<{ roomId: string; messageCount: number } | null>(null);
+  useEffect(() => {
+    if (!roomId || !isMember || readStatesLoading) return;
+    if (myReadCount !== undefined && myReadCount >= roomMessageCount) return;
+
+    pendingReadMarkRef.current = { roomId, messageCount: roomMessageCount };
+    const delay = Math.max(0, lastReadMarkAtRef.current + READ_MARKER_INTERVAL_MS - Date.now());
+    const timer = setTimeout(() => {
+      pendingReadMarkRef.current = null;
+      lastReadMarkAtRef.current = Date.now();
+      markRoomRead(roomId, roomMessageCount);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [roomId, isMember, readStatesLoading, roomMessageCount, myReadCount, markRoomRead]);
+
+  useEffect(() => {
+    return () => {
+      const pending = pendingReadMarkRef.current;
+      if (!pending || pending.roomId !== roomId) return;
+      pendingReadMarkRef.current = null;
+      markRoomRead(pending.roomId, pending.messageCount);
+    };
+  }, [roomId, markRoomRead]);
+
+  // Jumping to a message (e.g. from search): page back until it is loaded,
+  // then drop the highlight after a few seconds
+  const isHighlightLoaded =
+    !!highlightMessageId && messages.some((m) => m.id === highlightMessageId);
+  useEffect(() => {
+    if (!highlightMessageId || loading) return;
+
+    if (!isHighlightLoaded) {
+      if (hasMore && !loadingOlder) {
+        loadOlder();
+      } else if (!hasMore) {
+        setSearchParams({}, { replace: true });
+      }
+      return;
+    }
+
+    const timeout = setTimeout(() => setSearchParams({}, { replace: true }), 4000);
+    return () => clearTimeout(timeout);
+  }, [
+    highlightMessageId,
+    isHighlightLoaded,
+    loading,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    setSearchParams,
+  ]);
 
   // Subscribe to call logs for this room
   useEffect(() => {
@@ -60,6 +232,20 @@ const ChatRoom = () => {
     return () => unsubscribe();
   }, [roomId, currentUser, isMember]);
 
+  // Watch for an ongoing group call in this room
+  useEffect(() => {
+    if (!roomId || !currentUser || !isMember) return;
+
+    const unsubscribe = subscribeToActiveRoomCall(roomId, currentUser.uid, setActiveRoomCall);
+    return () => unsubscribe();
+  }, [roomId, currentUser, isMember]);
+
+  // Group call the user could join (not the one they are already in)
+  const joinableRoomCall =
+    activeRoomCall && activeRoomCall.roomId === roomId && activeRoomCall.id !== currentCall?.id
+      ? activeRoomCall
+      : null;
+
   // Auto-join public rooms
   useEffect(() => {
     const autoJoinPublicRoom = async () => {
@@ -68,8 +254,8 @@ const ChatRoom = () => {
       // If user is already a member, do nothing
       if (isMember) return;
 
-      // If it's a public room and user is not a member, join automatically
-      if (currentRoom.type === 'public') {
+      // If it's a public or voice room and user is not a member, join automatically
+      if (currentRoom.type === 'public' || currentRoom.type === 'voice') {
         setIsJoining(true);
         setJoiningError(null);
         try {
@@ -118,10 +304,11 @@ const ChatRoom = () => {
     fetchOtherUser();
   }, [currentRoom, currentUser]);
 
-  const handleSendMessage = async (content: string): Promise<boolean> => {
+  const handleSendMessage = async (content: string, mentions?: string[]): Promise<boolean> => {
     const success = await sendMessage({
       content,
       replyTo: replyingTo?.id,
+      mentions,
     });
 
     if (success) {
@@ -131,6 +318,14 @@ const ChatRoom = () => {
     return success;
   };
 
+  const handleScheduleMessage = (
+    content: string,
+    sendAt: Date,
+    mentions?: string[]
+  ): Promise<boolean> => {
+    return scheduleMessage({ content, mentions }, sendAt);
+  };
+
   const handleReaction = async (messageId: string, emoji: string) => {
     await toggleReaction(messageId, emoji);
   };
@@ -186,6 +381,71 @@ const ChatRoom = () => {
     }
   };
 
+  const handleInitiateGroupCall = async (mediaType: MediaType) => {
+    if (!roomId || !currentRoom || !currentUser || isInitiatingCall) {
+      console.error('Cannot initiate call: missing room or user info, or already initiating');
+      return;
+    }
+
+    try {
+      setIsInitiatingCall(true);
+      await initiateCall({
+        roomId,
+        calleeId: '',
+        calleeName: currentRoom.name,
+        mediaType,
+        type: 'group',
+        invitedIds: currentRoom.members.filter((id) => id !== currentUser.uid),
+      });
+    } catch (error) {
+      console.error('Failed to initiate group call:', error);
+    } finally {
+      setIsInitiatingCall(false);
+    }
+  };
+
+  const handleJoinRoomCall = async () => {
+    if (!joinableRoomCall || isJoiningCall) return;
+
+    try {
+      setIsJoiningCall(true);
+      await acceptCall(joinableRoomCall.id);
+    } catch (error) {
+      console.error('Failed to join group call:', error);
+    } finally {
+      setIsJoiningCall(false);
+    }
+  };
+
+  const handleConfirmPendingCall = () => {
+    if (!pendingCall) return;
+    // Close the green room first so its preview releases the devices
+    setPendingCall(null);
+    pendingCall.onJoin();
+  };
+
+  const handleOpenThread = (messageId: string) => {
+    setIsPinnedOpen(false);
+    setThreadRootId(messageId);
+  };
+
+  const handleTogglePinnedPanel = () => {
+    setThreadRootId(null);
+    setIsPinnedOpen(!isPinnedOpen);
+  };
+
+  const handleTogglePin = async (messageId: string) => {
+    if (pinnedMessageIds.includes(messageId)) {
+      await unpinMessage(messageId);
+    } else {
+      await pinMessage(messageId);
+    }
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+    setSearchParams({ highlight: messageId }, { replace: true });
+  };
+
   const handleCancelReply = () => {
     setReplyingTo(null);
   };
@@ -196,7 +456,12 @@ const ChatRoom = () => {
     if (message) {
       const newContent = prompt('Edit message:', message.content);
       if (newContent && newContent.trim() && newContent !== message.content) {
-        editMessage(messageId, newContent.trim());
+        const trimmedContent = newContent.trim();
+        editMessage(
+          messageId,
+          trimmedContent,
+          getMentionedUserIds(trimmedContent, mentionCandidates)
+        );
       }
     }
   };
@@ -237,137 +502,367 @@ const ChatRoom = () => {
   };
 
   return (
-    <div className="flex h-full flex-col bg-white dark:bg-gray-800 transition-colors">
-      {/* Room Header */}
-      <div className="flex h-16 items-center justify-between border-b dark:border-gray-700 px-6 shadow-sm bg-white dark:bg-gray-800 transition-colors">
-        <div>
-          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
-            {currentRoom?.type === 'direct' && otherUser
-              ? otherUser.displayName
-              : currentRoom?.name || `Room #${roomId}`}
-          </h2>
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            {currentRoom?.members.length || 0} member(s)
-            {currentRoom?.description && ` • ${currentRoom.description}`}
-          </p>
-        </div>
-        <div className="flex items-center space-x-2">
-          {/* Audio & Video Call Buttons (only for direct/1-on-1 rooms) */}
-          {currentRoom?.type === 'direct' && otherUser && (
-            <>
-              <button
-                onClick={handleInitiateAudioCall}
-                disabled={isInitiatingCall || !!currentCall}
-                className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title="Start voice call"
-              >
-                <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
-                  />
-                </svg>
-              </button>
+    <div className="flex h-full bg-white dark:bg-gray-800 transition-colors">
+      <div className="flex min-w-0 flex-1 flex-col">
+        {/* Room Header */}
+        <div className="flex h-16 items-center justify-between border-b dark:border-gray-700 px-6 shadow-sm bg-white dark:bg-gray-800 transition-colors">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+              {currentRoom?.type === 'direct' && otherUser
+                ? otherUser.displayName
+                : currentRoom?.name || `Room #${roomId}`}
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {currentRoom?.members.length || 0} member(s)
+              {currentRoom?.description && ` • ${currentRoom.description}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {currentRoom?.type === 'direct' && otherUser && isMember && (
+              <RoomEncryptionButton
+                room={currentRoom}
+                otherUser={otherUser}
+                status={encryptionStatus}
+              />
+            )}
+            {/* Audio & Video Call Buttons (only for direct/1-on-1 rooms) */}
+            {currentRoom?.type === 'direct' && otherUser && (
+              <>
+                <button
+                  onClick={() =>
+                    setPendingCall({
+                      mediaType: 'audio',
+                      title: `Call ${otherUser.displayName}`,
+                      confirmLabel: 'Start call',
+                      onJoin: handleInitiateAudioCall,
+                    })
+                  }
+                  disabled={isInitiatingCall || !!currentCall}
+                  className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Start voice call"
+                >
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
+                    />
+                  </svg>
+                </button>
+                <button
+                  onClick={() =>
+                    setPendingCall({
+                      mediaType: 'video',
+                      title: `Call ${otherUser.displayName}`,
+                      confirmLabel: 'Start call',
+                      onJoin: handleInitiateVideoCall,
+                    })
+                  }
+                  disabled={isInitiatingCall || !!currentCall}
+                  className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Start video call"
+                >
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+                    />
+                  </svg>
+                </button>
+              </>
+            )}
+            {/* Group Call Buttons (public/private rooms; voice rooms have their own channel) */}
+            {currentRoom &&
+              currentRoom.type !== 'direct' &&
+              currentRoom.type !== 'voice' &&
+              isMember && (
+                <>
+                  <button
+                    onClick={() =>
+                      setPendingCall({
+                        mediaType: 'audio',
+                        title: `Voice call in ${currentRoom.name}`,
+                        confirmLabel: 'Start call',
+                        onJoin: () => handleInitiateGroupCall('audio'),
+                      })
+                    }
+                    disabled={isInitiatingCall || !!currentCall || !!joinableRoomCall}
+                    className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Start group voice call"
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() =>
+                      setPendingCall({
+                        mediaType: 'video',
+                        title: `Video call in ${currentRoom.name}`,
+                        confirmLabel: 'Start call',
+                        onJoin: () => handleInitiateGroupCall('video'),
+                      })
+                    }
+                    disabled={isInitiatingCall || !!currentCall || !!joinableRoomCall}
+                    className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Start group video call"
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+                      />
+                    </svg>
+                  </button>
+                </>
+              )}
+            {isMember && (
               <button
-                onClick={handleInitiateVideoCall}
-                disabled={isInitiatingCall || !!currentCall}
-                className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title="Start video call"
+                onClick={handleTogglePinnedPanel}
+                className={`relative rounded-md p-2 transition-colors ${
+                  isPinnedOpen
+                    ? 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                title="Pinned messages"
+                aria-label="Pinned messages"
               >
                 <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
                     strokeLinecap="round"
                     strokeLinejoin="round"
                     strokeWidth={2}
-                    d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+                    d="M12 17v5M9 10.76a2 2 0 01-1.11 1.79l-1.78.9A2 2 0 005 15.24V16a1 1 0 001 1h12a1 1 0 001-1v-.76a2 2 0 00-1.11-1.79l-1.78-.9A2 2 0 0115 10.76V7a1 1 0 011-1 2 2 0 000-4H8a2 2 0 000 4 1 1 0 011 1z"
                   />
                 </svg>
+                {pinnedMessageIds.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber-500 px-1 text-[10px] font-semibold text-white">
+                    {pinnedMessageIds.length}
+                  </span>
+                )}
               </button>
-            </>
-          )}
-          <button
-            onClick={() => setIsSettingsOpen(true)}
-            className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-            aria-label="Room settings"
-          >
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
-              />
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+            )}
+            {isMember && roomId && (
+              <NotificationLevelMenu
+                level={getNotificationLevel(roomId)}
+                onChange={(level) => setNotificationLevel(roomId, level)}
               />
-            </svg>
-          </button>
-        </div>
-      </div>
-
-      {/* Joining Room State */}
-      {isJoining && (
-        <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
-          <div className="text-center">
-            <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
-            <p className="text-gray-600 dark:text-gray-300">Joining room...</p>
+            )}
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="rounded-md p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Room settings"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+            </button>
           </div>
         </div>
-      )}
 
-      {/* Joining Error State */}
-      {!isJoining && joiningError && (
-        <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
-          <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-6 text-center">
-            <p className="text-red-600 dark:text-red-400">{joiningError}</p>
+        {/* Joining Room State */}
+        {isJoining && (
+          <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
+            <div className="text-center">
+              <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+              <p className="text-gray-600 dark:text-gray-300">Joining room...</p>
+            </div>
           </div>
-        </div>
-      )}
+        )}
+
+        {/* Joining Error State */}
+        {!isJoining && joiningError && (
+          <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
+            <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-6 text-center">
+              <p className="text-red-600 dark:text-red-400">{joiningError}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Not a Member State (for private rooms) */}
+        {!isJoining &&
+          !joiningError &&
+          !isMember &&
+          currentRoom &&
+          currentRoom.type !== 'public' &&
+          currentRoom.type !== 'voice' && (
+            <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
+              <div className="rounded-lg bg-yellow-50 dark:bg-yellow-900/20 p-6 text-center">
+                <p className="text-yellow-800 dark:text-yellow-200">
+                  You are not a member of this room.
+                </p>
+                <p className="mt-2 text-sm text-yellow-600 dark:text-yellow-400">
+                  Request access from the room admin to join.
+                </p>
+              </div>
+            </div>
+          )}
 
-      {/* Not a Member State (for private rooms) */}
-      {!isJoining && !joiningError && !isMember && currentRoom && currentRoom.type !== 'public' && (
-        <div className="flex flex-1 items-center justify-center bg-white dark:bg-gray-800 transition-colors">
-          <div className="rounded-lg bg-yellow-50 dark:bg-yellow-900/20 p-6 text-center">
-            <p className="text-yellow-800 dark:text-yellow-200">
-              You are not a member of this room.
-            </p>
-            <p className="mt-2 text-sm text-yellow-600 dark:text-yellow-400">
-              Request access from the room admin to join.
+        {/* Voice Channel (voice rooms) */}
+        {isMember && roomId && currentRoom?.type === 'voice' && (
+          <VoiceChannelPanel key={roomId} roomId={roomId} />
+        )}
+
+        {/* Ongoing Group Call Banner */}
+        {isMember && joinableRoomCall && (
+          <div className="flex items-center justify-between gap-3 border-b dark:border-gray-700 bg-green-50 dark:bg-green-900/20 px-6 py-2">
+            <p className="text-sm text-green-800 dark:text-green-300">
+              {joinableRoomCall.mediaType === 'audio' ? 'Voice' : 'Video'} call in progress •{' '}
+              {joinableRoomCall.participants.length} of {MAX_GROUP_CALL_PARTICIPANTS} joined
             </p>
+            <button
+              onClick={() =>
+                setPendingCall({
+                  mediaType: joinableRoomCall.mediaType,
+                  title: `Join call in ${currentRoom?.name || 'room'}`,
+                  confirmLabel: 'Join call',
+                  onJoin: handleJoinRoomCall,
+                })
+              }
+              disabled={
+                isJoiningCall ||
+                !!currentCall ||
+                joinableRoomCall.participants.length >= MAX_GROUP_CALL_PARTICIPANTS
+              }
+              className="rounded-md bg-green-600 px-3 py-1 text-sm font-medium text-white hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isJoiningCall ? 'Joining...' : 'Join call'}
+            </button>
           </div>
-        </div>
+        )}
+
+        {/* Messages Area - Only show when user is a member */}
+        {!isJoining && !joiningError && isMember && (
+          <>
+            <MessageList
+              messages={messages}
+              callLogs={callLogs}
+              loading={loading}
+              loadingOlder={loadingOlder}
+              hasMore={hasMore}
+              onLoadOlder={loadOlder}
+              onReaction={handleReaction}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onReply={handleReply}
+              onOpenThread={handleOpenThread}
+              onShowHistory={setHistoryMessageId}
+              canViewDeleted={isRoomModerator}
+              canDeleteAny={isRoomModerator}
+              onDismissLinkPreview={dismissLinkPreview}
+              pinnedMessageIds={pinnedMessageIds}
+              onTogglePin={canPin ? handleTogglePin : undefined}
+              lastReadAt={readMarker && readMarker.roomId === roomId ? readMarker.lastReadAt : null}
+              seenBy={seenBy}
+              highlightMessageId={highlightMessageId}
+              members={members}
+              onRetryMessage={retryMessage}
+              onDiscardMessage={discardMessage}
+            />
+
+            {/* Typing Indicator */}
+            <TypingIndicator typingUsers={typingUsers} />
+
+            {/* Scheduled Messages */}
+            <ScheduledMessagesList
+              scheduledMessages={scheduledMessages}
+              mentionCandidates={mentionCandidates}
+              error={scheduledMessagesError}
+              onUpdate={updateScheduledMessage}
+              onCancel={cancelScheduledMessage}
+            />
+
+            {/* Message Input */}
+            {isEncrypted && !canSendEncrypted ? (
+              <div className="border-t dark:border-gray-700 bg-amber-50 dark:bg-amber-900/20 px-6 py-4 text-sm text-amber-800 dark:text-amber-200">
+                This conversation is end-to-end encrypted, and your key isn't on this device.{' '}
+                <Link to="/profile" className="font-medium underline">
+                  Set up encryption in your profile
+                </Link>{' '}
+                to read and send messages here.
+              </div>
+            ) : (
+              <MessageInput
+                onSendMessage={handleSendMessage}
+                // Scheduled messages wait on the server in plain text
+                onScheduleMessage={isEncrypted ? undefined : handleScheduleMessage}
+                onSendFile={handleSendFile}
+                onTyping={handleTyping}
+                replyingTo={replyingTo}
+                onCancelReply={handleCancelReply}
+                mentionCandidates={mentionCandidates}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Thread Side Panel */}
+      {isMember && roomId && threadRootMessage && (
+        <ThreadPanel
+          key={threadRootMessage.id}
+          roomId={roomId}
+          rootMessage={threadRootMessage}
+          members={members}
+          canViewDeleted={isRoomModerator}
+          canDeleteAny={isRoomModerator}
+          onClose={() => setThreadRootId(null)}
+        />
+      )}
+
+      {/* Pinned Messages Drawer */}
+      {isMember && roomId && isPinnedOpen && (
+        <PinnedMessagesPanel
+          roomId={roomId}
+          pinnedMessageIds={pinnedMessageIds}
+          members={members}
+          onJumpToMessage={handleJumpToMessage}
+          onUnpin={canPin ? unpinMessage : undefined}
+          onClose={() => setIsPinnedOpen(false)}
+        />
+      )}
+
+      {/* Edit History / Deleted Content Viewer */}
+      {roomId && historyMessage && (
+        <MessageHistoryModal
+          key={historyMessage.id}
+          roomId={roomId}
+          message={historyMessage}
+          canViewDeleted={isRoomModerator}
+          onClose={() => setHistoryMessageId(null)}
+        />
       )}
 
-      {/* Messages Area - Only show when user is a member */}
-      {!isJoining && !joiningError && isMember && (
-        <>
-          <MessageList
-            messages={messages}
-            callLogs={callLogs}
-            loading={loading}
-            onReaction={handleReaction}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-            onReply={handleReply}
-          />
-
-          {/* Typing Indicator */}
-          <TypingIndicator typingUsers={typingUsers} />
-
-          {/* Message Input */}
-          <MessageInput
-            onSendMessage={handleSendMessage}
-            onSendFile={handleSendFile}
-            onTyping={handleTyping}
-            replyingTo={replyingTo}
-            onCancelReply={handleCancelReply}
-          />
-        </>
+      {/* Pre-call Green Room */}
+      {pendingCall && (
+        <GreenRoom
+          mediaType={pendingCall.mediaType}
+          title={pendingCall.title}
+          confirmLabel={pendingCall.confirmLabel}
+          onConfirm={handleConfirmPendingCall}
+          onCancel={() => setPendingCall(null)}
+        />
       )}
 
       {/* Room Settings Modal */}
@@ -0,0 +1,93 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, Image, FileText } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRooms } from '../hooks/useRooms';
+import { useMentions } from '../hooks/useMentions';
+import MentionText from '../components/chat/MentionText';
+import { Card } from '../components/ui/Card';
+import type { Message } from '../types/message';
+
+export default function Mentions() {
+  const { currentUser, userDoc } = useAuth();
+  const { rooms } = useRooms();
+  const { mentions, loading } = useMentions();
+  const navigate = useNavigate();
+
+  const getRoomName = (id: string) => rooms.find((room) => room.id === id)?.name || 'Room';
+
+  // Thread replies open on their root message
+  const handleOpen = (message: Message) => {
+    navigate(`/chat/${message.roomId}?highlight=${message.threadId || message.id}`);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Mentions</h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Messages that mention you across all your rooms
+        </p>
+      </div>
+
+      {/* Mentions */}
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : mentions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
+            <AtSign className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg font-medium">No mentions yet</p>
+            <p className="text-sm">When someone @mentions you, it will show up here</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-2">
+            {mentions.map((message) => (
+              <button
+                key={`${message.roomId}/${message.id}`}
+                onClick={() => handleOpen(message)}
+                className="block w-full text-left"
+              >
+                <Card className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                  <div className="flex items-center gap-2 mb-1 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-semibold text-blue-600 dark:text-blue-400">
+                      #{getRoomName(message.roomId)}
+                    </span>
+                    {message.threadId && <span>(in thread)</span>}
+                    <span>•</span>
+                    <span className="font-medium text-gray-700 dark:text-gray-200">
+                      {message.senderName}
+                    </span>
+                    <span>•</span>
+                    <span>{formatDistanceToNow(message.createdAt, { addSuffix: true })}</span>
+                  </div>
+                  {message.type === 'image' ? (
+                    <p className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                      <Image className="w-4 h-4" /> Image
+                    </p>
+                  ) : message.type === 'file' ? (
+                    <p className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                      <FileText className="w-4 h-4" /> File
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-800 dark:text-gray-100 line-clamp-3 whitespace-pre-wrap break-words">
+                      <MentionText
+                        content={message.content}
+                        mentions={message.mentions}
+                        users={userDoc ? [userDoc] : []}
+                        currentUserId={currentUser?.uid || ''}
+                      />
+                    </p>
+                  )}
+                </Card>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
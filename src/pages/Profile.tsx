@@ -4,6 +4,7 @@ import { useAuth } from '../hooks/useAuth';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Card } from '../components/ui/Card';
+import EncryptionSettings from '../components/profile/EncryptionSettings';
 
 const Profile = () => {
   const { currentUser, userDoc, updateUserProfile } = useAuth();
@@ -36,8 +37,8 @@ const Profile = () => {
   };
 
   return (
-    <div className="flex h-full items-center justify-center bg-gray-50 dark:bg-gray-900 p-4 transition-colors">
-      <div className="w-full max-w-2xl">
+    <div className="flex min-h-full items-center justify-center bg-gray-50 dark:bg-gray-900 p-4 transition-colors">
+      <div className="w-full max-w-2xl space-y-4">
         <Card>
           <div className="p-6">
             {/* Header */}
@@ -168,6 +169,12 @@ const Profile = () => {
             </form>
           </div>
         </Card>
+
+        <Card>
+          <div className="p-6">
+            <EncryptionSettings />
+          </div>
+        </Card>
       </div>
     </div>
   );
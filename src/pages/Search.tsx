@@ -0,0 +1,210 @@
+import { useState, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Search as SearchIcon, Image, FileText } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRooms } from '../hooks/useRooms';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import { tokenize, type MessageSearchFilters } from '../lib/searchService';
+import { Card } from '../components/ui/Card';
+import type { MessageType } from '../types/message';
+
+const selectClassName =
+  'rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-700 dark:text-gray-200 focus:border-blue-500 focus:outline-none';
+
+/**
+ * Wrap the words of `text` that match the query in <mark>
+ */
+const highlightMatches = (text: string, queryText: string): ReactNode => {
+  const tokens = tokenize(queryText).map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (tokens.length === 0) return text;
+
+  const pattern = new RegExp(`(${tokens.join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="rounded bg-yellow-200 dark:bg-yellow-700/60 dark:text-white">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+};
+
+export default function Search() {
+  const { currentUser } = useAuth();
+  const { rooms } = useRooms();
+  const navigate = useNavigate();
+  const [queryText, setQueryText] = useState('');
+  const [roomId, setRoomId] = useState('');
+  const [senderId, setSenderId] = useState('');
+  const [type, setType] = useState<MessageType | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const memberRooms = useMemo(
+    () => rooms.filter((room) => currentUser && room.members.includes(currentUser.uid)),
+    [rooms, currentUser]
+  );
+  const memberRoomIds = useMemo(() => memberRooms.map((room) => room.id), [memberRooms]);
+
+  const filters: MessageSearchFilters = useMemo(
+    () => ({
+      roomId: roomId || undefined,
+      senderId: senderId || undefined,
+      type: type || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    }),
+    [roomId, senderId, type, fromDate, toDate]
+  );
+
+  const { results, senders, indexing, indexedCount, error } = useMessageSearch(
+    memberRoomIds,
+    queryText,
+    filters
+  );
+
+  const hasCriteria = queryText.trim() !== '' || Object.values(filters).some(Boolean);
+
+  const getRoomName = (id: string) => memberRooms.find((room) => room.id === id)?.name || 'Room';
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Search Messages</h1>
+
+        <div className="relative mb-3">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={queryText}
+            onChange={(e) => setQueryText(e.target.value)}
+            placeholder="Search messages in your rooms..."
+            autoFocus
+            className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 dark:text-gray-100 py-2 pl-10 pr-4 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={roomId}
+            onChange={(e) => setRoomId(e.target.value)}
+            className={selectClassName}
+            aria-label="Filter by room"
+          >
+            <option value="">All rooms</option>
+            {memberRooms.map((room) => (
+              <option key={room.id} value={room.id}>
+                {room.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={senderId}
+            onChange={(e) => setSenderId(e.target.value)}
+            className={selectClassName}
+            aria-label="Filter by sender"
+          >
+            <option value="">Anyone</option>
+            {senders.map((sender) => (
+              <option key={sender.id} value={sender.id}>
+                {sender.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as MessageType | '')}
+            className={selectClassName}
+            aria-label="Filter by message type"
+          >
+            <option value="">All types</option>
+            <option value="text">Text</option>
+            <option value="image">Images</option>
+            <option value="file">Files</option>
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className={selectClassName}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className={selectClassName}
+            aria-label="To date"
+          />
+        </div>
+
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {indexing
+            ? `Indexing messages... (${indexedCount} so far)`
+            : `Searching ${indexedCount} recent messages across ${memberRooms.length} rooms`}
+          {error && <span className="ml-2 text-red-500">{error}</span>}
+        </p>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto">
+        {!hasCriteria ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
+            <SearchIcon className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg font-medium">Find a message</p>
+            <p className="text-sm">Type a word or pick a filter to start searching</p>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
+            <p className="text-lg font-medium">{indexing ? 'Searching...' : 'No messages found'}</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-2">
+            {results.map((message) => (
+              <button
+                key={`${message.roomId}/${message.id}`}
+                onClick={() =>
+                  navigate(`/chat/${message.roomId}?highlight=${message.threadId || message.id}`)
+                }
+                className="block w-full text-left"
+              >
+                <Card className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                  <div className="flex items-center gap-2 mb-1 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-semibold text-blue-600 dark:text-blue-400">
+                      #{getRoomName(message.roomId)}
+                    </span>
+                    {message.threadId && <span>(in thread)</span>}
+                    <span>•</span>
+                    <span className="font-medium text-gray-700 dark:text-gray-200">
+                      {message.senderName}
+                    </span>
+                    <span>•</span>
+                    <span>{formatDistanceToNow(message.createdAt, { addSuffix: true })}</span>
+                  </div>
+                  {message.type === 'image' ? (
+                    <p className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                      <Image className="w-4 h-4" /> Image
+                    </p>
+                  ) : message.type === 'file' ? (
+                    <p className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                      <FileText className="w-4 h-4" /> File
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-800 dark:text-gray-100 line-clamp-3 whitespace-pre-wrap break-words">
+                      {highlightMatches(message.content, queryText)}
+                    </p>
+                  )}
+                </Card>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
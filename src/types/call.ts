@@ -1,21 +1,97 @@
-export type CallStatus = 'idle' | 'calling' | 'ringing' | 'connected' | 'ended' | 'rejected';
+// 'missed' is set by the call timeouts function when nobody answers in time
+export type CallStatus =
+  | 'idle'
+  | 'calling'
+  | 'ringing'
+  | 'connected'
+  | 'ended'
+  | 'rejected'
+  | 'missed';
 
 export type CallType = '1-on-1' | 'group';
 
 export type MediaType = 'audio' | 'video';
 
+export interface CallParticipant {
+  name: string;
+  avatar?: string;
+  joinedAt?: Date;
+}
+
+// Someone connected to a room's voice channel
+export interface VoiceParticipant {
+  userId: string;
+  name: string;
+  avatar?: string;
+  isMuted: boolean;
+  isDeafened: boolean;
+  joinedAt: Date;
+}
+
+// Devices chosen for calls (remembered per user, in this browser)
+export interface MediaDevicePreferences {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+export interface MediaDeviceList {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+// What replaces the camera background (segmentation runs in the browser)
+export type BackgroundEffect =
+  | { type: 'none' }
+  | { type: 'blur' }
+  | { type: 'image'; imageUrl: string };
+
+// Someone asking to record the call, or recording it. Nothing is captured until
+// everyone in the call has consented; the others can allow it or leave.
+export interface CallRecording {
+  userId: string;
+  userName: string;
+  startedAt?: Date; // When it was requested
+  consentedIds: string[]; // Participants who allowed it (the recorder included)
+}
+
+// One party of a 1-on-1 call asking to hand the other party over to someone
+// else; the other party's client places the new call
+export interface CallTransfer {
+  requestedBy: string;
+  requestedByName: string;
+  targetId: string;
+  targetName: string;
+  targetAvatar?: string;
+}
+
+// A recording that has stopped and can be downloaded or shared in the call's room
+export interface FinishedRecording {
+  callId: string;
+  roomId: string;
+  file: File;
+}
+
 export interface Call {
   id: string;
   roomId: string;
   callerId: string;
   callerName: string;
   callerAvatar?: string;
-  calleeId: string;
-  calleeName: string;
+  calleeId: string; // Empty for group calls
+  calleeName: string; // The room name for group calls
   calleeAvatar?: string;
   type: CallType;
   mediaType: MediaType;
   status: CallStatus;
+  invitedIds: string[]; // Users who may join (rung when the call starts)
+  participants: string[]; // Users currently in the call
+  participantDetails: Record<string, CallParticipant>;
+  recording?: CallRecording; // Set while a participant is recording
+  heldBy: string[]; // Participants who put the call on hold; media is paused while non-empty
+  transfer?: CallTransfer; // Set while a transfer is being placed
+  transferredBy?: string; // Name of whoever transferred the caller to this call
   startedAt?: Date;
   endedAt?: Date;
   createdAt: Date;
@@ -43,6 +119,7 @@ export interface CallSignal {
   receiverId: string;
   type: 'offer' | 'answer' | 'ice-candidate';
   offer?: CallOffer;
+  iceRestart?: boolean; // The offer renegotiates an existing connection after a network change
   answer?: CallAnswer;
   iceCandidate?: IceCandidate;
   createdAt: Date;
@@ -50,10 +127,40 @@ export interface CallSignal {
 
 export interface CreateCallData {
   roomId: string;
-  calleeId: string;
-  calleeName: string;
+  calleeId: string; // Empty for group calls
+  calleeName: string; // The room name for group calls
   calleeAvatar?: string;
   mediaType?: MediaType; // 'audio' or 'video', defaults to 'video'
+  type?: CallType; // Defaults to '1-on-1'
+  invitedIds?: string[]; // Group calls: the room members to ring (excluding the caller)
+  transferredBy?: string; // Name of whoever transferred the caller to this call
+}
+
+// Local candidate type of the selected ICE pair ('relay' when either side is relayed)
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// Connection quality with one remote participant, from RTCPeerConnection.getStats()
+export interface CallStats {
+  bitrateIn: number; // kbps received
+  bitrateOut: number; // kbps sent
+  packetLoss: number; // Fraction of inbound packets lost since the last sample (0-1)
+  jitter: number; // ms
+  rtt?: number; // ms, once measured
+  candidateType?: CandidateType; // Set once the connection is established
+  score: number; // Estimated MOS, 1 (bad) to 5 (excellent)
+}
+
+export type CallQuality = 'good' | 'fair' | 'poor';
+
+// Summary of a call's connection quality, saved with its CallLog
+export interface CallQualityReport {
+  score: number; // Average estimated MOS over the call
+  quality: CallQuality;
+  packetLoss: number; // Average fraction lost
+  jitter: number; // Average ms
+  rtt?: number; // Average ms
+  bitrate: number; // Average kbps received
+  candidateType?: CandidateType; // Last selected candidate type
 }
 
 export type CallDirection = 'incoming' | 'outgoing';
@@ -73,6 +180,7 @@ export interface CallLog {
   direction: CallDirection; // For the current user
   outcome: CallOutcome;
   duration?: number; // In seconds
+  quality?: CallQualityReport; // Completed calls, when stats were collected
   timestamp: Date;
   createdAt: Date;
 }
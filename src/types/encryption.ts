@@ -0,0 +1,34 @@
+/**
+ * End-to-end encryption state of the current user on this device:
+ * - none: no key pair set up yet
+ * - ready: this device holds the private key for the published public key
+ * - missing: a key is published, but its private key isn't on this device
+ */
+export type EncryptionStatus = 'none' | 'ready' | 'missing';
+
+/**
+ * Passphrase-protected backup of a user's private key (the downloaded file).
+ * The key is encrypted with AES-GCM under a PBKDF2-SHA-256 derived key.
+ */
+export interface EncryptionKeyBackup {
+  version: 1;
+  userId: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  salt: string;
+  iv: string;
+  iterations: number;
+  createdAt: string; // ISO date
+}
+
+/**
+ * A direct-message contact's safety number, for comparing in person or over a call
+ */
+export interface SafetyNumberEntry {
+  userId: string;
+  displayName: string;
+  publicKey: string;
+  safetyNumber: string; // 60 digits in groups of five
+  verified: boolean;
+  keyChanged: boolean; // Verified before, but their key has changed since
+}
@@ -12,8 +12,57 @@ export interface Message {
   updatedAt?: Date;
   reactions?: MessageReaction[];
   replyTo?: string; // Message ID being replied to
+  mentions?: string[]; // IDs of users mentioned with @
+  linkPreview?: LinkPreview; // Unfurled metadata for the first URL in the content
+  threadId?: string; // Root message ID when this message is a thread reply
+  threadReplyCount?: number;
+  lastThreadReplyAt?: Date;
+  lastThreadReply?: ThreadReplyPreview;
   isEdited?: boolean;
   isDeleted?: boolean;
+  encryption?: MessageEncryption; // Set when the content is end-to-end encrypted
+  deliveryStatus?: MessageDeliveryStatus; // Only on the sender's own unsent messages
+}
+
+/**
+ * How an end-to-end encrypted message's content was encrypted: the AES-GCM IV
+ * and the public keys of both members the shared key was derived from
+ */
+export interface MessageEncryption {
+  iv: string;
+  senderKey: string;
+  recipientKey: string;
+}
+
+// A message from the outbox that the server hasn't acknowledged yet
+export type MessageDeliveryStatus = 'sending' | 'failed';
+
+export interface ThreadReplyPreview {
+  senderName: string;
+  content: string;
+  type: MessageType;
+}
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+/**
+ * Audit trail entry for a message: the content as it was before an edit or
+ * deletion, who changed it and when
+ */
+export interface MessageRevision {
+  id: string;
+  content: string;
+  action: 'edit' | 'delete';
+  editedBy: string;
+  editedByName: string;
+  editedAt: Date;
+  encryption?: MessageEncryption; // The revision's content was encrypted
 }
 
 export interface MessageReaction {
@@ -26,4 +75,41 @@ export interface SendMessageData {
   content: string;
   type?: MessageType;
   replyTo?: string;
+  mentions?: string[];
+}
+
+export type ScheduledMessageStatus = 'pending' | 'failed';
+
+/**
+ * A message queued to be sent to a room at `sendAt`. Only the sender can see it.
+ */
+export interface ScheduledMessage {
+  id: string;
+  roomId: string;
+  senderId: string;
+  senderName: string;
+  senderAvatar?: string;
+  content: string;
+  type: MessageType;
+  mentions?: string[];
+  sendAt: Date;
+  createdAt: Date;
+  status: ScheduledMessageStatus;
+  error?: string; // Why the last delivery attempt failed
+}
+
+/**
+ * A message waiting in the sender's outbox (kept in localStorage). Its ID is
+ * generated up front and reused on every attempt, so retries never duplicate it.
+ */
+export interface OutboxMessage {
+  id: string;
+  roomId: string;
+  senderId: string;
+  senderName: string;
+  senderAvatar?: string;
+  data: SendMessageData;
+  createdAt: Date;
+  status: MessageDeliveryStatus;
+  error?: string; // Why the last attempt failed
 }
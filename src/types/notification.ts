@@ -0,0 +1,27 @@
+export type NotificationType = 'message' | 'mention' | 'missedCall';
+
+// How much a room notifies: every message, only @mentions, or nothing
+export type NotificationLevel = 'all' | 'mentions' | 'muted';
+
+/**
+ * An entry in a user's notification centre. Written server-side (the
+ * `notifications` Cloud Functions); the user can only mark it read or delete it.
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  roomId: string;
+  messageId?: string; // Message or thread reply that triggered it
+  threadId?: string; // Root message ID when triggered by a thread reply
+  callId?: string;
+  actorId: string; // Sender or caller
+  actorName: string;
+  actorAvatar?: string;
+  title: string;
+  body: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+// Push notifications on this device: 'denied' means the browser permission was refused
+export type PushStatus = 'unsupported' | 'denied' | 'enabled' | 'disabled';
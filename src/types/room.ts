@@ -1,4 +1,14 @@
-export type RoomType = 'public' | 'private' | 'direct';
+// Voice rooms are open to anyone, like public rooms, and keep a live voice channel
+export type RoomType = 'public' | 'private' | 'direct' | 'voice';
+
+// Who may pin messages in a room (direct rooms always allow both members).
+// 'admins' covers every role from moderator up.
+export type PinPermission = 'admins' | 'members';
+
+// A member's role, highest first: the owner (one per room) manages roles and can
+// hand the room over; admins edit the room, manage members and approve join
+// requests; moderators delete other members' messages
+export type RoomRole = 'owner' | 'admin' | 'moderator' | 'member';
 
 export interface Room {
   id: string;
@@ -11,6 +21,20 @@ export interface Room {
   avatarUrl?: string;
   lastMessageAt?: Date;
   lastMessage?: string;
+  lastMessageId?: string; // The message lastMessage shows
+  messageCount?: number; // Total messages sent in the room (drives unread counts)
+  // Per-member last-read markers from before they moved to users/{uid}/readState/{roomId};
+  // read as a fallback only, keyed by user ID
+  readState?: Record<string, RoomReadState>;
+  pinnedMessageIds?: string[]; // Oldest pin first
+  pinPermission?: PinPermission; // Defaults to 'admins'
+  encrypted?: boolean; // Direct rooms only: messages are end-to-end encrypted (can't be turned off)
+  roles?: Record<string, RoomRole>; // Keyed by user ID; members without an entry are plain members
+}
+
+export interface RoomReadState {
+  lastReadAt?: Date;
+  readCount: number; // Room messageCount at the time the member last read the room
 }
 
 export interface CreateRoomData {
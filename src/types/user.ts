@@ -20,6 +20,7 @@ export interface UserDoc {
   bio?: string;
   createdAt?: Date;
   lastSeen?: Date;
+  publicKey?: string; // End-to-end encryption public key (base64, raw P-256)
 }
 
 export interface UpdateProfileData {
@@ -1,9 +1,54 @@
+import { createHash } from 'node:crypto';
 import { defineConfig } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PRECACHE_FILE = 'sw-precache.js';
+
+const toPrecacheScript = (version: string, urls: string[]) =>
+  `self.__PRECACHE__ = ${JSON.stringify({ version, urls })};\n`;
+
+/**
+ * Emits the service worker's precache list (public/sw.js imports it): every
+ * file of the build, plus a version hashed from their contents. Browsers also
+ * compare imported scripts when checking for a new service worker, so each
+ * deploy that changes the app installs a new one. The dev server serves an
+ * empty list.
+ */
+const serviceWorkerPrecache = (): Plugin => ({
+  name: 'service-worker-precache',
+  configureServer(server) {
+    server.middlewares.use(`/${PRECACHE_FILE}`, (_req, res) => {
+      res.setHeader('Content-Type', 'text/javascript');
+      res.end(toPrecacheScript('dev', []));
+    });
+  },
+  generateBundle: {
+    // After Vite has added index.html to the bundle
+    order: 'post',
+    handler(_options, bundle) {
+      const hash = createHash('sha256');
+      const urls = Object.values(bundle)
+        .filter((file) => !file.fileName.endsWith('.map'))
+        .sort((a, b) => a.fileName.localeCompare(b.fileName))
+        .map((file) => {
+          hash.update(file.fileName);
+          hash.update(file.type === 'chunk' ? file.code : file.source);
+          return `/${file.fileName}`;
+        });
+
+      this.emitFile({
+        type: 'asset',
+        fileName: PRECACHE_FILE,
+        source: toPrecacheScript(hash.digest('hex').slice(0, 12), urls),
+      });
+    },
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPrecache()],
   css: {
     postcss: './postcss.config.js',
   },